@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+/**
+ * Build src/data/gazetteer.json, the offline place list behind the query
+ * box's autocomplete and place resolution.
+ *
+ *   npm run gazetteer
+ *
+ * States and counties come from the Census cartographic boundaries packaged
+ * in us-atlas (1:10m TopoJSON); only their bounding boxes are kept. Cities
+ * of 20,000 people and more come from the SimpleMaps World Cities Database
+ * packaged in world-cities-json (CC BY 4.0). HUC-2/HUC-4 basins are not
+ * generated here, see src/data/hucRegions.ts.
+ */
+import { readFileSync, writeFileSync, mkdirSync } from 'node:fs'
+import { createRequire } from 'node:module'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const require = createRequire(import.meta.url)
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const output = resolve(root, 'src/data/gazetteer.json')
+
+const MIN_CITY_POPULATION = 20000
+
+// State FIPS code -> USPS abbreviation
+const USPS = {
+  '01': 'AL', '02': 'AK', '04': 'AZ', '05': 'AR', '06': 'CA', '08': 'CO', '09': 'CT', '10': 'DE',
+  '11': 'DC', '12': 'FL', '13': 'GA', '15': 'HI', '16': 'ID', '17': 'IL', '18': 'IN', '19': 'IA',
+  '20': 'KS', '21': 'KY', '22': 'LA', '23': 'ME', '24': 'MD', '25': 'MA', '26': 'MI', '27': 'MN',
+  '28': 'MS', '29': 'MO', '30': 'MT', '31': 'NE', '32': 'NV', '33': 'NH', '34': 'NJ', '35': 'NM',
+  '36': 'NY', '37': 'NC', '38': 'ND', '39': 'OH', '40': 'OK', '41': 'OR', '42': 'PA', '44': 'RI',
+  '45': 'SC', '46': 'SD', '47': 'TN', '48': 'TX', '49': 'UT', '50': 'VT', '51': 'VA', '53': 'WA',
+  '54': 'WV', '55': 'WI', '56': 'WY', '60': 'AS', '66': 'GU', '69': 'MP', '72': 'PR', '78': 'VI'
+}
+
+const round = (v) => Math.round(v * 1000) / 1000
+
+/**
+ * Bounding box of every geometry in a TopoJSON object, keyed by id
+ */
+function topologyBounds(topology, objectName) {
+  const [sx, sy] = topology.transform.scale
+  const [tx, ty] = topology.transform.translate
+  // Arcs are quantized and delta-encoded
+  const arcs = topology.arcs.map(arc => {
+    let x = 0
+    let y = 0
+    return arc.map(([dx, dy]) => {
+      x += dx
+      y += dy
+      return [x * sx + tx, y * sy + ty]
+    })
+  })
+  const bounds = new Map()
+  for (const geometry of topology.objects[objectName].geometries) {
+    const points = []
+    const visit = (node) => {
+      if (typeof node === 'number') points.push(...arcs[node < 0 ? ~node : node])
+      else node.forEach(visit)
+    }
+    visit(geometry.arcs || [])
+    if (points.length === 0) continue
+    let lons = points.map(p => p[0])
+    // Alaska's Aleutians cross the antimeridian; keep the western hemisphere part
+    if (Math.max(...lons) - Math.min(...lons) > 180) lons = lons.filter(lon => lon < 0)
+    const lats = points.map(p => p[1])
+    bounds.set(geometry.id, {
+      name: geometry.properties.name,
+      box: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)].map(round)
+    })
+  }
+  return bounds
+}
+
+const atlas = (file) => JSON.parse(readFileSync(require.resolve(`us-atlas/${file}`), 'utf8'))
+
+const stateBounds = topologyBounds(atlas('states-10m.json'), 'states')
+const states = [...stateBounds]
+  .filter(([fips]) => USPS[fips])
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([fips, { name, box }]) => [fips, name, USPS[fips], ...box])
+
+const counties = [...topologyBounds(atlas('counties-10m.json'), 'counties')]
+  .filter(([fips]) => stateBounds.has(fips.slice(0, 2)))
+  .sort(([a], [b]) => a.localeCompare(b))
+  .map(([fips, { name, box }]) => [fips, name, ...box])
+
+const fipsByStateName = new Map(states.map(([fips, name]) => [name, fips]))
+const cities = JSON.parse(readFileSync(require.resolve('world-cities-json/data/cities.json'), 'utf8'))
+  .filter(c => c.iso2 === 'US' && Number(c.population) >= MIN_CITY_POPULATION && fipsByStateName.has(c.admin_name))
+  .sort((a, b) => Number(b.population) - Number(a.population))
+  .map(c => [c.city_ascii, fipsByStateName.get(c.admin_name), round(Number(c.lng)), round(Number(c.lat)), Number(c.population)])
+
+const gazetteer = {
+  attribution: 'U.S. Census Bureau cartographic boundaries (us-atlas); SimpleMaps World Cities Database, CC BY 4.0',
+  // [fips, name, usps, west, south, east, north]
+  states,
+  // [fips, name, west, south, east, north]
+  counties,
+  // [name, state fips, lon, lat, population]
+  cities
+}
+
+mkdirSync(dirname(output), { recursive: true })
+writeFileSync(output, JSON.stringify(gazetteer) + '\n')
+console.log(`✅ ${output}: ${states.length} states, ${counties.length} counties, ${cities.length} cities`)
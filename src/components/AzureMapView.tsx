@@ -1,7 +1,72 @@
-import React, { useEffect, useRef } from 'react'
+import React, { useEffect, useMemo, useRef, useState } from 'react'
 import * as atlas from 'azure-maps-control'
 import 'azure-maps-control/dist/atlas.min.css'
-import { loadGeoTiffOverlay, createDynamicLegend } from '../utils/geotiffLoader'
+import {
+  getVariableDisplayName,
+  bandLabel,
+  colorizeGeoTiff,
+  decodeGeoTiff,
+  pixelLocator,
+  pixelProjector,
+  pixelReader,
+  probeGeoTiff,
+  recolorGeoTiff,
+  releaseImageUrl,
+  restyleGeoTiffGL,
+  showGeoTiffGL,
+  showGeoTiffImage,
+  type DecodedGeoTiff,
+  type GeoTiffGLOverlay,
+  type GeoTiffOverlay,
+  type LoadStage,
+  type PixelReadout,
+  type Resampling,
+  type BandScope
+} from '../utils/geotiffLoader'
+import {
+  buildColorScale,
+  colorExpression,
+  colorForValue,
+  defaultStretch,
+  rgbCss,
+  stretchRange,
+  tileColorScale,
+  valueRange,
+  type ColorScale,
+  type ScaleLock,
+  type Stretch,
+  type ValueRange
+} from '../utils/colorScale'
+import MapLegend from './MapLegend'
+import ColormapPicker from './ColormapPicker'
+import StretchControls from './StretchControls'
+import RasterMetadataPanel from './RasterMetadataPanel'
+import { fetchPointTimeSeries } from '../services/multiAgent'
+import TimeSeriesPanel, { SERIES_COLORS, type PointQuery } from './TimeSeriesPanel'
+import TimeSlider from './TimeSlider'
+import BandSelector from './BandSelector'
+import ContourControls, { type ContourSettings } from './ContourControls'
+import { formatTick } from './TimeSeriesChart'
+import { contourBands, contourLevels, contourLines } from '../utils/contours'
+import { downloadTextFile } from '../utils/conversationBundle'
+import RegionTools from './RegionTools'
+import { RegionDrawer } from '../utils/regionDrawing'
+import { regionLabel } from '../utils/regions'
+import ZonalStatsControls from './ZonalStatsControls'
+import ZonalStatsPanel from './ZonalStatsPanel'
+import { BoundaryPicker, type BoundaryLevel } from '../utils/boundaryLayer'
+import { computeZonalStats, zonalStatsCsv, type ZonalRegion, type ZonalStats } from '../utils/zonalStats'
+import DistributionPanel from './DistributionPanel'
+import { computeDistribution, distributionClasses, rowAreas, type Distribution } from '../utils/distribution'
+import { ValueHighlight } from '../utils/valueHighlight'
+import ProfileControls from './ProfileControls'
+import PointQueryControls from './PointQueryControls'
+import ProfilePanel from './ProfilePanel'
+import { ProfileDrawer } from '../utils/profileDrawing'
+import { profileCsv, sampleProfile, type Profile } from '../utils/profile'
+import { FrameAnimator, type FrameStatus } from '../utils/frameAnimator'
+import { CogOverlay } from '../utils/cogOverlay'
+import type { CameraState, DataPoint, DrawnRegion, MapData, RegionShape } from '../types'
 
 // ✅ NEW: Optional tile bounds helper (install: npm i @mapbox/tilebounds)
 // Guard import so app doesn’t crash if lib not installed yet.
@@ -13,33 +78,596 @@ try {
   console.warn('⚠️ tilebounds library not available - advanced tile debug limited')
 }
 
+const LOAD_STAGE_LABELS: Record<LoadStage, string> = {
+  fetch: 'Fetching',
+  decode: 'Decoding',
+  colorize: 'Colorizing'
+}
+
+function formatReadoutValue(value: number | null, unit: string): string {
+  if (value === null) return 'No data'
+  return `${Math.abs(value) >= 100 ? value.toFixed(1) : value.toFixed(3)} ${unit}`.trim()
+}
+
+// Popup body for a raster pixel; the pinned variant adds the cell geometry
+function pixelPopupContent(title: string, reading: PixelReadout, position: [number, number], unit: string, pinned: boolean): string {
+  const [west, south, east, north] = reading.cellBounds
+  const cell = pinned ? `
+      <div style="font-size: 10px; color: #6b7280; margin-top: 4px; border-top: 1px solid #e5e7eb; padding-top: 4px;">
+        Cell row ${reading.row}, col ${reading.col}<br/>
+        W ${west.toFixed(4)}° · E ${east.toFixed(4)}°<br/>
+        S ${south.toFixed(4)}° · N ${north.toFixed(4)}°
+      </div>` : ''
+  return `
+    <div style="padding: 8px; min-width: 150px; font-size: 12px; font-family: system-ui;">
+      <div style="font-weight: bold; color: #2563eb; margin-bottom: 4px;">${title}</div>
+      <div style="font-size: 14px; font-weight: bold; color: ${reading.value === null ? '#6b7280' : '#111827'};">
+        ${formatReadoutValue(reading.value, unit)}
+      </div>
+      <div style="font-size: 10px; color: #6b7280; margin-top: 4px;">
+        ${position[1].toFixed(4)}°, ${position[0].toFixed(4)}°
+      </div>${cell}
+    </div>
+  `
+}
+
 interface AzureMapViewProps {
-  mapData: {
-    map_url?: string
-    bounds?: {
-      north: number
-      south: number
-      east: number
-      west: number
-    }
-    center?: {
-      lat: number
-      lng: number
-    }
-    zoom?: number
-    azureData?: any
-  }
+  mapData: MapData
   subscriptionKey: string
   clientId?: string
   height?: string
+  onCameraChange?: (camera: CameraState) => void
+  /** Offer a mode in which map clicks request a point time series (default on) */
+  enablePointQuery?: boolean
+  /** Backend thread the point requests belong to */
+  threadId?: string
+  /** Color range shared by every map of one variable */
+  scaleLock?: ScaleLock | null
+  onScaleLockChange?: (lock: ScaleLock | null) => void
+  /** Region attached to the next question, outlined on the map */
+  region?: DrawnRegion | null
+  /** Enables the drawing tools; called with each finished region */
+  onRegionDrawn?: (region: DrawnRegion) => void
 }
 
-export default function AzureMapView({ mapData, subscriptionKey, clientId, height = '400px' }: AzureMapViewProps) {
+export default function AzureMapView({
+  mapData,
+  subscriptionKey,
+  clientId,
+  height = '400px',
+  onCameraChange,
+  enablePointQuery = true,
+  threadId,
+  scaleLock = null,
+  onScaleLockChange,
+  region = null,
+  onRegionDrawn
+}: AzureMapViewProps) {
   const mapRef = useRef<HTMLDivElement>(null)
   const mapInstanceRef = useRef<atlas.Map | null>(null)
+  const [renderError, setRenderError] = useState<string | null>(null)
+  // Scale of the main data layer, drawn as the legend
+  const [legendScale, setLegendScale] = useState<{ scale: ColorScale; showNoData: boolean; recolorable: boolean; warped?: boolean; gpu?: boolean } | null>(null)
+  // User-chosen palette; null keeps the backend/per-variable default
+  const [palette, setPalette] = useState<string | null>(null)
+  const overlayRef = useRef<GeoTiffOverlay | null>(null)
+  // Data GeoTIFF colored on the GPU instead of through a PNG
+  const glOverlayRef = useRef<GeoTiffGLOverlay | null>(null)
+  const [opacity, setOpacity] = useState(0.75)
+  const opacityRef = useRef(opacity)
+  opacityRef.current = opacity
+  // Viewport-limited overlay when the GeoTIFF is Cloud-Optimized
+  const cogRef = useRef<CogOverlay | null>(null)
+  // Bumped per recolor so a slow worker result can't overwrite a newer one
+  const restyleSeqRef = useRef(0)
+  // Fetch/decode/colorize progress of the GeoTIFF being loaded
+  const [loadProgress, setLoadProgress] = useState<{ stage: LoadStage; fraction: number } | null>(null)
+  // Decoded raster currently on the map (the visible frame when animating), for readouts
+  const activeRasterRef = useRef<DecodedGeoTiff | null>(null)
+  // The same raster as state, for the metadata panel
+  const [activeRaster, setActiveRaster] = useState<DecodedGeoTiff | null>(null)
+  const showRaster = (raster: DecodedGeoTiff | null) => {
+    activeRasterRef.current = raster
+    setActiveRaster(raster)
+  }
+  // Pixel readout of the active raster; projected rasters need proj4 loaded first
+  const readerRef = useRef<{ raster: DecodedGeoTiff; read: (position: [number, number]) => PixelReadout | null } | null>(null)
+  useEffect(() => {
+    const raster = activeRaster
+    if (!raster?.values) return
+    let cancelled = false
+    pixelReader(raster)
+      .then(read => { if (!cancelled) readerRef.current = { raster, read } })
+      .catch(err => console.warn('⚠️ Pixel readout unavailable:', err))
+    return () => { cancelled = true }
+  }, [activeRaster])
+  const pointLayerRef = useRef<{ layer: any; scale: ColorScale; values: number[] } | null>(null)
+  const colorVariable = mapData.azureData?.variable_info?.name || mapData.azureData?.tile_config?.variable || 'spi'
+  const [stretch, setStretch] = useState<Stretch>(() => defaultStretch(colorVariable))
+  // A lock for this variable overrides the map's own stretch
+  const activeLock = scaleLock && scaleLock.variable === colorVariable ? scaleLock : null
+  const effectiveStretch: Stretch = activeLock ? { mode: 'fixed', min: activeLock.min, max: activeLock.max } : stretch
+  // Read by layers created inside the map's ready handler
+  const stretchRef = useRef(effectiveStretch)
+  stretchRef.current = effectiveStretch
+  // Sampling of reprojected rasters; undefined leaves the per-kind default
+  const [resampling, setResampling] = useState<Resampling | undefined>(undefined)
+  const resamplingRef = useRef(resampling)
+  resamplingRef.current = resampling
+  // Latest callback without re-creating the map when the parent re-renders
+  const onCameraChangeRef = useRef(onCameraChange)
+  onCameraChangeRef.current = onCameraChange
+
+  // ===== POINT TIME SERIES =====
+  const [pointQueries, setPointQueries] = useState<PointQuery[]>([])
+  const pointAbortRef = useRef<Map<string, AbortController>>(new Map())
+  const pointMarkersRef = useRef<Map<string, any>>(new Map())
+  // Bumped on each map 'ready', so the markers are re-added to a rebuilt map
+  const [mapReadyCount, setMapReadyCount] = useState(0)
+  const variableName = mapData.azureData?.variable_info?.name || mapData.azureData?.tile_config?.variable || 'temperature'
+  const variableLabel = mapData.azureData?.variable_info?.displayName || variableName
+  // Clicks only query points in this mode, so panning and the other tools never fire requests
+  const [pointMode, setPointMode] = useState(false)
+  const pointModeRef = useRef(pointMode)
+  pointModeRef.current = pointMode
+
+  useEffect(() => {
+    if (!pointMode) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setPointMode(false)
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [pointMode])
+
+  const togglePointMode = () => {
+    if (!pointMode) {
+      drawerRef.current?.cancel()
+      profileDrawerRef.current?.cancel()
+    }
+    setPointMode(!pointMode)
+  }
+
+  // Date of the map on screen: the current frame, then the raster's own metadata, then the tiles
+  const shownDate = (): string | undefined => {
+    const raster = activeRasterRef.current
+    return (hasFrames ? frames[frameIndex]?.date : undefined)
+      ?? raster?.metadata.bands[band]?.date ?? raster?.metadata.date
+      ?? mapData.azureData?.tile_config?.date
+  }
+
+  const queryPoint = (position: [number, number]) => {
+    const [longitude, latitude] = position
+    if (!isFinite(latitude) || !isFinite(longitude)) return
+
+    const id = `pt-${Date.now()}`
+    setPointQueries(prev => {
+      // The newest unpinned point replaces the previous unpinned one
+      prev.filter(p => !p.pinned).forEach(p => pointAbortRef.current.get(p.id)?.abort())
+      const kept = prev.filter(p => p.pinned)
+      const used = new Set(kept.map(p => p.color))
+      const color = SERIES_COLORS.find(c => !used.has(c)) || SERIES_COLORS[kept.length % SERIES_COLORS.length]
+      return [...kept, { id, latitude, longitude, color, pinned: false, status: 'loading' }]
+    })
+
+    const controller = new AbortController()
+    pointAbortRef.current.set(id, controller)
+    console.log('📈 Requesting time series at', { latitude, longitude, variable: variableName })
+
+    fetchPointTimeSeries({
+      latitude,
+      longitude,
+      variable: variableName,
+      variableLabel,
+      date: shownDate(),
+      threadId
+    }, { signal: controller.signal, maxRetries: 1 })
+      .then(series => {
+        setPointQueries(prev => prev.map(p => p.id === id ? { ...p, status: 'ready', series } : p))
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        setPointQueries(prev => prev.map(p => p.id === id ? { ...p, status: 'error', error: err?.message || 'Request failed' } : p))
+      })
+      .finally(() => pointAbortRef.current.delete(id))
+  }
+  const queryPointRef = useRef(queryPoint)
+  queryPointRef.current = queryPoint
+
+  const removePointQuery = (id: string) => {
+    pointAbortRef.current.get(id)?.abort()
+    setPointQueries(prev => prev.filter(p => p.id !== id))
+  }
+
+  const clearPointQueries = () => {
+    pointAbortRef.current.forEach(controller => controller.abort())
+    setPointQueries([])
+  }
+
+  // Keep one map marker per queried point
+  useEffect(() => {
+    const map = mapInstanceRef.current as any
+    if (!map) return
+    const markers = pointMarkersRef.current
+    const ids = new Set(pointQueries.map(p => p.id))
+
+    markers.forEach((marker, id) => {
+      if (!ids.has(id)) {
+        map.markers.remove(marker)
+        markers.delete(id)
+      }
+    })
+    pointQueries.forEach(p => {
+      if (!markers.has(p.id)) {
+        const marker = new (atlas as any).HtmlMarker({ position: [p.longitude, p.latitude], color: p.color })
+        map.markers.add(marker)
+        markers.set(p.id, marker)
+      }
+    })
+  }, [pointQueries, mapReadyCount])
+
+  // Re-render the single GeoTIFF overlay (whole file or COG) with the current style and band
+  const restyleOverlay = () => {
+    const colormap = palette ?? mapData.azureData?.colormap
+    const style = { variable: colorVariable, colormap, stretch: effectiveStretch, resampling, band, bandScope }
+    const glOverlay = glOverlayRef.current
+    if (glOverlay) {
+      // Only uniforms and the color ramp change; the values stay on the GPU
+      const restyled = restyleGeoTiffGL(glOverlay, style)
+      glOverlayRef.current = restyled
+      showRaster(restyled.raster)
+      if (restyled.scale) setLegendScale({ scale: restyled.scale, showNoData: true, recolorable: true, warped: !!restyled.raster.warp, gpu: true })
+    }
+    const overlay = overlayRef.current
+    if (overlay) {
+      // Recoloring runs in a worker; only the latest request may touch the layer
+      const seq = ++restyleSeqRef.current
+      bandBusyRef.current = true
+      recolorGeoTiff(overlay, style).then(recolored => {
+        if (seq !== restyleSeqRef.current || overlayRef.current !== overlay) {
+          if (recolored.imageUrl !== overlay.imageUrl) releaseImageUrl(recolored.imageUrl)
+          return
+        }
+        if (recolored.imageUrl !== overlay.imageUrl) {
+          overlay.layer.setOptions({ url: recolored.imageUrl })
+          releaseImageUrl(overlay.imageUrl)
+        }
+        overlayRef.current = recolored
+        showRaster(recolored.raster)
+        if (recolored.scale) setLegendScale({ scale: recolored.scale, showNoData: true, recolorable: true, warped: !!recolored.raster.warp })
+      }).catch(error => console.error('❌ Recoloring failed:', error?.message))
+        .finally(() => { if (seq === restyleSeqRef.current) bandBusyRef.current = false })
+    }
+    if (cogRef.current) {
+      bandBusyRef.current = true
+      cogRef.current.restyle(style)
+    }
+  }
+
+  // Switch palettes and stretches client-side from the decoded data, without refetching
+  useEffect(() => {
+    const colormap = palette ?? mapData.azureData?.colormap
+    restyleOverlay()
+    animatorRef.current?.restyle(colormap, effectiveStretch, resampling)
+    const points = pointLayerRef.current
+    if (points) {
+      const scale = buildColorScale(colorVariable, colormap, stretchRange(points.values, effectiveStretch))
+      points.layer.setOptions({ color: colorExpression(scale) })
+      pointLayerRef.current = { ...points, scale }
+      setLegendScale({ scale, showNoData: false, recolorable: true })
+    }
+  }, [palette, stretch, resampling, activeLock?.min, activeLock?.max])
+
+  // ===== MULTI-BAND GEOTIFFS =====
+  // Data bands of the overlay (variables or time steps); frames always show band 1
+  const [band, setBand] = useState(0)
+  const [bandScope, setBandScope] = useState<BandScope>('band')
+  const [bandPlaying, setBandPlaying] = useState(false)
+  const [bandSpeed, setBandSpeed] = useState(1)
+  // True while a band is being colorized, so playback waits for it
+  const bandBusyRef = useRef(false)
+  const bandCount = activeRaster?.bandValues.length ?? 0
+
+  useEffect(() => {
+    restyleOverlay()
+  }, [band, bandScope])
+
+  useEffect(() => {
+    if (!bandPlaying || bandCount < 2) return
+    const timer = setInterval(() => {
+      if (!bandBusyRef.current) setBand(b => (b + 1) % bandCount)
+    }, 1000 / bandSpeed)
+    return () => clearInterval(timer)
+  }, [bandPlaying, bandSpeed, bandCount])
+
+  useEffect(() => {
+    glOverlayRef.current?.layer.setStyle({ opacity })
+  }, [opacity])
+
+  // ===== CONTOURS =====
+  // Isolines / isobands traced from the raster on screen (the current band or frame)
+  const [contourSettings, setContourSettings] = useState<ContourSettings | null>(null)
+  const [contourBusy, setContourBusy] = useState(false)
+  const [contourGeoJson, setContourGeoJson] = useState<{ type: 'FeatureCollection'; features: any[] } | null>(null)
+  const contourSourceRef = useRef<any>(null)
+  const rasterRange = useMemo(() => (activeRaster?.values ? valueRange(activeRaster.values) : null), [activeRaster?.values])
+
+  // One source for lines and bands, drawn below the map labels
+  const contourSource = (map: any) => {
+    if (contourSourceRef.current) return contourSourceRef.current
+    const source = new (atlas as any).source.DataSource()
+    map.sources.add(source)
+    const isLine = ['==', ['geometry-type'], 'LineString']
+    const layers = [
+      new (atlas as any).layer.PolygonLayer(source, 'contour-bands', { fillColor: ['get', 'color'], fillOpacity: 0.65 }),
+      new (atlas as any).layer.LineLayer(source, 'contour-lines', { strokeColor: '#1f2937', strokeWidth: 1, filter: isLine }),
+      new (atlas as any).layer.SymbolLayer(source, 'contour-labels', {
+        placement: 'line',
+        filter: isLine,
+        iconOptions: { image: 'none' },
+        textOptions: { textField: ['get', 'label'], size: 11, color: '#111827', haloColor: '#ffffff', haloWidth: 1.5 }
+      })
+    ]
+    try {
+      map.layers.add(layers, 'labels')
+    } catch {
+      map.layers.add(layers)
+    }
+    contourSourceRef.current = source
+    return source
+  }
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !contourSettings || !activeRaster?.values || !rasterRange) {
+      contourSourceRef.current?.clear()
+      setContourGeoJson(null)
+      return
+    }
+    const raster = activeRaster
+    const { mode, interval, base } = contourSettings
+    const scale = legendScale?.scale
+    let cancelled = false
+    setContourBusy(true)
+    pixelLocator(raster).then(locate => {
+      if (cancelled || mapInstanceRef.current !== map) return
+      const grid = { width: raster.width, height: raster.height, values: raster.values! }
+      const levels = contourLevels(rasterRange, interval, base)
+      const bands = mode === 'lines' ? [] : contourBands(grid, levels, locate, formatTick).features.map(feature => {
+        const { min, max } = feature.properties
+        const color = scale && colorForValue(scale, min === null ? max! : max === null ? min : (min + max) / 2)
+        return { ...feature, properties: { ...feature.properties, color: color ? rgbCss(color) : '#6366f1' } }
+      })
+      const lines = mode === 'bands' ? [] : contourLines(grid, levels, locate, formatTick).features
+      const collection = { type: 'FeatureCollection' as const, features: [...bands, ...lines] }
+      const source = contourSource(map)
+      source.setShapes(collection)
+      setContourGeoJson(collection)
+      console.log(`〰 Contours: ${levels.length} levels, ${bands.length} bands, ${lines.length} lines`)
+    }).catch(error => {
+      console.error('❌ Contouring failed:', error?.message)
+    }).finally(() => {
+      if (!cancelled) setContourBusy(false)
+    })
+    return () => { cancelled = true }
+  }, [contourSettings, activeRaster, rasterRange, legendScale?.scale])
+
+  // ===== REGION DRAWING =====
+  const drawerRef = useRef<RegionDrawer | null>(null)
+  const [drawingShape, setDrawingShape] = useState<RegionShape | null>(null)
+  const regionRef = useRef(region)
+  regionRef.current = region
+  const onRegionDrawnRef = useRef(onRegionDrawn)
+  onRegionDrawnRef.current = onRegionDrawn
+
+  useEffect(() => {
+    drawerRef.current?.show(region)
+  }, [region])
+
+  const startDrawing = (shape: RegionShape) => {
+    if (!drawerRef.current) return
+    profileDrawerRef.current?.cancel()
+    setPointMode(false)
+    drawerRef.current.start(shape)
+    setDrawingShape(shape)
+  }
+
+  // ===== ZONAL STATISTICS =====
+  const boundaryRef = useRef<BoundaryPicker | null>(null)
+  const [boundaryLevel, setBoundaryLevel] = useState<BoundaryLevel | null>(null)
+  const [pickedBoundary, setPickedBoundary] = useState<ZonalRegion | null>(null)
+  const [zonalRows, setZonalRows] = useState<ZonalStats[]>([])
+  const [zonalBusy, setZonalBusy] = useState(false)
+  const [zonalMessage, setZonalMessage] = useState<string | null>(null)
+
+  const drawnZone = useMemo<ZonalRegion | null>(
+    () => (region ? { id: region.id, label: regionLabel(region), polygons: [[region.ring]] } : null),
+    [region]
+  )
+
+  useEffect(() => {
+    boundaryRef.current?.show(boundaryLevel, activeRaster?.bbox)
+      .catch(err => console.warn('⚠️ Boundaries failed to load:', err))
+  }, [boundaryLevel, activeRaster?.bbox])
+
+  const computeZonal = async (zone: ZonalRegion) => {
+    const raster = activeRaster
+    if (!raster?.values) return
+    setZonalBusy(true)
+    setZonalMessage(null)
+    try {
+      const [project, locate] = await Promise.all([pixelProjector(raster), pixelLocator(raster)])
+      const layer = raster.bandValues.length > 1 ? bandLabel(raster.metadata, raster.band) : raster.metadata.date
+      // Let the busy state paint before the scan
+      await new Promise(resolve => setTimeout(resolve, 0))
+      const stats = computeZonalStats({ width: raster.width, height: raster.height, values: raster.values }, zone, project, locate, layer)
+      if (!stats) {
+        setZonalMessage(`${zone.label} does not overlap the raster`)
+        return
+      }
+      if (stats.validCells === 0) setZonalMessage(`${zone.label} only covers NoData cells`)
+      setZonalRows(prev => [...prev.filter(r => r.regionId !== stats.regionId || r.layer !== stats.layer), stats])
+    } catch (err) {
+      console.error('❌ Zonal statistics failed:', err)
+      setZonalMessage(err instanceof Error ? err.message : 'Zonal statistics failed')
+    } finally {
+      setZonalBusy(false)
+    }
+  }
+
+  const exportZonal = () => {
+    const name = `${colorVariable}-zonal-stats.csv`
+    downloadTextFile(name, zonalStatsCsv(zonalRows, variableLabel, mapData.azureData?.variable_info?.unit), 'text/csv')
+  }
+
+  // ===== CROSS-SECTION PROFILE =====
+  // Values of the raster on screen sampled along a drawn line
+  const profileDrawerRef = useRef<ProfileDrawer | null>(null)
+  const [profileDrawing, setProfileDrawing] = useState(false)
+  const [profilePath, setProfilePath] = useState<[number, number][] | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
+
+  useEffect(() => {
+    const raster = activeRaster
+    if (!profilePath || !raster?.values) {
+      setProfile(null)
+      return
+    }
+    let cancelled = false
+    pixelProjector(raster)
+      .then(project => {
+        if (!cancelled) setProfile(sampleProfile({ width: raster.width, height: raster.height, values: raster.values! }, profilePath, project))
+      })
+      .catch(err => console.warn('⚠️ Profile failed:', err))
+    return () => { cancelled = true }
+  }, [profilePath, activeRaster])
+
+  const startProfile = () => {
+    if (!profileDrawerRef.current) return
+    drawerRef.current?.cancel()
+    setPointMode(false)
+    profileDrawerRef.current.start()
+    setProfileDrawing(true)
+    setProfilePath(null)
+  }
+
+  const clearProfile = () => {
+    profileDrawerRef.current?.show(null)
+    setProfilePath(null)
+  }
+
+  const exportProfile = () => {
+    if (!profile) return
+    const name = `${colorVariable}-profile.csv`
+    downloadTextFile(name, profileCsv(profile, variableLabel, mapData.azureData?.variable_info?.unit), 'text/csv')
+  }
+
+  // ===== DISTRIBUTION =====
+  // Histogram of the raster on screen, or of the result's points; a brushed range is highlighted on the map
+  const highlightRef = useRef<ValueHighlight | null>(null)
+  const [distributionOpen, setDistributionOpen] = useState(false)
+  const [distribution, setDistribution] = useState<Distribution | null>(null)
+  const [brush, setBrush] = useState<ValueRange | null>(null)
+
+  const distributionPoints = useMemo<DataPoint[]>(() => {
+    const points = mapData.azureData?.temperature_data
+    if (points && points.length > 0) return points
+    return (mapData.azureData?.geojson?.features || []).map(feature => ({
+      latitude: feature.geometry.coordinates[1],
+      longitude: feature.geometry.coordinates[0],
+      value: feature.properties.value as number
+    }))
+  }, [mapData])
+  const distributionSource = activeRaster?.values ? 'raster' : distributionPoints.length > 0 ? 'points' : null
+  const legendClasses = legendScale?.scale.classes ?? null
+
+  useEffect(() => {
+    if (!distributionOpen) return
+    const classes = distributionClasses(colorVariable, legendClasses)
+    const raster = activeRaster
+    if (!raster?.values) {
+      setDistribution(computeDistribution(distributionPoints.map(p => p.value), classes))
+      return
+    }
+    let cancelled = false
+    pixelLocator(raster)
+      .then(locate => {
+        if (cancelled) return
+        const areas = rowAreas(raster.height, raster.width, locate)
+        setDistribution(computeDistribution(raster.values!, classes, i => areas[Math.floor(i / raster.width)]))
+      })
+      .catch(err => console.warn('⚠️ Distribution failed:', err))
+    return () => { cancelled = true }
+  }, [distributionOpen, activeRaster, distributionPoints, colorVariable, legendClasses])
+
+  useEffect(() => {
+    const highlight = highlightRef.current
+    if (!highlight) return
+    if (activeRaster?.values) {
+      highlight.showRaster(activeRaster, brush, resampling).catch(err => console.warn('⚠️ Highlight failed:', err))
+    } else {
+      highlight.showPoints(distributionPoints, brush)
+    }
+  }, [brush, activeRaster, distributionPoints, resampling])
+
+  const distributionColor = (value: number): string | null => {
+    const color = legendScale ? colorForValue(legendScale.scale, value) : null
+    return color ? rgbCss(color) : null
+  }
+
+  const exportContours = () => {
+    if (!contourGeoJson) return
+    const name = `${colorVariable}-contours-${contourSettings?.interval ?? ''}.geojson`
+    downloadTextFile(name, JSON.stringify(contourGeoJson), 'application/geo+json')
+  }
+
+  // ===== MULTI-DATE ANIMATION =====
+  const frames = mapData.azureData?.frames || []
+  const hasFrames = frames.length > 1
+  const animatorRef = useRef<FrameAnimator | null>(null)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(1)
+  const [frameStatus, setFrameStatus] = useState<FrameStatus[]>([])
+
+  useEffect(() => {
+    animatorRef.current?.show(frameIndex).catch(error => console.warn('⚠️ Frame failed to show:', error?.message))
+  }, [frameIndex])
+
+  // Advance only once the next frame is loaded, so playback never shows a gap
+  useEffect(() => {
+    if (!playing || !hasFrames) return
+    const timer = setInterval(() => {
+      const animator = animatorRef.current
+      if (!animator) return
+      setFrameIndex(i => {
+        const next = (i + 1) % animator.length
+        if (animator.isReady(next)) return next
+        animator.preload(next)
+        return i
+      })
+    }, 1000 / speed)
+    return () => clearInterval(timer)
+  }, [playing, speed, hasFrames])
+
+  // Abort outstanding point requests on unmount
+  useEffect(() => {
+    const controllers = pointAbortRef.current
+    return () => controllers.forEach(controller => controller.abort())
+  }, [])
 
   useEffect(() => {
     if (!mapRef.current || !subscriptionKey) return
+    setRenderError(null)
+    setLegendScale(null)
+    setActiveRaster(null)
+    setLoadProgress(null)
+    setPalette(null)
+    setStretch(defaultStretch(colorVariable))
+    setBand(0)
+    setBandPlaying(false)
+    setContourSettings(null)
+    setDrawingShape(null)
 
     const defaultBounds = {
       north: 49.0,
@@ -54,11 +682,14 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
       lng: (bounds.east + bounds.west) / 2
     }
 
-    console.log('Initializing Azure Maps with:', { bounds, center, azureData: mapData.azureData })
+    // A saved camera (e.g. from an imported bundle) wins over bounds fitting
+    const savedCamera = mapData.camera
+
+    console.log('Initializing Azure Maps with:', { bounds, center, savedCamera, azureData: mapData.azureData })
 
     const map = new atlas.Map(mapRef.current, {
-      center: [center.lng, center.lat],
-      zoom: mapData.zoom || 6,
+      center: savedCamera?.center || [center.lng, center.lat],
+      zoom: savedCamera?.zoom || mapData.zoom || 6,
       style: 'satellite_road_labels',
       interactive: true,
       showLogo: false,
@@ -70,24 +701,67 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
     })
 
     mapInstanceRef.current = map
+    // Layers are added shortly after 'ready'; cleared if the map goes away first
+    let layerTimer: ReturnType<typeof setTimeout> | undefined
 
     map.events.add('ready', () => {
       console.log('🗺️ Azure Maps Ready')
+      setMapReadyCount(n => n + 1)
+
+      drawerRef.current = new RegionDrawer(map, {
+        onDrawn: (drawn) => {
+          setDrawingShape(null)
+          onRegionDrawnRef.current?.(drawn)
+        },
+        onCancel: () => setDrawingShape(null)
+      })
+      drawerRef.current.show(regionRef.current)
+      boundaryRef.current = new BoundaryPicker(map, { onPick: setPickedBoundary })
+      highlightRef.current = new ValueHighlight(map)
+      profileDrawerRef.current = new ProfileDrawer(map, {
+        onDrawn: (path) => {
+          setProfileDrawing(false)
+          setProfilePath(path)
+        },
+        onCancel: () => setProfileDrawing(false)
+      })
+
+      if (enablePointQuery) {
+        map.events.add('click', (e: any) => {
+          if (!pointModeRef.current || drawerRef.current?.drawing || profileDrawerRef.current?.drawing || boundaryRef.current?.active) return
+          if (Array.isArray(e.position)) queryPointRef.current(e.position)
+        })
+      }
+
+      map.events.add('moveend', () => {
+        const cam = (map as any).getCamera()
+        onCameraChangeRef.current?.({
+          center: cam.center,
+          zoom: cam.zoom,
+          bearing: cam.bearing,
+          pitch: cam.pitch
+        })
+      })
 
-      setTimeout(() => {
+      layerTimer = setTimeout(() => {
+        if (mapInstanceRef.current !== map) return
         console.log('📊 ====== FASTAPI DATA ANALYSIS ======')
         console.log('azureData keys:', mapData.azureData ? Object.keys(mapData.azureData) : 'NONE')
         console.log('azureData full object:', mapData.azureData)
 
         // ✅ FIXED: Check for tile-based rendering first with proper detection
-        const useTiles = mapData.azureData?.use_tiles === true
+        const kind = mapData.azureData?.kind
+        const useTiles = kind === 'tiles'
         const tileConfig = mapData.azureData?.tile_config
         const overlayUrl = mapData.azureData?.overlay_url
         const staticUrl = mapData.azureData?.static_url
-        const hasGeoJsonData = !!(mapData.azureData?.geojson?.features?.length > 0)
+        const geotiffUrl = mapData.azureData?.geotiff_url
+        const geoJsonFeatures = mapData.azureData?.geojson?.features || []
+        const hasGeoJsonData = geoJsonFeatures.length > 0
         const hasBounds = !!(mapData.azureData?.bounds || mapData.bounds)
 
         console.log('🎯 ENHANCED FASTAPI DATA ANALYSIS:', {
+          kind: kind,
           useTiles: useTiles,
           useTilesType: typeof mapData.azureData?.use_tiles,
           useTilesValue: mapData.azureData?.use_tiles,
@@ -395,13 +1069,59 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
 
       
 
-        // Invoke handleWeatherResponse for unified flow
-        handleWeatherResponse(mapData.azureData || {})
+        // Invoke handleWeatherResponse for unified flow (animations manage their own layers)
+        if (!hasFrames) {
+          handleWeatherResponse(mapData.azureData || {})
+        }
+
+        // Hover data shared by every kind that carries points
+        const pointData: DataPoint[] = geoJsonFeatures.map(feature => ({
+          latitude: feature.geometry.coordinates[1],
+          longitude: feature.geometry.coordinates[0],
+          value: feature.properties.value as number,
+          variable: feature.properties.variable,
+          unit: feature.properties.unit
+        }))
+        const pointVariable = mapData.azureData?.variable_info?.name || geoJsonFeatures[0]?.properties.variable || 'temperature'
+        const pointUnit = mapData.azureData?.variable_info?.unit ?? geoJsonFeatures[0]?.properties.unit ?? '°C'
 
         // ===== END TILE DEBUG HELPERS =============================
 
+        // ✅ PRIORITY 0: Animated multi-date result
+        if (hasFrames && (useTiles || kind === 'geotiff')) {
+          console.log(`🎞️ ====== ANIMATING ${frames.length} FRAMES ======`)
+          const animator = new FrameAnimator(map, frames, {
+            variable: colorVariable,
+            colormap: mapData.azureData?.colormap,
+            stretch: stretchRef.current,
+            resampling: resamplingRef.current,
+            onFrameStatus: (index, status) => setFrameStatus(prev => {
+              const next = [...prev]
+              next[index] = status
+              return next
+            }),
+            onFrameShown: (_index, rendered) => {
+              showRaster(rendered.raster)
+              if (rendered.scale) setLegendScale({ scale: rendered.scale, showNoData: true, recolorable: true, warped: !!rendered.raster.warp })
+            }
+          })
+          animatorRef.current = animator
+          animator.show(0).then(ok => {
+            if (!ok) setRenderError(`The first frame (${frames[0].date}) could not be loaded.`)
+          })
+          if (kind === 'geotiff') {
+            addRasterReadout(!hasGeoJsonData)
+          }
+          if (useTiles) {
+            const scale = tileColorScale(tileConfig, colorVariable)
+            if (scale) setLegendScale({ scale, showNoData: true, recolorable: false })
+          }
+          if (hasGeoJsonData) {
+            processTemperatureData(pointData, pointVariable, pointUnit)
+          }
+        }
         // ✅ PRIORITY 1: Use tile-based rendering if available
-        if (useTiles && tileConfig && tileConfig.tile_url) {
+        else if (useTiles && tileConfig && tileConfig.tile_url) {
           console.log('🗺️ ====== USING TILE-BASED RENDERING ======')
           console.log('Tile URL template:', tileConfig.tile_url)
 
@@ -451,45 +1171,116 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
             addTileLayer(tileConfig)
           }
 
+          const tileScale = tileColorScale(tileConfig, tileConfig.variable || pointVariable)
+          if (tileScale) setLegendScale({ scale: tileScale, showNoData: true, recolorable: false })
+
           // Add hover interactions for GeoJSON data
           if (hasGeoJsonData) {
             console.log('🎯 Adding hover interactions for tile + GeoJSON')
-            const variable = tileConfig.variable || 'temperature'
-            const unit = mapData.azureData.geojson.features[0]?.properties?.unit || '°C'
+            processTemperatureData(pointData, tileConfig.variable || pointVariable, pointUnit)
+          }
+        }
+        // ✅ PRIORITY 2: Colorize the GeoTIFF client-side
+        else if (kind === 'geotiff' && geotiffUrl) {
+          console.log('🗺️ ====== USING GEOTIFF OVERLAY ======')
+          setLoadProgress({ stage: 'fetch', fraction: 0 })
+          const reportProgress = (stage: LoadStage, fraction: number) => {
+            if (mapInstanceRef.current === map) setLoadProgress({ stage, fraction })
+          }
+          const loadWholeFile = async () => {
+            const style = { variable: colorVariable, colormap: mapData.azureData?.colormap, stretch: stretchRef.current, resampling: resamplingRef.current }
+            try {
+              const raster = await decodeGeoTiff(geotiffUrl, reportProgress)
+              if (mapInstanceRef.current !== map) return
+              if (!raster) {
+                setLoadProgress(null)
+                setRenderError('The GeoTIFF for this result could not be loaded or decoded.')
+                return
+              }
+
+              // Data grids are colored in a shader; imagery and GPUs without float textures get a PNG
+              const glOverlay = showGeoTiffGL(raster, map, style)
+              if (glOverlay) {
+                glOverlay.layer.setStyle({ opacity: opacityRef.current })
+                glOverlayRef.current = glOverlay
+                setLoadProgress(null)
+                showRaster(glOverlay.raster)
+                if (glOverlay.scale) setLegendScale({ scale: glOverlay.scale, showNoData: true, recolorable: true, warped: !!raster.warp, gpu: true })
+                if (savedCamera) map.setCamera(savedCamera)
+                return
+              }
 
-            const temperatureData = mapData.azureData.geojson.features.map((feature: any) => ({
-              latitude: feature.geometry.coordinates[1],
-              longitude: feature.geometry.coordinates[0],
-              value: feature.properties.value,
-              variable: feature.properties.variable || variable,
-              unit: feature.properties.unit || unit
-            }))
+              const { imageUrl, scale } = await colorizeGeoTiff(raster, style, reportProgress)
+              if (mapInstanceRef.current !== map) {
+                releaseImageUrl(imageUrl)
+                return
+              }
+              setLoadProgress(null)
+              const overlay = showGeoTiffImage({ imageUrl, corners: raster.corners, bbox: raster.bbox, raster, scale }, map)
+              overlayRef.current = overlay
+              showRaster(overlay.raster)
+              if (overlay.scale) setLegendScale({ scale: overlay.scale, showNoData: true, recolorable: true, warped: !!overlay.raster.warp })
+              if (savedCamera) map.setCamera(savedCamera)
+            } catch (error: any) {
+              if (mapInstanceRef.current !== map) return
+              setLoadProgress(null)
+              setRenderError(`The GeoTIFF for this result could not be drawn: ${error?.message}`)
+            }
+          }
 
-            processTemperatureData(temperatureData, variable, unit)
+          // Tiled (Cloud-Optimized) GeoTIFFs are range-read per viewport instead
+          probeGeoTiff(geotiffUrl).then(info => {
+            if (mapInstanceRef.current !== map) return
+            if (!info?.tiled) {
+              loadWholeFile()
+              return
+            }
+            console.log(`🧩 Cloud-Optimized GeoTIFF: ${info.width}x${info.height}, ${info.overviews} overview(s)`)
+            const cog = new CogOverlay(map, geotiffUrl, info, {
+              variable: colorVariable,
+              colormap: mapData.azureData?.colormap,
+              stretch: stretchRef.current,
+              resampling: resamplingRef.current,
+              onProgress: reportProgress,
+              onRendered: (rendered) => {
+                bandBusyRef.current = false
+                setLoadProgress(null)
+                showRaster(rendered.raster)
+                if (rendered.scale) setLegendScale({ scale: rendered.scale, showNoData: true, recolorable: true, warped: !!rendered.raster.warp })
+              },
+              onError: (error) => {
+                bandBusyRef.current = false
+                setLoadProgress(null)
+                setRenderError(`The GeoTIFF for this view could not be read: ${error.message}`)
+              }
+            })
+            cogRef.current = cog
+            cog.start(!savedCamera)
+          })
+          addRasterReadout(!hasGeoJsonData)
+
+          if (hasGeoJsonData) {
+            processTemperatureData(pointData, pointVariable, pointUnit)
           }
         }
-        // ✅ PRIORITY 2: Fall back to PNG overlay ONLY if not using tiles
+        // ✅ PRIORITY 3: Fall back to PNG overlay ONLY if not using tiles
         else if ((overlayUrl || staticUrl) && hasBounds) {
           console.log('📸 ====== FALLING BACK TO PNG OVERLAY ======')
-          console.log('Reason: useTiles =', useTiles, ', tileConfig =', !!tileConfig)
+          console.log('Reason: kind =', kind)
           addPngOverlay()
 
           if (hasGeoJsonData) {
             console.log('🎯 Adding hover interactions for PNG + GeoJSON')
-            const variable = mapData.azureData?.geojson?.features?.[0]?.properties?.variable || 'temperature'
-            const unit = mapData.azureData?.geojson?.features?.[0]?.properties?.unit || '°C'
-
-            const temperatureData = mapData.azureData.geojson.features.map((feature: any) => ({
-              latitude: feature.geometry.coordinates[1],
-              longitude: feature.geometry.coordinates[0],
-              value: feature.properties.value,
-              variable: feature.properties.variable,
-              unit: feature.properties.unit
-            }))
-
-            processTemperatureData(temperatureData, variable, unit)
+            processTemperatureData(pointData, pointVariable, pointUnit)
           }
+        }
+        // ✅ PRIORITY 4: Point results (extreme regions, sampled values)
+        else if ((kind === 'points' || kind === 'extreme_regions') && hasGeoJsonData) {
+          console.log('📍 ====== RENDERING POINT DATA ======')
+          addPointLayer()
+          processTemperatureData(pointData, pointVariable, pointUnit)
         } else {
+          setRenderError(`Nothing to draw for this ${kind || 'unknown'} result: the response has no usable map layer.`)
           console.log('⚠️ No valid rendering method available')
           console.log('Debug info:', {
             useTiles,
@@ -514,8 +1305,10 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
           // Use overlay_url if available, fallback to static_url
           const imageUrl = overlayUrl || staticUrl
           
-          if (!imageUrl || !imageUrl.startsWith('http')) {
+          // Imported bundles inline their images as data: URLs
+          if (!imageUrl || !/^(https?|data|blob):/.test(imageUrl)) {
             console.log('❌ No valid image URL for PNG overlay')
+            setRenderError('The overlay image of this result has no usable URL.')
             return
           }
           
@@ -590,6 +1383,15 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
           })
           
           console.log(`✅ PNG ImageLayer created with opacity: ${opacity}`)
+
+          // The ImageLayer fails silently on an unreadable image, so load it once to report that
+          const probe = new Image()
+          probe.onerror = () => {
+            if (mapInstanceRef.current !== map) return
+            console.error('❌ PNG overlay image failed to load:', imageUrl.substring(0, 80))
+            setRenderError('The overlay image of this result could not be loaded.')
+          }
+          probe.src = imageUrl
           
           // Add to map
           try {
@@ -597,11 +1399,13 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
             console.log('✅ PNG overlay added below labels')
             
             // Zoom to overlay bounds
-            map.setCamera({
-              bounds: [overlayBounds.west, overlayBounds.south, overlayBounds.east, overlayBounds.north],
-              padding: 40
-            })
-            console.log('✅ Camera set to overlay bounds')
+            if (!savedCamera) {
+              map.setCamera({
+                bounds: [overlayBounds.west, overlayBounds.south, overlayBounds.east, overlayBounds.north],
+                padding: 40
+              })
+              console.log('✅ Camera set to overlay bounds')
+            }
             
           } catch (error) {
             console.error('❌ Failed to add PNG overlay below labels:', error)
@@ -614,6 +1418,25 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
           }
         }
 
+        // ====== POINT LAYER ======
+        function addPointLayer() {
+          const ds = new (atlas as any).source.DataSource()
+          map.sources.add(ds)
+          ds.add(mapData.azureData?.geojson)
+          const values = pointData.map(p => p.value)
+          const scale = buildColorScale(colorVariable, mapData.azureData?.colormap, stretchRange(values, stretchRef.current))
+          setLegendScale({ scale, showNoData: false, recolorable: true })
+          const layer = new (atlas as any).layer.BubbleLayer(ds, 'point-values', {
+            radius: 6,
+            color: scale.range || scale.classes ? colorExpression(scale) : '#dc2626',
+            strokeColor: '#ffffff',
+            strokeWidth: 1
+          })
+          map.layers.add(layer)
+          pointLayerRef.current = { layer, scale, values }
+          console.log('✅ Point layer added with', geoJsonFeatures.length, 'features')
+        }
+
         // ====== ENHANCED HOVER INTERACTIONS ======
         function processTemperatureData(temperatureData: any[], variable: string, unit: string) {
           console.log('🎯 Processing hover interactions for', temperatureData.length, 'data points')
@@ -750,6 +1573,42 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
           console.log('✅ Hover interactions ready for', validData.length, 'points')
         }
 
+        // Pixel value on hover and a pinned popup with the cell on click,
+        // read from whichever decoded raster is on the map
+        function addRasterReadout(withHover: boolean) {
+          const title = mapData.azureData?.variable_info?.displayName || getVariableDisplayName(colorVariable)
+          const unit = mapData.azureData?.variable_info?.unit || ''
+          const readAt = (position: any): PixelReadout | null => {
+            const reader = readerRef.current
+            return reader && reader.raster === activeRasterRef.current && Array.isArray(position) ? reader.read(position as [number, number]) : null
+          }
+
+          if (withHover) {
+            const hoverPopup = new (atlas as any).Popup({ pixelOffset: [0, -12], closeButton: false })
+            map.events.add('mousemove', (e: any) => {
+              const reading = readAt(e.position)
+              if (!reading) {
+                hoverPopup.close()
+                return
+              }
+              hoverPopup.setOptions({ content: pixelPopupContent(title, reading, e.position, unit, false), position: e.position })
+              hoverPopup.open(map)
+            })
+            map.events.add('mouseleave', () => hoverPopup.close())
+            map.getCanvasContainer().style.cursor = 'crosshair'
+          }
+
+          const pinnedPopup = new (atlas as any).Popup({ closeButton: true })
+          map.events.add('click', (e: any) => {
+            if (pointModeRef.current || drawerRef.current?.drawing || profileDrawerRef.current?.drawing || boundaryRef.current?.active) return
+            const reading = readAt(e.position)
+            if (!reading) return
+            pinnedPopup.setOptions({ content: pixelPopupContent(title, reading, e.position, unit, true), position: e.position })
+            pinnedPopup.open(map)
+          })
+          console.log('✅ Raster readout ready')
+        }
+
         function getVariableDisplayName(variable: string): string {
           const nameMap: { [key: string]: string } = {
             'Tair': 'Air Temperature',
@@ -764,25 +1623,235 @@ export default function AzureMapView({ mapData, subscriptionKey, clientId, heigh
       }, 1500)
 
       // Set initial camera
-      map.setCamera({
+      map.setCamera(savedCamera || {
         bounds: [bounds.west, bounds.south, bounds.east, bounds.north],
         padding: 40
       })
     })
 
+    setFrameIndex(0)
+    setPlaying(false)
+    setFrameStatus([])
+
     return () => {
+      clearTimeout(layerTimer)
+      animatorRef.current?.dispose()
+      animatorRef.current = null
+      releaseImageUrl(overlayRef.current?.imageUrl)
+      overlayRef.current = null
+      glOverlayRef.current = null
+      contourSourceRef.current = null
+      drawerRef.current?.dispose()
+      drawerRef.current = null
+      boundaryRef.current?.dispose()
+      boundaryRef.current = null
+      setBoundaryLevel(null)
+      setPickedBoundary(null)
+      setZonalRows([])
+      setZonalMessage(null)
+      highlightRef.current?.dispose()
+      highlightRef.current = null
+      setBrush(null)
+      setDistribution(null)
+      profileDrawerRef.current?.dispose()
+      profileDrawerRef.current = null
+      setProfileDrawing(false)
+      setProfilePath(null)
+      setPointMode(false)
+      cogRef.current?.dispose()
+      cogRef.current = null
+      activeRasterRef.current = null
+      pointLayerRef.current = null
+      pointMarkersRef.current.clear()
       if (mapInstanceRef.current) {
         mapInstanceRef.current.dispose()
         mapInstanceRef.current = null
       }
     }
-  }, [mapData, subscriptionKey, clientId])
+  }, [mapData, subscriptionKey, clientId, enablePointQuery])
 
   return (
-    <div 
-      ref={mapRef} 
-      style={{ height, width: '100%' }}
-      className="rounded-md border"
-    />
+    <div>
+      <div className="relative">
+        <div 
+          ref={mapRef} 
+          style={{ height, width: '100%' }}
+          className="rounded-md border"
+        />
+        {loadProgress && (
+          <div className="absolute inset-x-0 top-0 m-2 px-3 py-2 text-xs bg-white/95 border border-gray-200 text-gray-700 rounded-md shadow">
+            <div className="mb-1">{LOAD_STAGE_LABELS[loadProgress.stage]} GeoTIFF… {Math.round(loadProgress.fraction * 100)}%</div>
+            <div className="h-1 bg-gray-200 rounded">
+              <div className="h-1 bg-indigo-500 rounded" style={{ width: `${loadProgress.fraction * 100}%` }} />
+            </div>
+          </div>
+        )}
+        {renderError && (
+          <div className="absolute inset-x-0 top-0 m-2 px-3 py-2 text-xs bg-red-50 border border-red-200 text-red-700 rounded-md">
+            ⚠️ {renderError}
+          </div>
+        )}
+        {activeRaster && (
+          <div className="absolute bottom-5 left-2 z-10">
+            <RasterMetadataPanel raster={activeRaster} />
+          </div>
+        )}
+        {!loadProgress && !renderError && (
+          <div className="absolute top-2 left-2 z-10 flex items-start gap-1">
+            {enablePointQuery && (
+              <PointQueryControls active={pointMode} onToggle={togglePointMode} />
+            )}
+            {onRegionDrawn && (
+              <RegionTools
+                drawing={drawingShape}
+                onDraw={startDrawing}
+                onCancel={() => drawerRef.current?.cancel()}
+              />
+            )}
+            {activeRaster?.values && (
+              <ContourControls
+                settings={contourSettings}
+                range={rasterRange}
+                busy={contourBusy}
+                featureCount={contourGeoJson?.features.length ?? 0}
+                onChange={setContourSettings}
+                onExport={exportContours}
+              />
+            )}
+            {activeRaster?.values && (
+              <ProfileControls
+                drawing={profileDrawing}
+                onDraw={startProfile}
+                onCancel={() => profileDrawerRef.current?.cancel()}
+              />
+            )}
+            {activeRaster?.values && (
+              <ZonalStatsControls
+                drawn={drawnZone}
+                picked={pickedBoundary}
+                busy={zonalBusy}
+                onBoundaryLevel={(level) => { setBoundaryLevel(level); boundaryRef.current?.select(null); setPickedBoundary(null) }}
+                onCompute={computeZonal}
+              />
+            )}
+          </div>
+        )}
+        {legendScale && (
+          <div className="absolute bottom-5 right-5 z-10 flex flex-col items-end gap-1">
+            {legendScale.recolorable && (
+              <div className="flex gap-1">
+                <StretchControls
+                  stretch={stretch}
+                  range={legendScale.scale.range}
+                  lock={activeLock}
+                  onChange={setStretch}
+                  onLock={onScaleLockChange && (() => {
+                    const range = legendScale.scale.range
+                    if (range) onScaleLockChange({ variable: colorVariable, min: range.min, max: range.max })
+                  })}
+                  onUnlock={onScaleLockChange && (() => onScaleLockChange(null))}
+                />
+                {legendScale.warped && (
+                  <button
+                    onClick={() => setResampling(r => (r ?? 'nearest') === 'nearest' ? 'bilinear' : 'nearest')}
+                    className="px-2 py-1 text-xs bg-white/95 border border-gray-200 rounded-md shadow hover:bg-gray-50 text-gray-600"
+                    title="Resampling used when reprojecting the raster onto the map"
+                  >
+                    {(resampling ?? 'nearest') === 'nearest' ? '▦ Nearest' : '◫ Bilinear'}
+                  </button>
+                )}
+                {legendScale.gpu && (
+                  <label
+                    className="flex items-center gap-1 px-2 py-1 text-xs bg-white/95 border border-gray-200 rounded-md shadow text-gray-600"
+                    title="Layer opacity"
+                  >
+                    ◐
+                    <input
+                      type="range"
+                      min={0.1}
+                      max={1}
+                      step={0.05}
+                      value={opacity}
+                      onChange={(e) => setOpacity(Number(e.target.value))}
+                      className="w-16"
+                    />
+                  </label>
+                )}
+                <ColormapPicker value={legendScale.scale.palette} automatic={palette === null} onChange={setPalette} />
+              </div>
+            )}
+            <MapLegend
+              title={mapData.azureData?.variable_info?.displayName || getVariableDisplayName(variableName)}
+              unit={mapData.azureData?.variable_info?.unit || activeRaster?.metadata.bands[0]?.unit || undefined}
+              scale={legendScale.scale}
+              showNoData={legendScale.showNoData}
+            />
+          </div>
+        )}
+      </div>
+      {hasFrames && (
+        <TimeSlider
+          dates={frames.map(f => f.date)}
+          index={frameIndex}
+          playing={playing}
+          speed={speed}
+          frameStatus={frameStatus}
+          onIndexChange={(index) => { setPlaying(false); setFrameIndex(index) }}
+          onTogglePlay={() => setPlaying(p => !p)}
+          onSpeedChange={setSpeed}
+        />
+      )}
+      {!hasFrames && activeRaster && bandCount > 1 && (
+        <BandSelector
+          labels={activeRaster.bandValues.map((_, i) => bandLabel(activeRaster.metadata, i))}
+          band={band}
+          playing={bandPlaying}
+          speed={bandSpeed}
+          scope={bandScope}
+          onBandChange={(index) => { setBandPlaying(false); setBand(index) }}
+          onTogglePlay={() => setBandPlaying(p => !p)}
+          onSpeedChange={setBandSpeed}
+          onScopeChange={setBandScope}
+        />
+      )}
+      {distributionSource && !loadProgress && (
+        <DistributionPanel
+          open={distributionOpen}
+          onToggle={() => { if (distributionOpen) setBrush(null); setDistributionOpen(o => !o) }}
+          distribution={distribution}
+          variableLabel={variableLabel}
+          unit={mapData.azureData?.variable_info?.unit}
+          source={distributionSource}
+          colorOf={distributionColor}
+          brush={brush}
+          onBrush={setBrush}
+        />
+      )}
+      <TimeSeriesPanel
+        points={pointQueries}
+        variableLabel={variableLabel}
+        unit={mapData.azureData?.variable_info?.unit}
+        onPin={(id) => setPointQueries(prev => prev.map(p => p.id === id ? { ...p, pinned: !p.pinned } : p))}
+        onRemove={removePointQuery}
+        onClear={clearPointQueries}
+      />
+      <ProfilePanel
+        profile={profile}
+        variableLabel={variableLabel}
+        unit={mapData.azureData?.variable_info?.unit}
+        onHover={(sample) => profileDrawerRef.current?.setMarker(sample?.position ?? null)}
+        onClear={clearProfile}
+        onExport={exportProfile}
+      />
+      <ZonalStatsPanel
+        rows={zonalRows}
+        variableLabel={variableLabel}
+        unit={mapData.azureData?.variable_info?.unit}
+        message={zonalMessage}
+        onRemove={(row) => setZonalRows(prev => prev.filter(r => r !== row))}
+        onClear={() => { setZonalRows([]); setZonalMessage(null) }}
+        onExport={exportZonal}
+      />
+    </div>
   )
 }
\ No newline at end of file
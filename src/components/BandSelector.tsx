@@ -0,0 +1,71 @@
+import React from 'react'
+import TimeSlider from './TimeSlider'
+import type { BandScope } from '../utils/geotiffLoader'
+
+interface BandSelectorProps {
+  /** One label per data band: its date, description or position */
+  labels: string[]
+  band: number
+  playing: boolean
+  speed: number
+  scope: BandScope
+  onBandChange: (band: number) => void
+  onTogglePlay: () => void
+  onSpeedChange: (speed: number) => void
+  onScopeChange: (scope: BandScope) => void
+}
+
+/**
+ * Band picker for multi-band data GeoTIFFs: choose a band by name, or step
+ * and play through the bands as time steps; the color scale is either
+ * stretched per band or shared by all bands
+ */
+export default function BandSelector({
+  labels,
+  band,
+  playing,
+  speed,
+  scope,
+  onBandChange,
+  onTogglePlay,
+  onSpeedChange,
+  onScopeChange
+}: BandSelectorProps) {
+  return (
+    <div>
+      <TimeSlider
+        dates={labels}
+        index={band}
+        playing={playing}
+        speed={speed}
+        frameStatus={labels.map(() => 'ready')}
+        onIndexChange={onBandChange}
+        onTogglePlay={onTogglePlay}
+        onSpeedChange={onSpeedChange}
+      />
+      <div className="mt-1 flex items-center gap-3 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          Band
+          <select
+            value={band}
+            onChange={(e) => onBandChange(Number(e.target.value))}
+            className="border rounded px-1 py-0.5 max-w-[14rem]"
+          >
+            {labels.map((label, i) => <option key={i} value={i}>{i + 1}. {label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1" title="Stretch colors on this band alone, or on all bands so they compare">
+          Scale
+          <select
+            value={scope}
+            onChange={(e) => onScopeChange(e.target.value as BandScope)}
+            className="border rounded px-1 py-0.5"
+          >
+            <option value="band">Per band</option>
+            <option value="global">All bands</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  )
+}
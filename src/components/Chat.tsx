@@ -1,9 +1,41 @@
-import React, { useState, useRef, useEffect } from 'react'
-import { callMultiAgentFunction, testFastAPIConnection } from '../services/multiAgent'
+import React, { useState, useRef, useEffect, useMemo } from 'react'
+import { streamMultiAgentFunction, testFastAPIConnection } from '../services/multiAgent'
 import { TransformWrapper, TransformComponent } from 'react-zoom-pan-pinch'
 import AzureMapView from './AzureMapView'
-import { getStableUserId, clearUserId } from '../utils/userIdentity'
-import type { Message, MapData } from '../types'
+import SessionSidebar from './SessionSidebar'
+import ComparisonView, { type ComparisonItem } from './ComparisonView'
+import PlacePicker from './PlacePicker'
+import type { ScaleLock } from '../utils/colorScale'
+import { getStableUserId } from '../utils/userIdentity'
+import { applyServerIds, autoNameThread, buildThreadRequest, createThread } from '../utils/threads'
+import { deleteConversation, listConversations, saveConversation } from '../utils/conversationStore'
+import {
+  bundleFileName,
+  createBundle,
+  downloadTextFile,
+  importBundle,
+  toHtmlTranscript,
+  toMarkdownTranscript
+} from '../utils/conversationBundle'
+import { deleteSavedRegion, loadSavedRegions, regionLabel, saveRegion } from '../utils/regions'
+import { loadGazetteer, placesBounds, type Gazetteer, type PlaceMatch } from '../utils/gazetteer'
+import { ResponseValidationError } from '../services/responseSchema'
+import { RequestManager, RequestTimeoutError, isCancellation } from '../services/requestManager'
+import type {
+  AgentStep,
+  Bounds,
+  CameraState,
+  ConversationThread,
+  CopilotResponse,
+  DrawnRegion,
+  ExtremeRegion,
+  ExtremeRegionsResponse,
+  MapData,
+  Message,
+  Place,
+  TextResponse,
+  VariableInfo
+} from '../types'
 
 // Get Azure Maps credentials from environment variables
 const AZURE_MAPS_KEY = import.meta.env.VITE_AZURE_MAPS_SUBSCRIPTION_KEY
@@ -17,14 +49,53 @@ console.log('AZURE_MAPS_CLIENT_ID loaded:', !!AZURE_MAPS_CLIENT_ID)
 console.log('API_BASE_URL:', import.meta.env.VITE_API_BASE_URL)
 console.log('=== END ENV DEBUG ===')
 
+type ExportFormat = 'bundle' | 'bundle-inline' | 'markdown' | 'html'
+
+// Camera when neither the question nor the response locates the data
+const CONUS_BOUNDS: Bounds = { north: 49.0, south: 25.0, east: -66.0, west: -125.0 }
+
 export default function Chat() {
   const [query, setQuery] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [messages, setMessages] = useState<Message[]>([])
+  const [threads, setThreads] = useState<ConversationThread[]>(() => [createThread()])
+  const [activeThreadId, setActiveThreadId] = useState<string>(() => threads[0].id)
   const [debug, setDebug] = useState<any>(null)
   const [userId, setUserId] = useState<string>('')
   const endRef = useRef<HTMLDivElement | null>(null)
+  const requestManagerRef = useRef(new RequestManager())
+  // updatedAt of each thread as last written to IndexedDB
+  const savedVersionsRef = useRef<Map<string, number>>(new Map())
+  // Live camera of each interactive map, keyed by message id (used for export)
+  const cameraStatesRef = useRef<Record<string, CameraState>>({})
+  const [exporting, setExporting] = useState(false)
+  // Map messages picked for the comparison workspace (at most two, any thread)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [comparing, setComparing] = useState(false)
+  // Color range locked across every map of one variable
+  const [scaleLock, setScaleLock] = useState<ScaleLock | null>(null)
+  // Region drawn on a map (or picked from the saved ones) for the next question
+  const [pendingRegion, setPendingRegion] = useState<DrawnRegion | null>(null)
+  const [savedRegions, setSavedRegions] = useState<DrawnRegion[]>(() => loadSavedRegions())
+  // Offline place list for autocomplete and place resolution, loaded in the background
+  const [gazetteer, setGazetteer] = useState<Gazetteer | null>(null)
+  // Places picked from the autocomplete for the question being typed
+  const [pickedPlaces, setPickedPlaces] = useState<Place[]>([])
+  const [suggestionsHidden, setSuggestionsHidden] = useState(false)
+  const [activeSuggestion, setActiveSuggestion] = useState(-1)
+  // A name in the question shared by several places, waiting for the user's pick
+  const [placeQuestion, setPlaceQuestion] = useState<{ match: PlaceMatch; chosen: Record<string, Place | null> } | null>(null)
+
+  const activeThread = threads.find(t => t.id === activeThreadId) ?? threads[0]
+  const messages = activeThread.messages
+
+  const updateThread = (id: string, patch: (t: ConversationThread) => ConversationThread) => {
+    setThreads((prev) => prev.map(t => t.id === id ? { ...patch(t), updatedAt: Date.now() } : t))
+  }
+
+  const setThreadMessages = (id: string, patch: (messages: Message[]) => Message[]) => {
+    updateThread(id, t => ({ ...t, messages: patch(t.messages) }))
+  }
 
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -51,14 +122,200 @@ export default function Chat() {
     initUser()
   }, [])
 
-  // Handle new conversation
+  // Restore this user's saved conversations
+  useEffect(() => {
+    if (!userId) return
+    listConversations(userId)
+      .then(saved => {
+        console.log(`💾 Restored ${saved.length} saved conversations`)
+        saved.forEach(t => savedVersionsRef.current.set(t.id, t.updatedAt))
+        setThreads((prev) => [...prev.filter(t => !saved.some(s => s.id === t.id)), ...saved])
+      })
+      .catch(err => console.warn('⚠️ Could not load saved conversations:', err?.message))
+  }, [userId])
+
+  // Persist threads that changed since they were last saved (debounced while streaming)
+  useEffect(() => {
+    if (!userId) return
+    const timer = setTimeout(() => {
+      threads.forEach(t => {
+        if (t.messages.length === 0 || savedVersionsRef.current.get(t.id) === t.updatedAt) return
+        savedVersionsRef.current.set(t.id, t.updatedAt)
+        saveConversation(userId, t).catch(err => console.warn('⚠️ Could not save conversation:', err?.message))
+      })
+    }, 500)
+    return () => clearTimeout(timer)
+  }, [threads, userId])
+
+  // Don't leave a request running after the chat unmounts
+  useEffect(() => {
+    const requestManager = requestManagerRef.current
+    return () => requestManager.cancel()
+  }, [])
+
+  // Stop the in-flight query
+  const handleStop = () => {
+    console.log('🛑 Cancelling in-flight request')
+    requestManagerRef.current.cancel()
+  }
+
+  // Handle new conversation: the next query asks the backend for a fresh thread
   const handleNewConversation = () => {
-    clearUserId()
-    setUserId('')
-    setMessages([])
+    // An untouched thread is already a new chat
+    if (activeThread.messages.length === 0) return
+    const thread = createThread()
+    setThreads((prev) => [...prev, thread])
+    setActiveThreadId(thread.id)
+    setError(null)
+    setDebug(null)
+    console.log('🔄 Started new conversation thread:', thread.id)
+  }
+
+  const toggleCompare = (messageId: string) => {
+    setCompareIds(prev => prev.includes(messageId)
+      ? prev.filter(id => id !== messageId)
+      // Picking a third map replaces the oldest pick
+      : [...prev, messageId].slice(-2))
+  }
+
+  // Label a map by the question that produced it
+  const comparisonItem = (messageId: string): ComparisonItem | null => {
+    for (const thread of threads) {
+      const index = thread.messages.findIndex(m => m.id === messageId)
+      const message = thread.messages[index]
+      if (!message?.mapData) continue
+      const question = thread.messages.slice(0, index).reverse().find(m => m.role === 'user')
+      return { id: message.id, label: question?.text || message.text || thread.name, mapData: message.mapData }
+    }
+    return null
+  }
+
+  const compareItems = compareIds.map(comparisonItem).filter((item): item is ComparisonItem => item !== null)
+
+  const handleSwitchThread = (id: string) => {
+    setActiveThreadId(id)
     setError(null)
     setDebug(null)
-    console.log('🔄 Cleared user ID for fresh conversation')
+  }
+
+  const handleRenameThread = (thread: ConversationThread) => {
+    const name = window.prompt('Rename conversation', thread.name)?.trim()
+    if (name) {
+      updateThread(thread.id, t => ({ ...t, name, customName: true }))
+    }
+  }
+
+  const handleExport = async (format: ExportFormat) => {
+    const thread = activeThread
+    setExporting(true)
+    try {
+      if (format === 'markdown') {
+        downloadTextFile(bundleFileName(thread, 'md'), toMarkdownTranscript(thread), 'text/markdown')
+      } else if (format === 'html') {
+        // Inline images so the transcript stays readable offline
+        const bundle = await createBundle(thread, cameraStatesRef.current, { inlineArtifacts: true })
+        downloadTextFile(bundleFileName(thread, 'html'), toHtmlTranscript(thread, bundle.artifacts), 'text/html')
+      } else {
+        const bundle = await createBundle(thread, cameraStatesRef.current, { inlineArtifacts: format === 'bundle-inline' })
+        downloadTextFile(bundleFileName(thread, 'json'), JSON.stringify(bundle, null, 2), 'application/json')
+      }
+      console.log('📦 Exported conversation as', format)
+    } catch (err: any) {
+      setError(`Export failed: ${err?.message || 'Unknown error'}`)
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const thread = importBundle(await file.text())
+      setThreads((prev) => [...prev, thread])
+      setActiveThreadId(thread.id)
+      setError(null)
+      console.log('📦 Imported conversation:', thread.name, `(${thread.messages.length} messages)`)
+    } catch (err: any) {
+      setError(`Import failed: ${err?.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleSaveRegion = (region: DrawnRegion) => {
+    const name = window.prompt('Name this region (e.g. "our study basin")', region.name || '')?.trim()
+    if (!name) return
+    try {
+      setSavedRegions(saveRegion(region, name))
+      setPendingRegion({ ...region, name })
+    } catch (err: any) {
+      setError(`Could not save the region: ${err?.message || 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteRegion = (region: DrawnRegion) => {
+    if (!window.confirm(`Delete the saved region "${region.name}"?`)) return
+    setSavedRegions(deleteSavedRegion(region.id))
+  }
+
+  useEffect(() => {
+    loadGazetteer()
+      .then(setGazetteer)
+      .catch(err => console.warn('⚠️ Gazetteer unavailable, places will not be resolved:', err?.message))
+  }, [])
+
+  const suggestions = useMemo(
+    () => gazetteer && !suggestionsHidden && !placeQuestion ? gazetteer.suggest(query) : null,
+    [gazetteer, query, suggestionsHidden, placeQuestion]
+  )
+
+  const handleQueryChange = (text: string) => {
+    setQuery(text)
+    setSuggestionsHidden(false)
+    setActiveSuggestion(-1)
+    setPlaceQuestion(null)
+  }
+
+  // Replace the words being typed with the place and remember the pick
+  const pickSuggestion = (place: Place) => {
+    if (!suggestions) return
+    setQuery(`${query.slice(0, suggestions.from)}${place.label} `)
+    setPickedPlaces(prev => [...prev.filter(p => p.id !== place.id), place])
+    setActiveSuggestion(-1)
+  }
+
+  // Answer the "Which ...?" prompt and send
+  const choosePlace = (place: Place | null) => {
+    if (!placeQuestion) return
+    setActiveSuggestion(-1)
+    handleSubmit(undefined, { ...placeQuestion.chosen, [placeQuestion.match.text]: place })
+  }
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const list = placeQuestion?.match.candidates ?? suggestions?.places ?? []
+    if (list.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const down = e.key === 'ArrowDown'
+      setActiveSuggestion(i => down ? (i + 1) % list.length : i <= 0 ? list.length - 1 : i - 1)
+    } else if (e.key === 'Escape') {
+      setSuggestionsHidden(true)
+      setPlaceQuestion(null)
+      setActiveSuggestion(-1)
+    } else if ((e.key === 'Tab' && !placeQuestion) || (e.key === 'Enter' && activeSuggestion >= 0)) {
+      e.preventDefault()
+      const place = list[Math.max(0, activeSuggestion)]
+      placeQuestion ? choosePlace(place) : pickSuggestion(place)
+    }
+  }
+
+  const handleDeleteThread = (thread: ConversationThread) => {
+    if (!window.confirm(`Delete "${thread.name}"? This cannot be undone.`)) return
+    const remaining = threads.filter(t => t.id !== thread.id)
+    const next = remaining.length > 0 ? remaining : [createThread()]
+    setThreads(next)
+    if (thread.id === activeThread.id) {
+      setActiveThreadId(next[0].id)
+    }
+    savedVersionsRef.current.delete(thread.id)
+    deleteConversation(thread.id).catch(err => console.warn('⚠️ Could not delete conversation:', err?.message))
   }
 
   // Add this debug function after handleNewConversation
@@ -91,30 +348,6 @@ export default function Chat() {
       })
   }
 
-  // Function to determine map bounds based on query
-  function getMapBounds(query: string): MapData['bounds'] {
-    const lowerQuery = query.toLowerCase()
-    
-    if (lowerQuery.includes('florida')) {
-      return { north: 31.0, south: 24.5, east: -80.0, west: -87.6 }
-    }
-    if (lowerQuery.includes('california')) {
-      return { north: 42.0, south: 32.5, east: -114.1, west: -124.4 }
-    }
-    if (lowerQuery.includes('maryland')) {
-      return { north: 39.7, south: 37.9, east: -75.0, west: -79.5 }
-    }
-    if (lowerQuery.includes('texas')) {
-      return { north: 36.5, south: 25.8, east: -93.5, west: -106.6 }
-    }
-    if (lowerQuery.includes('michigan')) {
-      return { north: 48.3, south: 41.7, east: -82.4, west: -90.4 }
-    }
-    
-    // Default bounds (continental US)
-    return { north: 49.0, south: 25.0, east: -66.0, west: -125.0 }
-  }
-
   // Helper function for display names
   function getDisplayName(variable: string): string {
     const variableMap: { [key: string]: string } = {
@@ -186,449 +419,350 @@ export default function Chat() {
     return 'extreme'
   }
 
-  async function handleSubmit(e?: React.FormEvent) {
-    e?.preventDefault()
-    if (!query.trim()) return
+  // Remove URLs and boilerplate lines from the assistant text
+  function cleanResponseText(content: string): string {
+    return content
+      .replace(/^Analysis completed:.*$/i, '')
+      .replace(/https?:\/\/[^\s]+/g, '')
+      .replace(/\n\s*\n/g, '\n')
+      .trim()
+  }
 
-    const userMsg: Message = { id: String(Date.now()), role: 'user', text: query }
-    setMessages((prev) => [...prev, userMsg])
-    const currentQuery = query
-    setQuery('')
-    setError(null)
-    setLoading(true)
+  // Bounding box of a set of lat/lon points
+  function boundsOfPoints(points: Array<{ latitude: number, longitude: number }>): Bounds | null {
+    if (points.length === 0) return null
+    const lats = points.map(p => p.latitude)
+    const lngs = points.map(p => p.longitude)
+    return {
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs)
+    }
+  }
 
-    try {
-      console.log('Sending request to backend with query:', userMsg.text)
-      const resp = await callMultiAgentFunction({ action: 'generate', data: { query: userMsg.text } })
-      console.log('Raw backend response:', resp)
-      
-      const r = resp.response
-      
-      console.log('=== BACKEND RESPONSE STRUCTURE ===')
-      console.log('Full response keys:', Object.keys(r || {}))
-      console.log('geotiff_url:', r?.geotiff_url)
-      console.log('static_url:', r?.static_url)
-      console.log('overlay_url:', r?.overlay_url)
-      console.log('geojson features:', r?.geojson?.features?.length)
-      console.log('temperature_data:', r?.temperature_data?.length)
-      console.log('bounds:', r?.bounds)
-      console.log('=== END RESPONSE STRUCTURE ===')
-
-      // ✅ Check for visualization data with proper priority
-      const hasGeoTiffUrl = !!(r?.geotiff_url)
-      const hasStaticUrl = !!(r?.static_url)
-      const hasOverlayUrl = !!(r?.overlay_url)
-      let hasGeoJsonData = !!(r?.geojson?.features?.length > 0)
-      let hasTemperatureData = !!(r?.temperature_data?.length > 0)
-
-      console.log('📊 Data availability (initial):', {
-        hasGeoTiffUrl,
-        hasStaticUrl,
-        hasOverlayUrl,
-        hasGeoJsonData,
-        hasTemperatureData
-      })
+  // Standalone map for extreme-region results without any raster artifact
+  function buildRegionMapData(
+    r: ExtremeRegionsResponse,
+    regions: ExtremeRegion[],
+    variable: string,
+    variableInfo: VariableInfo,
+    analysisType: string
+  ): MapData {
+    const regionBounds = boundsOfPoints(regions)!
+    console.log('🗺️ Region bounds calculated:', regionBounds)
 
-      // ✅ Extract and validate GeoJSON to prevent NaN
-      if (hasGeoJsonData) {
-        const validFeatures = r.geojson.features.filter((f: any) => {
-          const lat = f.geometry?.coordinates?.[1]
-          const lng = f.geometry?.coordinates?.[0]
-          const value = f.properties?.value ?? f.properties?.spi ?? f.properties?.temperature
-          
-          const isValid = (
-            isFinite(lat) && 
-            isFinite(lng) && 
-            isFinite(value)
-          )
-          
-          if (!isValid) {
-            console.warn('❌ Invalid feature filtered out:', { 
-              lat, lng, value, 
-              properties: f.properties 
-            })
-          }
-          
-          return isValid
-        })
-        
-        console.log(`✅ Valid GeoJSON features: ${validFeatures.length} / ${r.geojson.features.length}`)
-        
-        // Replace with valid features only
-        r.geojson.features = validFeatures
-        hasGeoJsonData = validFeatures.length > 0
-      }
+    const padLat = Math.max(0.1, (regionBounds.north - regionBounds.south) * 0.2)
+    const padLng = Math.max(0.1, (regionBounds.east - regionBounds.west) * 0.2)
 
-      // ✅ Validate temperature data
-      if (hasTemperatureData) {
-        const validTempData = r.temperature_data.filter((point: any) => {
-          const isValid = (
-            isFinite(point.latitude) && 
-            isFinite(point.longitude) && 
-            isFinite(point.value ?? point.spi ?? 0)
-          )
-          
-          if (!isValid) {
-            console.warn('❌ Invalid temperature point filtered out:', point)
-          }
-          
-          return isValid
-        })
-        
-        console.log(`✅ Valid temperature data: ${validTempData.length} / ${r.temperature_data.length}`)
-        r.temperature_data = validTempData
-        hasTemperatureData = validTempData.length > 0
+    return {
+      map_url: '',
+      bounds: {
+        north: regionBounds.north + padLat,
+        south: regionBounds.south - padLat,
+        east: regionBounds.east + padLng,
+        west: regionBounds.west - padLng
+      },
+      center: {
+        lat: (regionBounds.north + regionBounds.south) / 2,
+        lng: (regionBounds.east + regionBounds.west) / 2
+      },
+      zoom: 8,
+      azureData: {
+        kind: r.kind,
+        geojson: {
+          type: 'FeatureCollection',
+          features: regions.map(p => ({
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
+            properties: {
+              value: p.value,
+              variable: variable,
+              unit: variableInfo.unit,
+              severity: p.severity,
+              rank: p.rank,
+              analysis_type: analysisType
+            }
+          }))
+        },
+        temperature_data: regions.map(p => ({
+          latitude: p.latitude,
+          longitude: p.longitude,
+          value: p.value,
+          variable: variable,
+          unit: variableInfo.unit,
+          location: p.location
+        })),
+        extreme_regions: regions,
+        variable_info: variableInfo,
+        analysis_type: analysisType,
+        data_type: 'extreme_regions',
+        raw_response: r
       }
+    }
+  }
 
-      console.log('📊 Data availability (after validation):', {
-        hasGeoTiffUrl,
-        hasStaticUrl,
-        hasOverlayUrl,
-        hasGeoJsonData,
-        hasTemperatureData
-      })
-      
-      let imageUrl = null
-      let mapData: MapData | undefined
-      let cleanContent = r?.content || ''
-      let hasRegionSummary = false
-
-      // Extract regions analysis (drought, temperature extremes, etc.)
-      let extremeRegions = 
-        r?.analysis_data?.result?.regions ||
-        r?.regions ||
-        r?.analysis_data?.result?.significant_drought_regions ||
-        r?.analysis_data?.result?.significant_regions ||
-        null
-
-      console.log('🔍 Extreme regions detection:', {
-        found: extremeRegions,
-        isArray: Array.isArray(extremeRegions),
-        length: extremeRegions?.length
-      })
+  // Map for raster, tile, static image and point responses
+  function buildArtifactMapData(
+    r: Exclude<CopilotResponse, TextResponse | ExtremeRegionsResponse>,
+    regions: ExtremeRegion[],
+    variableInfo: VariableInfo,
+    analysisType: string,
+    places: Place[]
+  ): MapData {
+    // Backend bounds first, then the extent of the data points
+    const mapBounds =
+      r.bounds ||
+      boundsOfPoints((r.geojson?.features || []).map(f => ({
+        latitude: f.geometry.coordinates[1],
+        longitude: f.geometry.coordinates[0]
+      }))) ||
+      boundsOfPoints(r.temperature_data) ||
+      null
+    // The camera opens on the places named in the question, else on the data
+    const placeBounds = placesBounds(places)
+    const baseBounds = placeBounds || mapBounds || CONUS_BOUNDS
+    console.log('📊 Map bounds source:', placeBounds ? 'places in query' : mapBounds ? 'response data' : 'default', baseBounds)
 
-      // If content is structured, blank it before prepend
-      const contentIsObject = typeof r?.content === 'object' && r?.content !== null
-      if (contentIsObject) cleanContent = ''
-      
-      // ✅ CRITICAL FIX: Strip URLs from content to prevent display
-      if (typeof cleanContent === 'string') {
-        // Remove analysis completed line
-        cleanContent = cleanContent.replace(/^Analysis completed:.*$/i, '').trim()
-        
-        // ✅ NEW: Remove all URLs (static_url, overlay_url, etc.) from content
-        cleanContent = cleanContent.replace(/https?:\/\/[^\s]+/g, '').trim()
-        
-        // ✅ NEW: Remove Azure blob storage URLs specifically
-        cleanContent = cleanContent.replace(/https:\/\/[^.\s]+\.blob\.core\.windows\.net\/[^\s]+/g, '').trim()
-        
-        // ✅ NEW: Clean up any leftover whitespace or empty lines
-        cleanContent = cleanContent.replace(/\n\s*\n/g, '\n').trim()
+    const latPadding = Math.abs(baseBounds.north - baseBounds.south) * 0.1
+    const lngPadding = Math.abs(baseBounds.east - baseBounds.west) * 0.1
+    const paddedBounds = {
+      north: baseBounds.north + latPadding,
+      south: baseBounds.south - latPadding,
+      east: baseBounds.east + lngPadding,
+      west: baseBounds.west - lngPadding
+    }
+
+    const mapCenter = r.map_config?.center
+    const center = mapCenter ? { lat: mapCenter[1], lng: mapCenter[0] } : {
+      lat: (paddedBounds.north + paddedBounds.south) / 2,
+      lng: (paddedBounds.east + paddedBounds.west) / 2
+    }
+
+    return {
+      map_url: r.overlay_url || r.static_url || '',
+      bounds: paddedBounds,
+      center: center,
+      zoom: r.map_config?.zoom || 7,
+      azureData: {
+        kind: r.kind,
+        static_url: r.static_url,
+        overlay_url: r.overlay_url,
+        geotiff_url: r.geotiff_url,
+        temperature_data: r.temperature_data,
+        geojson: r.geojson,
+        bounds: mapBounds,  // Original bounds without padding
+        map_config: r.map_config,
+        extreme_regions: regions.length > 0 ? regions : undefined,
+        use_tiles: r.use_tiles,
+        tile_config: r.tile_config,
+        frames: r.frames,
+        colormap: r.colormap,
+        variable_info: variableInfo,
+        analysis_type: analysisType,
+        data_type: 'unified_backend',
+        raw_response: r
       }
+    }
+  }
 
-      // Get analysis info from backend
-      const analysisType = r?.analysis_data?.result?.analysis_type || 
-                          r?.analysis_type || 
-                          'extreme temperature regions'
-      const variable = r?.analysis_data?.result?.variable || 
-                      r?.variable || 
-                      r?.temperature_data?.[0]?.variable || 
-                      r?.geojson?.features?.[0]?.properties?.variable || 
-                      'temperature'
-
-      console.log('📊 Analysis metadata:', { analysisType, variable })
-
-      // Process and display extreme regions
-      if (Array.isArray(extremeRegions) && extremeRegions.length > 0) {
-        console.log('✅ Processing extreme regions:', extremeRegions)
-        
-        // Validate and normalize regions data
-        const validRegions = extremeRegions
-          .filter(p => {
-            const isValid = p && isFinite(p.latitude) && isFinite(p.longitude) && 
-                           (isFinite(p.value) || isFinite(p.spi_value))
-            if (!isValid) {
-              console.log('🔍 Invalid region filtered:', p)
-            }
-            return isValid
-          })
-          .map((p, idx) => {
-            const value = isFinite(p.value) ? p.value : p.spi_value
-            return {
-              latitude: p.latitude,
-              longitude: p.longitude,
-              value: value,
-              rank: p.rank ?? (idx + 1),
-              severity: p.severity || getSeverityLabel(analysisType, value),
-              location: p.location || `${p.latitude.toFixed(2)}, ${p.longitude.toFixed(2)}`
-            }
-          })
-
-        console.log('📋 Valid regions after processing:', validRegions.length)
-
-        if (validRegions.length > 0) {
-          // Create formatted summary
-          const listText = validRegions
-            .map((p: any) => 
-              `${p.rank}. Lat ${p.latitude.toFixed(3)}, Lon ${p.longitude.toFixed(3)}, ${variable} ${p.value.toFixed(3)} (${p.severity})`
-            )
-            .join('\n')
-          
-          const summaryHeader = `Top ${validRegions.length} ${analysisType.replace('_', ' ')} locations:\n${listText}\n\n`
-          cleanContent = summaryHeader + (typeof cleanContent === 'string' ? cleanContent : '')
-          hasRegionSummary = true
-
-          // Precompute bounds for map
-          const lats = validRegions.map((p: any) => p.latitude)
-          const lngs = validRegions.map((p: any) => p.longitude)
-          const regionBounds = {
-            north: Math.max(...lats),
-            south: Math.min(...lats),
-            east: Math.max(...lngs),
-            west: Math.min(...lngs)
-          }
-
-          console.log('🗺️ Region bounds calculated:', regionBounds)
-
-          // Create mapData for regions visualization if no other map artifacts
-          const hasMapArtifacts = hasStaticUrl || hasOverlayUrl || hasGeoTiffUrl
-          
-          if (!hasMapArtifacts) {
-            console.log('📍 Creating standalone region map...')
-            
-            const padLat = Math.max(0.1, (regionBounds.north - regionBounds.south) * 0.2)
-            const padLng = Math.max(0.1, (regionBounds.east - regionBounds.west) * 0.2)
-            const paddedBounds = {
-              north: regionBounds.north + padLat,
-              south: regionBounds.south - padLat,
-              east: regionBounds.east + padLng,
-              west: regionBounds.west - padLng
-            }
+  // Turn a validated backend response into an assistant chat message
+  function buildAssistantMessage(r: CopilotResponse, places: Place[]): Message {
+    const analysisType = r.analysis_type || 'extreme temperature regions'
+    const variable = r.variable || 'temperature'
+    const variableInfo: VariableInfo = r.variable_info || {
+      name: variable,
+      unit: getVariableUnit(variable),
+      displayName: getDisplayName(variable)
+    }
+    console.log('📊 Response kind:', r.kind, { analysisType, variable })
 
-            const tempData = validRegions.map((p: any) => ({
-              latitude: p.latitude,
-              longitude: p.longitude,
-              value: p.value,
-              originalValue: p.value,
-              variable: variable,
-              unit: getVariableUnit(variable),
-              location: p.location
-            }))
-
-            const geojson = {
-              type: 'FeatureCollection',
-              features: validRegions.map((p: any) => ({
-                type: 'Feature',
-                geometry: { type: 'Point', coordinates: [p.longitude, p.latitude] },
-                properties: {
-                  value: p.value,
-                  variable: variable,
-                  unit: getVariableUnit(variable),
-                  severity: p.severity,
-                  rank: p.rank,
-                  analysis_type: analysisType
-                }
-              }))
-            }
+    let cleanContent = cleanResponseText(r.content)
+    let hasRegionSummary = false
 
-            mapData = {
-              map_url: '',
-              bounds: paddedBounds,
-              center: {
-                lat: (regionBounds.north + regionBounds.south) / 2,
-                lng: (regionBounds.east + regionBounds.west) / 2
-              },
-              zoom: 8,
-              azureData: {
-                geojson,
-                temperature_data: tempData,
-                extreme_regions: validRegions,
-                variable_info: {
-                  name: variable,
-                  unit: getVariableUnit(variable),
-                  displayName: getDisplayName(variable)
-                },
-                analysis_type: analysisType,
-                data_type: 'extreme_regions',
-                raw_response: r
-              }
-            }
+    const regions = (r.extreme_regions || []).map(p => ({
+      ...p,
+      severity: p.severity || getSeverityLabel(analysisType, p.value)
+    }))
 
-            console.log('🏗️ Created standalone mapData for regions')
-          } else {
-            // Attach regions to existing map artifacts
-            console.log('🔗 Attaching regions to existing map artifacts')
-            ;(r as any).__extreme_regions = validRegions
-            ;(r as any).__region_bounds = regionBounds
-          }
-        }
-      }
+    if (regions.length > 0) {
+      const listText = regions
+        .map(p => `${p.rank}. Lat ${p.latitude.toFixed(3)}, Lon ${p.longitude.toFixed(3)}, ${variable} ${p.value.toFixed(3)} (${p.severity})`)
+        .join('\n')
+      cleanContent = `Top ${regions.length} ${analysisType.replace('_', ' ')} locations:\n${listText}\n\n${cleanContent}`
+      hasRegionSummary = true
+    }
 
-      // Build mapData if map artifacts exist OR if we have regions
-      if (hasStaticUrl || hasOverlayUrl || hasGeoJsonData || hasTemperatureData || hasGeoTiffUrl || mapData) {
-        if (!mapData) {
-          console.log('✅ Building mapData from backend artifacts')
-          
-          // Better bounds calculation to handle NaN values
-          let mapBounds = null
-          let mapCenter = r.map_config?.center
-          
-          // Try to get bounds from backend first
-          if (r.bounds && isFinite(r.bounds.north) && isFinite(r.bounds.south) && 
-              isFinite(r.bounds.east) && isFinite(r.bounds.west)) {
-            mapBounds = r.bounds
-            console.log('📊 Using backend bounds:', mapBounds)
-          } 
-          // Calculate bounds from geojson if available and valid
-          else if (hasGeoJsonData) {
-            const features = r.geojson.features
-            const validCoords = features
-              .map((f: any) => ({
-                lat: f.geometry.coordinates[1],
-                lng: f.geometry.coordinates[0]
-              }))
-              .filter((coord: any) => isFinite(coord.lat) && isFinite(coord.lng))
-            
-            if (validCoords.length > 0) {
-              const lats = validCoords.map((c: any) => c.lat)
-              const lngs = validCoords.map((c: any) => c.lng)
-              mapBounds = {
-                north: Math.max(...lats), 
-                south: Math.min(...lats),
-                east: Math.max(...lngs), 
-                west: Math.min(...lngs)
-              }
-              console.log('📊 Calculated bounds from GeoJSON:', mapBounds)
-            } else {
-              console.error('❌ All GeoJSON coordinates are invalid (NaN)')
-            }
-          }
-          // Calculate bounds from temperature data
-          else if (hasTemperatureData) {
-            const validTempData = r.temperature_data.filter((p: any) => 
-              isFinite(p.latitude) && isFinite(p.longitude)
-            )
-            
-            if (validTempData.length > 0) {
-              const lats = validTempData.map((p: any) => p.latitude)
-              const lngs = validTempData.map((p: any) => p.longitude)
-              mapBounds = {
-                north: Math.max(...lats), 
-                south: Math.min(...lats),
-                east: Math.max(...lngs), 
-                west: Math.min(...lngs)
-              }
-              console.log('📊 Calculated bounds from temperature data:', mapBounds)
-            }
-          }
-          
-          // Fallback to query-based bounds if all else fails
-          if (!mapBounds) {
-            mapBounds = getMapBounds(currentQuery)
-            console.log('📊 Using query-based fallback bounds:', mapBounds)
-          }
-          
-          // Calculate center from bounds
-          if (!mapCenter && mapBounds) {
-            mapCenter = [
-              (mapBounds.west + mapBounds.east) / 2, 
-              (mapBounds.north + mapBounds.south) / 2
-            ]
-            console.log('📊 Calculated center:', mapCenter)
-          }
-          
-          // Add padding to bounds
-          const latPadding = mapBounds ? Math.abs(mapBounds.north - mapBounds.south) * 0.1 : 1
-          const lngPadding = mapBounds ? Math.abs(mapBounds.east - mapBounds.west) * 0.1 : 1
-          const paddedBounds = mapBounds ? {
-            north: mapBounds.north + latPadding, 
-            south: mapBounds.south - latPadding,
-            east: mapBounds.east + lngPadding, 
-            west: mapBounds.west - lngPadding
-          } : getMapBounds(currentQuery)
-          
-          const center = mapCenter ? { lat: mapCenter[1], lng: mapCenter[0] } : {
-            lat: (paddedBounds.north + paddedBounds.south) / 2,
-            lng: (paddedBounds.east + paddedBounds.west) / 2
-          }
-          
-          console.log('🗺️ Final map configuration:', {
-            originalBounds: mapBounds,
-            paddedBounds: paddedBounds,
-            center: center,
-            zoom: r.map_config?.zoom || 7,
-            geotiffUrl: r.geotiff_url
-          })
-          
-          mapData = {
-            map_url: r.overlay_url || r.static_url || '',
-            bounds: paddedBounds,
-            center: center,
-            zoom: r.map_config?.zoom || 7,
-            azureData: {
-              static_url: r.static_url,
-              overlay_url: r.overlay_url,
-              geotiff_url: r.geotiff_url,  // ✅ Direct access from root level
-              temperature_data: r.temperature_data || [],
-              geojson: r.geojson,
-              bounds: mapBounds,  // Original bounds without padding
-              map_config: r.map_config,
-              extreme_regions: (r as any).__extreme_regions || undefined,
-              // ✅ CRITICAL: Pass through tile configuration
-              use_tiles: r.use_tiles,
-              tile_config: r.tile_config,
-              variable_info: {
-                name: variable,
-                unit: getVariableUnit(variable),
-                displayName: getDisplayName(variable)
-              },
-              analysis_type: analysisType,
-              data_type: 'unified_backend',
-              raw_response: r  // Pass entire raw response
-            }
-          }
-          
-          console.log('🏗️ Created mapData with tile info:', {
-            use_tiles: mapData.azureData?.use_tiles,
-            tile_config: mapData.azureData?.tile_config,
-            geotiff_url: mapData.azureData?.geotiff_url,
-            static_url: mapData.azureData?.static_url,
-            overlay_url: mapData.azureData?.overlay_url
-          })
-        }
-        
+    let mapData: MapData | undefined
+    let imageUrl: string | undefined
+
+    switch (r.kind) {
+      case 'text':
+        // Legacy fallback: the only artifact may be a URL inside the text
+        imageUrl = r.content.match(/https?:\/\/[^\s]+/)?.[0]
+        break
+      case 'extreme_regions':
+        mapData = buildRegionMapData(r, regions, variable, variableInfo, analysisType)
+        break
+      case 'tiles':
+      case 'geotiff':
+      case 'static_image':
+      case 'points':
+        mapData = buildArtifactMapData(r, regions, variableInfo, analysisType, places)
         imageUrl = r.static_url
-        
-        // Don't append extra notes if we have a region summary
-        if (!hasRegionSummary && hasTemperatureData) {
-          const note = `Interactive map ready with ${r.temperature_data.length} data points.`
-          // ✅ FIXED: Only add note if cleanContent doesn't already contain URLs
-          if (!cleanContent.includes('Interactive map ready')) {
-            cleanContent = cleanContent ? `${cleanContent}\n${note}` : note
-          }
-        }
-      } else {
-        // Legacy fallback
-        console.log('❌ Processing as legacy response')
-        imageUrl = r?.content?.match(/https?:\/\/[^\s]+/)?.[0] || null
-        if (typeof cleanContent === 'string') {
-          cleanContent = cleanContent.replace(/https?:\/\/[^\s]+/g, '').trim()
-        }
-      }
+        break
+    }
 
-      const assistantMsg: Message = {
-        id: String(Date.now() + 1),
-        role: 'assistant',        // ✅ FINAL CLEANUP: Ensure no URLs in final text
-        text: (cleanContent || 'Analysis completed.').replace(/https?:\/\/[^\s]+/g, '').trim() || 'Analysis completed.',
-        imageUrl: imageUrl,
-        mapData: mapData
-      }
+    // Don't append extra notes if we have a region summary
+    if (mapData && !hasRegionSummary && r.temperature_data.length > 0 && !cleanContent.includes('Interactive map ready')) {
+      const note = `Interactive map ready with ${r.temperature_data.length} data points.`
+      cleanContent = cleanContent ? `${cleanContent}\n${note}` : note
+    }
+
+    return {
+      id: String(Date.now() + 1),
+      role: 'assistant',
+      text: cleanContent.replace(/https?:\/\/[^\s]+/g, '').trim() || 'Analysis completed.',
+      imageUrl: imageUrl,
+      mapData: mapData
+    }
+  }
+
+  // Replace a step with the same id, or append a new one
+  function upsertStep(steps: AgentStep[], step: AgentStep): AgentStep[] {
+    const previous = steps.map(s => s.status === 'running' && s.id !== step.id ? { ...s, status: 'done' as const } : s)
+    return previous.some(s => s.id === step.id)
+      ? previous.map(s => s.id === step.id ? step : s)
+      : [...previous, step]
+  }
+
+  // Close out any steps still marked running once the stream ends
+  function finishSteps(steps: AgentStep[] | undefined, status: AgentStep['status']): AgentStep[] | undefined {
+    return steps?.map(s => s.status === 'running' ? { ...s, status } : s)
+  }
+
+  // A streamed artifact that shows the same map keeps the previous mapData, so
+  // AzureMapView doesn't rebuild the map and decode the GeoTIFF again
+  function keepMapData(previous: MapData | undefined, next: MapData | undefined): MapData | undefined {
+    const key = (mapData?: MapData) => {
+      const a = mapData?.azureData
+      return JSON.stringify([
+        a?.kind, a?.geotiff_url, a?.overlay_url, a?.static_url, a?.tile_config?.tile_url, a?.tile_config?.date,
+        a?.frames?.map(f => f.geotiff_url ?? f.tile_url), a?.geojson?.features.length, a?.extreme_regions?.length,
+        a?.temperature_data?.length, a?.bounds, a?.variable_info, a?.colormap, mapData?.bounds
+      ])
+    }
+    return previous && next && key(previous) === key(next) ? previous : next
+  }
+
+  // Places named in the question: autocomplete picks, unambiguous names, then
+  // the user's answers to earlier "Which ...?" prompts. Stops at the first name
+  // that still needs a choice.
+  function resolveQueryPlaces(text: string, chosen: Record<string, Place | null>): { places: Place[]; pending: PlaceMatch | null } {
+    const picked = pickedPlaces.filter(p => text.includes(p.label))
+    if (!gazetteer) return { places: picked, pending: null }
+    const places = [...picked]
+    const rest = picked.reduce((remaining, p) => remaining.replace(p.label, ' '), text)
+    for (const match of gazetteer.resolve(rest)) {
+      const choice = match.text in chosen ? chosen[match.text] : match.needsChoice ? undefined : match.candidates[0]
+      if (choice === undefined) return { places, pending: match }
+      if (choice && !places.some(p => p.id === choice.id)) places.push(choice)
+    }
+    return { places, pending: null }
+  }
+
+  async function handleSubmit(e?: React.FormEvent, chosen: Record<string, Place | null> = {}) {
+    e?.preventDefault()
+    if (!query.trim() || activeThread.readOnly) return
+
+    const { places, pending } = resolveQueryPlaces(query, chosen)
+    if (pending) {
+      setPlaceQuestion({ match: pending, chosen })
+      return
+    }
+    setPlaceQuestion(null)
+    setPickedPlaces([])
+
+    const region = pendingRegion
+    const userMsg: Message = {
+      id: String(Date.now()),
+      role: 'user',
+      text: query,
+      ...(region ? { region } : {}),
+      ...(places.length > 0 ? { places } : {})
+    }
+    const assistantId = String(Date.now() + 1)
+    const placeholder: Message = { id: assistantId, role: 'assistant', text: '', steps: [], streaming: true }
+    const thread = activeThread
+    updateThread(thread.id, t => ({ ...autoNameThread(t, query), messages: [...t.messages, userMsg, placeholder] }))
+    const currentQuery = query
+    setQuery('')
+    setPendingRegion(null)
+    setError(null)
+    setLoading(true)
+
+    // Patch the in-progress assistant message as stream events arrive
+    const updateAssistant = (patch: (m: Message) => Message) => {
+      setThreadMessages(thread.id, (prev) => prev.map(m => m.id === assistantId ? patch(m) : m))
+    }
 
-      setMessages((prev) => [...prev, assistantMsg])
-      setDebug((r?.debug ?? r) || null)
+    const signal = requestManagerRef.current.begin()
+
+    try {
+      console.log('Sending request to backend with query:', currentQuery, 'thread:', thread.threadId || '(new)')
+      const resp = await streamMultiAgentFunction(buildThreadRequest(thread, currentQuery, region, places), {
+        onToken: (text) => updateAssistant(m => ({ ...m, text: (m.text || '') + text })),
+        onStep: (step) => updateAssistant(m => ({ ...m, steps: upsertStep(m.steps || [], step) })),
+        onArtifact: (partial) => updateAssistant(m => ({ ...m, mapData: keepMapData(m.mapData, buildAssistantMessage(partial, places).mapData) }))
+      }, {
+        signal,
+        onAttempt: (current, max) => updateAssistant(m => ({ ...m, text: '', steps: [], attempt: { current, max } }))
+      })
+      const r = resp.response
+      updateThread(thread.id, t => applyServerIds(t, r))
+
+      const assistantMsg = buildAssistantMessage(r, places)
+      updateAssistant(m => ({
+        ...assistantMsg,
+        id: assistantId,
+        mapData: keepMapData(m.mapData, assistantMsg.mapData),
+        steps: finishSteps(m.steps, 'done'),
+        attempt: m.attempt
+      }))
+      setDebug((r.debug ?? r) || null)
       
     } catch (err: any) {
       console.error('Query failed:', err)
+      if (isCancellation(err, signal)) {
+        updateAssistant(m => ({
+          ...m,
+          text: m.text ? `${m.text}\n\n⏹ Stopped.` : '⏹ Request stopped.',
+          steps: finishSteps(m.steps, 'error'),
+          streaming: false
+        }))
+        return
+      }
+      if (err instanceof RequestTimeoutError) {
+        setError(err.message)
+        updateAssistant(m => ({
+          id: assistantId,
+          role: 'assistant',
+          text: `${err.message}. The backend may still be busy; try again or narrow the query.`,
+          steps: finishSteps(m.steps, 'error'),
+          attempt: m.attempt
+        }))
+        return
+      }
+      if (err instanceof ResponseValidationError) {
+        setError('The backend returned a response that cannot be displayed')
+        updateAssistant(m => ({
+          id: assistantId,
+          role: 'assistant',
+          text: `The backend response could not be displayed:\n${err.issues.map(issue => `• ${issue}`).join('\n')}`,
+          steps: finishSteps(m.steps, 'error')
+        }))
+        return
+      }
       console.error('Error details:', {
         message: err?.message,
         status: err?.status,
@@ -636,20 +770,32 @@ export default function Chat() {
         response: err?.response
       })
       setError(`Connection failed: ${err?.message || 'Unknown error'}`)
-      setMessages((prev) => [...prev, { 
-        id: String(Date.now()), 
-        role: 'assistant', 
-        text: `Request failed: ${err?.message || 'Backend connection error'}` 
-      }])
+      updateAssistant(m => ({
+        id: assistantId,
+        role: 'assistant',
+        text: `Request failed: ${err?.message || 'Backend connection error'}`,
+        steps: finishSteps(m.steps, 'error'),
+        attempt: m.attempt
+      }))
     } finally {
+      requestManagerRef.current.end(signal)
       setLoading(false)
     }
   }
 
   return (
     <div className="h-screen w-screen flex flex-col bg-gray-50">
-      <div className="flex-1 flex justify-center items-start pt-8">
-        <div className="w-full max-w-6xl bg-white shadow-lg rounded-xl overflow-hidden mx-4">
+      <div className="flex-1 flex justify-center items-start pt-8 gap-4 px-4">
+        <SessionSidebar
+          threads={threads}
+          activeThreadId={activeThread.id}
+          onOpen={handleSwitchThread}
+          onRename={handleRenameThread}
+          onDelete={handleDeleteThread}
+          onNew={handleNewConversation}
+          onImport={handleImport}
+        />
+        <div className="w-full max-w-6xl bg-white shadow-lg rounded-xl overflow-hidden">
           {/* Header */}
           <div className="px-6 py-4 border-b">
             <div className="flex items-center gap-3">
@@ -669,6 +815,22 @@ export default function Chat() {
                 >
                   🔥 Debug
                 </button>
+
+                {messages.length > 0 && (
+                  <select
+                    value=""
+                    disabled={exporting}
+                    onChange={(e) => handleExport(e.target.value as ExportFormat)}
+                    className="px-2 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition"
+                    title="Export this conversation"
+                  >
+                    <option value="" disabled>{exporting ? 'Exporting...' : '⬇ Export'}</option>
+                    <option value="bundle">JSON bundle</option>
+                    <option value="bundle-inline">JSON bundle + data files</option>
+                    <option value="markdown">Markdown transcript</option>
+                    <option value="html">HTML transcript</option>
+                  </select>
+                )}
                 
                 {messages.length > 0 && (
                   <button
@@ -683,7 +845,11 @@ export default function Chat() {
                 {userId && (
                   <div className="text-xs text-gray-400 flex flex-col items-end">
                     <div>User: {userId.substring(0, 8)}...</div>
-                    {messages.length > 0 && (
+                    {activeThread.threadId ? (
+                      <div className="text-blue-600" title={activeThread.threadId}>
+                        💬 Thread {activeThread.threadId.substring(0, 8)}...
+                      </div>
+                    ) : messages.length > 0 && (
                       <div className="text-blue-600">
                         💬 Active Session
                       </div>
@@ -713,7 +879,36 @@ export default function Chat() {
             {messages.map((m) => (
               <div key={m.id} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
                 <div className={`max-w-[85%] ${m.role === 'user' ? 'bg-indigo-600 text-white rounded-xl rounded-tr-none' : 'bg-white text-gray-900 rounded-xl rounded-tl-none shadow'} p-4`}>
-                  {m.text && <div className="whitespace-pre-wrap">{m.text}</div>}
+                  {/* Agent steps reported while streaming */}
+                  {m.steps && m.steps.length > 0 && (
+                    <ul className="mb-2 space-y-0.5 text-xs text-gray-500">
+                      {m.steps.map(step => (
+                        <li key={step.id}>
+                          {step.status === 'running' ? '⏳' : step.status === 'done' ? '✓' : '✗'} {step.label}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {m.text && (
+                    <div className="whitespace-pre-wrap">
+                      {m.text}
+                      {m.streaming && <span className="animate-pulse">▍</span>}
+                    </div>
+                  )}
+                  {m.region && (
+                    <div className={`mt-1 text-xs ${m.role === 'user' ? 'text-indigo-100' : 'text-gray-500'}`}>📐 {regionLabel(m.region)}</div>
+                  )}
+                  {m.places && m.places.length > 0 && (
+                    <div className={`mt-1 text-xs ${m.role === 'user' ? 'text-indigo-100' : 'text-gray-500'}`}>📍 {m.places.map(p => p.label).join(' · ')}</div>
+                  )}
+                  {m.attempt && m.attempt.current > 1 && (
+                    <div className="mt-1 text-xs text-amber-600">
+                      🔁 {m.streaming ? `Retrying — attempt ${m.attempt.current} of ${m.attempt.max}` : `${m.attempt.current} of ${m.attempt.max} attempts used`}
+                    </div>
+                  )}
+                  {m.streaming && !m.text && (!m.steps || m.steps.length === 0) && (
+                    <div className="text-sm text-gray-400 animate-pulse">Thinking...</div>
+                  )}
                   
                   {/* Show Azure Maps when we have any valid map data */}
                   {m.mapData && AZURE_MAPS_KEY && (
@@ -726,6 +921,13 @@ export default function Chat() {
                           subscriptionKey={AZURE_MAPS_KEY}
                           clientId={AZURE_MAPS_CLIENT_ID}
                           height="500px"
+                          onCameraChange={(camera) => { cameraStatesRef.current[m.id] = camera }}
+                          enablePointQuery={!activeThread.readOnly}
+                          threadId={activeThread.threadId}
+                          scaleLock={scaleLock}
+                          onScaleLockChange={setScaleLock}
+                          region={pendingRegion}
+                          onRegionDrawn={activeThread.readOnly ? undefined : setPendingRegion}
                         />
                         <div className="mt-2 text-sm text-gray-500 flex justify-between items-center">
                           <span className="text-xs">
@@ -737,7 +939,16 @@ export default function Chat() {
                                 : 'Interactive map'
                             }
                           </span>
-                          <span className="text-xs text-green-600">Live Data</span>
+                          <span className="flex items-center gap-3">
+                            <button
+                              onClick={() => toggleCompare(m.id)}
+                              className={`text-xs ${compareIds.includes(m.id) ? 'text-indigo-700 font-semibold' : 'text-indigo-600 hover:text-indigo-800'}`}
+                              title="Select this map for side-by-side comparison"
+                            >
+                              {compareIds.includes(m.id) ? `✓ Compare ${compareIds.indexOf(m.id) === 0 ? 'A' : 'B'}` : '⇆ Compare'}
+                            </button>
+                            <span className="text-xs text-green-600">Live Data</span>
+                          </span>
                         </div>
                       </div>
 
@@ -763,7 +974,7 @@ export default function Chat() {
                                     <button onClick={() => resetTransform()} className="bg-white/90 hover:bg-white text-gray-700 border border-gray-300 rounded px-2 py-1 text-sm shadow-sm">⌂</button>
                                   </div>
                                   <TransformComponent wrapperStyle={{ width: '100%', height: '100%' }} contentStyle={{ width: '100%', height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
-                                    <img src={m.mapData.azureData.static_url} alt="Static map with legend" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} draggable={false} />
+                                    <img src={m.mapData?.azureData?.static_url} alt="Static map with legend" style={{ maxWidth: '100%', maxHeight: '100%', objectFit: 'contain' }} draggable={false} />
                                   </TransformComponent>
                                 </>
                               )}
@@ -817,27 +1028,118 @@ export default function Chat() {
             <div ref={endRef} />
           </div>
 
+          {compareItems.length > 0 && (
+            <div className="px-4 py-2 border-t bg-indigo-50 text-xs text-indigo-800 flex items-center gap-3">
+              <span className="flex-1 truncate">
+                ⇆ {compareItems.length === 1
+                  ? `"${compareItems[0].label}" selected — pick a second map to compare`
+                  : `"${compareItems[0].label}" vs "${compareItems[1].label}"`}
+              </span>
+              {compareItems.length === 2 && AZURE_MAPS_KEY && (
+                <button
+                  onClick={() => setComparing(true)}
+                  className="px-3 py-1 bg-indigo-600 text-white rounded-md hover:bg-indigo-700"
+                >
+                  Open comparison
+                </button>
+              )}
+              <button onClick={() => setCompareIds([])} className="text-indigo-600 hover:text-indigo-800">
+                Clear
+              </button>
+            </div>
+          )}
+
           {/* Input area */}
+          {activeThread.readOnly ? (
+            <div className="p-4 border-t bg-amber-50 text-sm text-amber-800">
+              📦 Imported conversation (read-only). Maps are rendered from the bundled data; start a new chat to ask follow-up questions.
+              {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+            </div>
+          ) : (
           <form onSubmit={handleSubmit} className="p-4 border-t bg-white">
+            {(pendingRegion || savedRegions.length > 0) && (
+              <div className="mb-2 flex items-center gap-2 text-xs">
+                {pendingRegion ? (
+                  <span className="flex items-center gap-2 px-2 py-1 bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-md">
+                    📐 {regionLabel(pendingRegion)} — sent with the next question
+                    {!pendingRegion.name && (
+                      <button type="button" onClick={() => handleSaveRegion(pendingRegion)} className="text-indigo-600 hover:underline">
+                        Save…
+                      </button>
+                    )}
+                    <button type="button" onClick={() => setPendingRegion(null)} className="text-indigo-400 hover:text-indigo-700" aria-label="Detach region">
+                      ✕
+                    </button>
+                  </span>
+                ) : (
+                  <span className="text-gray-400">Draw a region on a map with 📐, or reuse one:</span>
+                )}
+                {savedRegions.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => setPendingRegion(savedRegions.find(r => r.id === e.target.value) ?? null)}
+                    className="px-2 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md"
+                    title="Scope the next question to a saved region"
+                  >
+                    <option value="" disabled>Saved regions</option>
+                    {savedRegions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                  </select>
+                )}
+                {pendingRegion && savedRegions.some(r => r.id === pendingRegion.id) && (
+                  <button type="button" onClick={() => handleDeleteRegion(pendingRegion)} className="text-gray-400 hover:text-red-600" title="Delete this saved region">
+                    🗑
+                  </button>
+                )}
+              </div>
+            )}
             <div className="flex gap-2">
-              <input
-                type="text"
-                value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                placeholder="Ask about hydrology data... (e.g., 'show temperature in Michigan')"
-                className="flex-1 px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
-                disabled={loading}
-              />
-              <button
-                type="submit"
-                disabled={loading}
-                className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
-              >
-                {loading ? 'Processing...' : 'Send'}
-              </button>
+              <div className="relative flex-1">
+                <input
+                  type="text"
+                  value={query}
+                  onChange={(e) => handleQueryChange(e.target.value)}
+                  onKeyDown={handleQueryKeyDown}
+                  onFocus={() => setSuggestionsHidden(false)}
+                  onBlur={() => setSuggestionsHidden(true)}
+                  placeholder="Ask about hydrology data... (e.g., 'show temperature in Michigan')"
+                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  disabled={loading}
+                  aria-autocomplete="list"
+                />
+                {placeQuestion ? (
+                  <PlacePicker
+                    title={placeQuestion.match.fuzzy ? `Did you mean…? ("${placeQuestion.match.text}")` : `Which ${placeQuestion.match.text}?`}
+                    places={placeQuestion.match.candidates}
+                    activeIndex={activeSuggestion}
+                    onPick={choosePlace}
+                    dismissLabel={placeQuestion.match.fuzzy ? 'Not a place — send as typed' : 'Send without choosing a place'}
+                    onDismiss={() => choosePlace(null)}
+                  />
+                ) : suggestions && (
+                  <PlacePicker places={suggestions.places} activeIndex={activeSuggestion} onPick={pickSuggestion} />
+                )}
+              </div>
+              {loading ? (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="px-6 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+                  title="Stop the running query"
+                >
+                  ⏹ Stop
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Send
+                </button>
+              )}
             </div>
             {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
           </form>
+          )}
 
           {debug && (
             <details className="p-4 border-t bg-gray-50">
@@ -847,6 +1149,14 @@ export default function Chat() {
           )}
         </div>
       </div>
+      {comparing && compareItems.length === 2 && (
+        <ComparisonView
+          left={compareItems[0]}
+          right={compareItems[1]}
+          subscriptionKey={AZURE_MAPS_KEY}
+          onClose={() => setComparing(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import React, { useState } from 'react'
+import { COLORMAPS, findColormap, type ColormapDefinition } from '../utils/colormaps'
+import { gradientCss, paletteColors } from '../utils/colorScale'
+
+interface ColormapPickerProps {
+  /** Palette currently drawn */
+  value: string | null
+  /** True when the user has not overridden the result's own colormap */
+  automatic: boolean
+  onChange: (name: string | null) => void
+}
+
+function Swatch({ colormap }: { colormap: ColormapDefinition }) {
+  return (
+    <span
+      className="inline-block w-16 h-2.5 rounded-sm border border-gray-300"
+      style={{ background: gradientCss(paletteColors(colormap.colors)) }}
+    />
+  )
+}
+
+/**
+ * Palette dropdown; "Auto" returns to the backend or per-variable default
+ */
+export default function ColormapPicker({ value, automatic, onChange }: ColormapPickerProps) {
+  const [open, setOpen] = useState(false)
+  const current = value ? findColormap(value) : null
+  const reversed = !!value?.toLowerCase().endsWith('_r')
+
+  const choose = (name: string | null) => {
+    onChange(name)
+    setOpen(false)
+  }
+
+  return (
+    <div className="relative text-xs">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-2 px-2 py-1 bg-white/95 border border-gray-200 rounded-md shadow hover:bg-gray-50"
+        title="Change the color palette"
+      >
+        🎨 {current ? <Swatch colormap={current} /> : 'Palette'}
+        <span className="text-gray-500">{automatic ? 'Auto' : current?.label}</span>
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full right-0 mb-1 w-56 max-h-72 overflow-auto bg-white border border-gray-200 rounded-md shadow-lg py-1">
+          <button
+            onClick={() => choose(null)}
+            className={`w-full text-left px-3 py-1 hover:bg-gray-100 ${automatic ? 'font-semibold text-indigo-700' : ''}`}
+          >
+            Auto (result default)
+          </button>
+          {(['sequential', 'diverging'] as const).map(kind => (
+            <div key={kind}>
+              <div className="px-3 pt-1.5 text-[10px] uppercase tracking-wide text-gray-400">{kind}</div>
+              {COLORMAPS.filter(c => c.kind === kind).map(c => {
+                const name = reversed ? `${c.name}_r` : c.name
+                return (
+                  <button
+                    key={c.name}
+                    onClick={() => choose(name)}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-1 hover:bg-gray-100 ${!automatic && current?.name === name ? 'font-semibold text-indigo-700' : ''}`}
+                  >
+                    <span>{c.label}</span>
+                    <Swatch colormap={findColormap(name)!} />
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+          {current && (
+            <label className="flex items-center gap-2 px-3 py-1.5 border-t mt-1 text-gray-600">
+              <input
+                type="checkbox"
+                checked={reversed}
+                onChange={(e) => choose(e.target.checked ? `${current.name}_r` : current.name.replace(/_r$/, ''))}
+              />
+              Reverse
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,456 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import * as atlas from 'azure-maps-control'
+import 'azure-maps-control/dist/atlas.min.css'
+import MapLegend from './MapLegend'
+import { colorizeGeoTiff, decodeGeoTiff, getVariableDisplayName, pixelReader, releaseImageUrl, type DecodedGeoTiff, type PixelReadout } from '../utils/geotiffLoader'
+import { buildColorScale, colorExpression, defaultStretch, stretchRange, valueRange, type ColorScale, type ValueRange } from '../utils/colorScale'
+import type { Bounds, MapData, PointFeature } from '../types'
+
+export interface ComparisonItem {
+  id: string
+  label: string
+  mapData: MapData
+}
+
+interface ComparisonViewProps {
+  left: ComparisonItem
+  right: ComparisonItem
+  subscriptionKey: string
+  onClose: () => void
+}
+
+type Side = 'left' | 'right'
+type CompareMode = 'swipe' | 'side-by-side'
+
+interface Readout {
+  position: [number, number]
+  left: number | null
+  right: number | null
+}
+
+const SIDES: Side[] = ['left', 'right']
+const OTHER: Record<Side, Side> = { left: 'right', right: 'left' }
+const US_BOUNDS: Bounds = { north: 49.0, south: 25.0, east: -66.0, west: -125.0 }
+// How close the cursor must be to a point feature to read its value
+const POINT_HOVER_PX = 12
+
+function variableOf(mapData: MapData): string {
+  return mapData.azureData?.variable_info?.name || mapData.azureData?.tile_config?.variable || 'value'
+}
+
+function unitOf(mapData: MapData): string {
+  return mapData.azureData?.variable_info?.unit || ''
+}
+
+function pointFeatures(mapData: MapData): PointFeature[] {
+  return mapData.azureData?.geojson?.features || []
+}
+
+function boundsOf(mapData: MapData): Bounds | undefined {
+  return mapData.azureData?.bounds || mapData.bounds
+}
+
+function unionBounds(a?: Bounds, b?: Bounds): Bounds {
+  if (!a || !b) return a || b || US_BOUNDS
+  return {
+    north: Math.max(a.north, b.north),
+    south: Math.min(a.south, b.south),
+    east: Math.max(a.east, b.east),
+    west: Math.min(a.west, b.west)
+  }
+}
+
+function unionRange(a: ValueRange | null, b: ValueRange | null): ValueRange | null {
+  if (!a || !b) return a || b
+  return { min: Math.min(a.min, b.min), max: Math.max(a.max, b.max) }
+}
+
+function cornersOf(b: Bounds): [number, number][] {
+  return [[b.west, b.north], [b.east, b.north], [b.east, b.south], [b.west, b.south]]
+}
+
+function scaleOf(mapData: MapData, range: ValueRange | null): ColorScale {
+  return buildColorScale(variableOf(mapData), mapData.azureData?.colormap, range)
+}
+
+function addBelowLabels(map: any, layer: any) {
+  try {
+    map.layers.add(layer, 'labels')
+  } catch {
+    map.layers.add(layer)
+  }
+}
+
+function titleOf(mapData: MapData): string {
+  return mapData.azureData?.variable_info?.displayName || getVariableDisplayName(variableOf(mapData))
+}
+
+function nearestPointValue(map: any, features: PointFeature[], position: [number, number]): number | null {
+  if (features.length === 0) return null
+  const [cursor] = map.positionsToPixels([position])
+  const pixels = map.positionsToPixels(features.map(f => f.geometry.coordinates))
+  let best: number | null = null
+  let bestDistance = POINT_HOVER_PX
+  pixels.forEach((p: number[], i: number) => {
+    const distance = Math.hypot(p[0] - cursor[0], p[1] - cursor[1])
+    if (distance <= bestDistance) {
+      bestDistance = distance
+      best = features[i].properties.value ?? null
+    }
+  })
+  return best
+}
+
+function formatValue(value: number | null, unit: string): string {
+  if (value === null) return '—'
+  return `${Math.abs(value) >= 100 ? value.toFixed(1) : value.toFixed(2)}${unit ? ` ${unit}` : ''}`
+}
+
+/**
+ * Two map results in one workspace: side-by-side or swipe, with synchronized
+ * cameras, an optional shared color scale and a linked readout at the cursor
+ */
+export default function ComparisonView({ left, right, subscriptionKey, onClose }: ComparisonViewProps) {
+  const items: Record<Side, ComparisonItem> = { left, right }
+  const containerRefs = { left: useRef<HTMLDivElement>(null), right: useRef<HTMLDivElement>(null) }
+  const stageRef = useRef<HTMLDivElement>(null)
+  const mapsRef = useRef<Partial<Record<Side, any>>>({})
+  const imageLayersRef = useRef<Partial<Record<Side, any>>>({})
+  const bubbleLayersRef = useRef<Partial<Record<Side, any>>>({})
+  const cursorMarkersRef = useRef<Partial<Record<Side, any>>>({})
+  const rastersRef = useRef<Partial<Record<Side, DecodedGeoTiff>>>({})
+  // Pixel readout per raster, ready once proj4 is loaded for projected ones
+  const readersRef = useRef<Partial<Record<Side, (position: [number, number]) => PixelReadout | null>>>({})
+  // Object URL each image layer shows, and a per-side counter to drop stale colorizations
+  const imageUrlsRef = useRef<Partial<Record<Side, string>>>({})
+  const colorizeSeqRef = useRef<Record<Side, number>>({ left: 0, right: 0 })
+  // The map under the pointer drives the other one
+  const driverRef = useRef<Side>('left')
+
+  const [mode, setMode] = useState<CompareMode>('side-by-side')
+  const [swipe, setSwipe] = useState(50)
+  const [rasters, setRasters] = useState<Partial<Record<Side, DecodedGeoTiff>>>({})
+  const [loadErrors, setLoadErrors] = useState<Partial<Record<Side, string>>>({})
+  const [sharedScale, setSharedScale] = useState(() => variableOf(left.mapData) === variableOf(right.mapData))
+  const [readout, setReadout] = useState<Readout | null>(null)
+
+  // Value range of each side's own data (null for server-rendered tiles/PNGs)
+  const ownRanges = useMemo(() => {
+    const rangeOf = (side: Side): ValueRange | null => {
+      const values = rasters[side]?.values
+      if (values) return stretchRange(values, defaultStretch(variableOf(items[side].mapData)))
+      const features = pointFeatures(items[side].mapData)
+      return features.length > 0 ? valueRange(features.map(f => f.properties.value ?? NaN)) : null
+    }
+    return { left: rangeOf('left'), right: rangeOf('right') }
+  }, [rasters, left, right])
+
+  const sharedRange = unionRange(ownRanges.left, ownRanges.right)
+  const rangeFor = (side: Side) => sharedScale ? sharedRange : ownRanges[side]
+
+  const updateReadout = (position: [number, number], from: Side) => {
+    const valueAt = (side: Side): number | null => {
+      if (rastersRef.current[side]) return readersRef.current[side]?.(position)?.value ?? null
+      const map = mapsRef.current[side]
+      return map ? nearestPointValue(map, pointFeatures(items[side].mapData), position) : null
+    }
+    setReadout({ position, left: valueAt('left'), right: valueAt('right') })
+
+    const marker = cursorMarkersRef.current[OTHER[from]]
+    marker?.setOptions({ position, visible: true })
+    cursorMarkersRef.current[from]?.setOptions({ visible: false })
+  }
+  const updateReadoutRef = useRef(updateReadout)
+  updateReadoutRef.current = updateReadout
+
+  const clearReadout = () => {
+    setReadout(null)
+    SIDES.forEach(side => cursorMarkersRef.current[side]?.setOptions({ visible: false }))
+  }
+
+  // ===== MAPS =====
+  useEffect(() => {
+    const bounds = unionBounds(boundsOf(left.mapData), boundsOf(right.mapData))
+    const camera = left.mapData.camera
+
+    SIDES.forEach(side => {
+      const container = containerRefs[side].current
+      if (!container) return
+      const mapData = items[side].mapData
+      const azure = mapData.azureData
+
+      const map: any = new (atlas as any).Map(container, {
+        center: camera?.center || [(bounds.east + bounds.west) / 2, (bounds.north + bounds.south) / 2],
+        zoom: camera?.zoom || 5,
+        style: 'satellite_road_labels',
+        interactive: true,
+        showLogo: false,
+        showFeedbackLink: false,
+        authOptions: {
+          authType: (atlas as any).AuthenticationType.subscriptionKey,
+          subscriptionKey
+        }
+      })
+      mapsRef.current[side] = map
+
+      map.events.add('ready', () => {
+        console.log(`🪞 Comparison map ready (${side})`)
+        if (!camera) map.setCamera({ bounds: [bounds.west, bounds.south, bounds.east, bounds.north], padding: 40, type: 'jump' })
+
+        map.events.add('move', () => {
+          const other = mapsRef.current[OTHER[side]]
+          if (driverRef.current !== side || !other) return
+          const cam = map.getCamera()
+          other.setCamera({ center: cam.center, zoom: cam.zoom, bearing: cam.bearing, pitch: cam.pitch, type: 'jump' })
+        })
+        map.events.add('mousemove', (e: any) => {
+          if (Array.isArray(e.position)) updateReadoutRef.current(e.position, side)
+        })
+        map.events.add('mouseleave', clearReadout)
+
+        const cursor = new (atlas as any).HtmlMarker({
+          htmlContent: '<div style="width:12px;height:12px;border-radius:50%;border:2px solid #fff;background:#4f46e5;box-shadow:0 0 3px rgba(0,0,0,.6)"></div>',
+          anchor: 'center',
+          visible: false
+        })
+        map.markers.add(cursor)
+        cursorMarkersRef.current[side] = cursor
+
+        if (azure?.kind === 'tiles' && azure.tile_config?.tile_url) {
+          addBelowLabels(map, new (atlas as any).layer.TileLayer({ tileUrl: azure.tile_config.tile_url, tileSize: 256, opacity: 0.75 }))
+        } else if (azure?.kind === 'geotiff' && azure.geotiff_url) {
+          decodeGeoTiff(azure.geotiff_url).then(raster => {
+            if (mapsRef.current[side] !== map) return
+            if (!raster) {
+              setLoadErrors(prev => ({ ...prev, [side]: 'The GeoTIFF could not be loaded.' }))
+              return
+            }
+            // The image layer is added once the recolor effect has painted the raster
+            rastersRef.current[side] = raster
+            setRasters(prev => ({ ...prev, [side]: raster }))
+            return pixelReader(raster).then(read => {
+              if (mapsRef.current[side] === map) readersRef.current[side] = read
+            })
+          }).catch(err => console.warn('⚠️ Comparison readout unavailable:', err))
+        } else if ((azure?.overlay_url || azure?.static_url) && boundsOf(mapData)) {
+          addBelowLabels(map, new (atlas as any).layer.ImageLayer({
+            url: azure.overlay_url || azure.static_url,
+            coordinates: cornersOf(boundsOf(mapData)!),
+            opacity: 0.75
+          }))
+        }
+
+        const features = pointFeatures(mapData)
+        if (features.length > 0) {
+          const source = new (atlas as any).source.DataSource()
+          map.sources.add(source)
+          source.add(azure!.geojson)
+          const layer = new (atlas as any).layer.BubbleLayer(source, `compare-points-${side}`, {
+            radius: 6,
+            color: '#dc2626',
+            strokeColor: '#ffffff',
+            strokeWidth: 1
+          })
+          map.layers.add(layer)
+          bubbleLayersRef.current[side] = layer
+        }
+      })
+    })
+
+    return () => {
+      SIDES.forEach(side => {
+        mapsRef.current[side]?.dispose()
+        releaseImageUrl(imageUrlsRef.current[side])
+      })
+      mapsRef.current = {}
+      imageUrlsRef.current = {}
+      imageLayersRef.current = {}
+      bubbleLayersRef.current = {}
+      cursorMarkersRef.current = {}
+      rastersRef.current = {}
+      readersRef.current = {}
+    }
+  }, [left.id, right.id, subscriptionKey])
+
+  // Re-color both sides whenever the scale changes; the decoded rasters are reused
+  useEffect(() => {
+    SIDES.forEach(side => {
+      const range = rangeFor(side)
+      const scale = scaleOf(items[side].mapData, range)
+      const raster = rasters[side]
+      const map = mapsRef.current[side]
+      if (raster && map) {
+        const seq = ++colorizeSeqRef.current[side]
+        const mapData = items[side].mapData
+        colorizeGeoTiff(raster, { variable: variableOf(mapData), colormap: mapData.azureData?.colormap, range }).then(({ imageUrl }) => {
+          if (seq !== colorizeSeqRef.current[side] || mapsRef.current[side] !== map) {
+            releaseImageUrl(imageUrl)
+            return
+          }
+          const layer = imageLayersRef.current[side]
+          if (layer) {
+            layer.setOptions({ url: imageUrl })
+          } else {
+            imageLayersRef.current[side] = new (atlas as any).layer.ImageLayer({ url: imageUrl, coordinates: raster.corners, opacity: 0.75 })
+            addBelowLabels(map, imageLayersRef.current[side])
+          }
+          releaseImageUrl(imageUrlsRef.current[side])
+          imageUrlsRef.current[side] = imageUrl
+        }).catch(error => {
+          setLoadErrors(prev => ({ ...prev, [side]: `The GeoTIFF could not be colorized: ${error?.message}` }))
+        })
+      }
+      if (range && bubbleLayersRef.current[side]) {
+        bubbleLayersRef.current[side].setOptions({ color: colorExpression(scale) })
+      }
+    })
+  }, [rasters, sharedScale, sharedRange?.min, sharedRange?.max])
+
+  // Containers change size with the layout
+  useEffect(() => {
+    SIDES.forEach(side => mapsRef.current[side]?.resize())
+  }, [mode])
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    window.addEventListener('keydown', onKey)
+    return () => window.removeEventListener('keydown', onKey)
+  }, [onClose])
+
+  const startSwipeDrag = (e: React.PointerEvent) => {
+    e.preventDefault()
+    const stage = stageRef.current
+    if (!stage) return
+    const onMove = (ev: PointerEvent) => {
+      const rect = stage.getBoundingClientRect()
+      setSwipe(Math.min(100, Math.max(0, ((ev.clientX - rect.left) / rect.width) * 100)))
+    }
+    const onUp = () => {
+      window.removeEventListener('pointermove', onMove)
+      window.removeEventListener('pointerup', onUp)
+    }
+    window.addEventListener('pointermove', onMove)
+    window.addEventListener('pointerup', onUp)
+  }
+
+  const mapStyle = (side: Side): React.CSSProperties => {
+    if (mode === 'side-by-side') return { position: 'relative', height: '100%' }
+    return {
+      position: 'absolute',
+      inset: 0,
+      clipPath: side === 'right' ? `inset(0 0 0 ${swipe}%)` : undefined
+    }
+  }
+
+  const legend = (side: Side, title: string) => {
+    const range = rangeFor(side)
+    const mapData = items[side].mapData
+    return range && (
+      <MapLegend
+        title={title}
+        unit={unitOf(mapData)}
+        scale={scaleOf(mapData, range)}
+        showNoData={!!rasters[side]}
+        className="shadow-none"
+      />
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center" onClick={onClose}>
+      <div className="bg-white rounded-xl shadow-xl w-[95vw] h-[90vh] flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-4 py-3 border-b flex items-center gap-3">
+          <div className="text-base font-semibold">Compare results</div>
+          <div className="flex rounded-md border overflow-hidden text-xs">
+            {(['side-by-side', 'swipe'] as CompareMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-1 ${mode === m ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'}`}
+              >
+                {m === 'swipe' ? '↔ Swipe' : '◫ Side by side'}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 text-xs text-gray-700" title="Stretch both results over the combined value range">
+            <input type="checkbox" checked={sharedScale} onChange={(e) => setSharedScale(e.target.checked)} />
+            Shared color scale
+          </label>
+          <div className="flex-1" />
+          <button onClick={onClose} className="px-2 py-1 text-sm text-gray-500 hover:text-gray-800" title="Close (Esc)">✕</button>
+        </div>
+
+        {/* Maps */}
+        <div
+          ref={stageRef}
+          className={`flex-1 relative ${mode === 'side-by-side' ? 'grid grid-cols-2 gap-1' : ''}`}
+        >
+          {SIDES.map(side => (
+            <div
+              key={side}
+              style={mapStyle(side)}
+              onPointerEnter={() => { driverRef.current = side }}
+              onPointerDown={() => { driverRef.current = side }}
+            >
+              <div ref={containerRefs[side]} style={{ position: 'absolute', inset: 0 }} />
+              <div className={`absolute top-2 ${side === 'left' ? 'left-2' : 'right-2'} max-w-[45%] px-2 py-1 text-xs bg-white/90 rounded shadow truncate pointer-events-none`}>
+                {side === 'left' ? 'A' : 'B'} · {items[side].label}
+              </div>
+              {loadErrors[side] && (
+                <div className="absolute bottom-2 left-2 px-2 py-1 text-xs bg-red-50 border border-red-200 text-red-700 rounded">
+                  ⚠️ {loadErrors[side]}
+                </div>
+              )}
+            </div>
+          ))}
+          {mode === 'swipe' && (
+            <div
+              className="absolute top-0 bottom-0 z-10 w-1 bg-white shadow cursor-ew-resize"
+              style={{ left: `calc(${swipe}% - 2px)` }}
+              onPointerDown={startSwipeDrag}
+            >
+              <div className="absolute top-1/2 -translate-y-1/2 -left-3 w-7 h-7 rounded-full bg-white shadow flex items-center justify-center text-xs text-gray-600">
+                ⇔
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Readout and scales */}
+        <div className="px-4 py-2 border-t flex items-center gap-6 text-xs">
+          <div className="min-w-[260px]">
+            {readout ? (
+              <>
+                <div className="text-gray-500">
+                  {readout.position[1].toFixed(3)}°, {readout.position[0].toFixed(3)}°
+                </div>
+                <div>
+                  <span className="font-semibold">A</span> {formatValue(readout.left, unitOf(left.mapData))}
+                  <span className="mx-2 text-gray-300">|</span>
+                  <span className="font-semibold">B</span> {formatValue(readout.right, unitOf(right.mapData))}
+                  {readout.left !== null && readout.right !== null && (
+                    <span className="ml-2 text-gray-500">Δ {formatValue(readout.right - readout.left, unitOf(left.mapData))}</span>
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="text-gray-400">Hover either map to read both values</div>
+            )}
+          </div>
+          {sharedScale ? (
+            legend('left', `${titleOf(left.mapData)} · shared A + B`)
+          ) : (
+            <>
+              {legend('left', `A · ${titleOf(left.mapData)}`)}
+              {legend('right', `B · ${titleOf(right.mapData)}`)}
+            </>
+          )}
+          {SIDES.some(side => !ownRanges[side]) && (
+            <div className="text-gray-400">Tile and image results keep their server-rendered colors</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
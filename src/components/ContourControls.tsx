@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react'
+import { niceTicks, formatTick } from './TimeSeriesChart'
+import { MAX_CONTOUR_LEVELS, type ContourMode } from '../utils/contours'
+import type { ValueRange } from '../utils/colorScale'
+
+export interface ContourSettings {
+  mode: ContourMode
+  interval: number
+  base: number
+}
+
+interface ContourControlsProps {
+  settings: ContourSettings | null
+  /** Value range of the raster, used to suggest an interval */
+  range: ValueRange | null
+  busy: boolean
+  /** Number of contour features currently drawn */
+  featureCount: number
+  onChange: (settings: ContourSettings | null) => void
+  onExport: () => void
+}
+
+const MODES: Array<[ContourMode, string]> = [
+  ['lines', 'Lines'],
+  ['bands', 'Filled bands'],
+  ['both', 'Both']
+]
+
+// About ten levels across the range, on a round interval
+function suggestedInterval(range: ValueRange | null): number {
+  if (!range) return 1
+  const ticks = niceTicks(range.min, range.max, 10)
+  return ticks.length > 1 ? Number((ticks[1] - ticks[0]).toPrecision(6)) : 1
+}
+
+/**
+ * Contour popover: isolines or filled isobands at a chosen interval, and
+ * their GeoJSON export
+ */
+export default function ContourControls({ settings, range, busy, featureCount, onChange, onExport }: ContourControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [mode, setMode] = useState<ContourMode>(settings?.mode ?? 'lines')
+  const [intervalText, setIntervalText] = useState(String(settings?.interval ?? suggestedInterval(range)))
+  const [baseText, setBaseText] = useState(String(settings?.base ?? 0))
+
+  // Suggest an interval for each new raster until contours are drawn
+  useEffect(() => {
+    if (!settings) setIntervalText(formatTick(suggestedInterval(range)))
+  }, [range?.min, range?.max])
+
+  const step = parseFloat(intervalText)
+  const origin = parseFloat(baseText)
+  const levelCount = range && step > 0 ? Math.floor((range.max - range.min) / step) + 1 : 0
+  const valid = step > 0 && isFinite(origin) && levelCount <= MAX_CONTOUR_LEVELS
+
+  const apply = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (valid) onChange({ mode, interval: step, base: origin })
+  }
+
+  return (
+    <div className="relative text-xs">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`flex items-center gap-1 px-2 py-1 bg-white/95 border rounded-md shadow hover:bg-gray-50 ${settings ? 'border-indigo-300 text-indigo-700' : 'border-gray-200 text-gray-700'}`}
+        title="Draw contour lines or filled bands from the raster"
+      >
+        〰 Contours{busy ? '…' : ''}
+      </button>
+
+      {open && (
+        <form onSubmit={apply} className="absolute top-full left-0 mt-1 w-56 bg-white border border-gray-200 rounded-md shadow-lg p-2 space-y-2 text-gray-700">
+          <div className="space-y-0.5">
+            {MODES.map(([value, label]) => (
+              <label key={value} className="flex items-center gap-2">
+                <input type="radio" checked={mode === value} onChange={() => setMode(value)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <label className="flex items-center gap-1">
+              Every
+              <input value={intervalText} onChange={(e) => setIntervalText(e.target.value)} className="w-14 px-1 py-0.5 border rounded" aria-label="Contour interval" />
+            </label>
+            <label className="flex items-center gap-1">
+              from
+              <input value={baseText} onChange={(e) => setBaseText(e.target.value)} className="w-12 px-1 py-0.5 border rounded" aria-label="Contour base" />
+            </label>
+          </div>
+          {levelCount > MAX_CONTOUR_LEVELS && (
+            <div className="text-red-600">That interval gives {levelCount} levels; use at most {MAX_CONTOUR_LEVELS}.</div>
+          )}
+          <div className="flex gap-1">
+            <button type="submit" disabled={!valid} className="flex-1 px-2 py-1 bg-indigo-600 text-white rounded disabled:opacity-50">
+              {settings ? 'Update' : 'Draw'}
+            </button>
+            {settings && (
+              <button type="button" onClick={() => onChange(null)} className="px-2 py-1 border rounded hover:bg-gray-50">
+                Clear
+              </button>
+            )}
+          </div>
+          {settings && featureCount > 0 && (
+            <button type="button" onClick={onExport} className="w-full px-2 py-1 border rounded hover:bg-gray-50">
+              ⬇ GeoJSON ({featureCount} features)
+            </button>
+          )}
+        </form>
+      )}
+    </div>
+  )
+}
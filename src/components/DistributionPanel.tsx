@@ -0,0 +1,206 @@
+import React, { useRef, useState } from 'react'
+import { formatTick, niceTicks } from './TimeSeriesChart'
+import { rgbCss, type ValueRange } from '../utils/colorScale'
+import { classRange, shareInRange, type Distribution } from '../utils/distribution'
+import { HIGHLIGHT_COLOR } from '../utils/valueHighlight'
+
+interface DistributionPanelProps {
+  open: boolean
+  onToggle: () => void
+  /** Null while computing, or when there are no values */
+  distribution: Distribution | null
+  variableLabel: string
+  unit?: string
+  /** Raster cells or points */
+  source: 'raster' | 'points'
+  /** Bar color of a value, matching the map's scale */
+  colorOf: (value: number) => string | null
+  brush: ValueRange | null
+  onBrush: (range: ValueRange | null) => void
+}
+
+const WIDTH = 640
+const HEIGHT = 170
+const MARGIN = { top: 10, right: 16, bottom: 24, left: 40 }
+
+function formatValue(value: number): string {
+  return isFinite(value) ? formatTick(Number(value.toPrecision(4))) : '–'
+}
+
+function formatShare(share: number): string {
+  const percent = share * 100
+  return `${percent > 0 && percent < 0.1 ? '<0.1' : percent.toFixed(1)}%`
+}
+
+/**
+ * Collapsible histogram of the map's values with summary statistics and class
+ * shares; dragging across the histogram brushes a range to highlight on the map
+ */
+export default function DistributionPanel({ open, onToggle, distribution, variableLabel, unit, source, colorOf, brush, onBrush }: DistributionPanelProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  // Range being dragged, in values; committed on release
+  const [dragging, setDragging] = useState<{ from: number; to: number } | null>(null)
+
+  const plotW = WIDTH - MARGIN.left - MARGIN.right
+  const plotH = HEIGHT - MARGIN.top - MARGIN.bottom
+  // The x axis spans the bins, which pad a constant raster's single value
+  const bins = distribution?.bins ?? []
+  const domain = bins.length > 0 ? { min: bins[0].min, max: bins[bins.length - 1].max } : { min: 0, max: 1 }
+  const span = domain.max - domain.min
+  const x = (v: number) => MARGIN.left + (v - domain.min) / span * plotW
+  const maxShare = distribution ? Math.max(...distribution.bins.map(b => b.share)) : 0
+  const shareTicks = niceTicks(0, maxShare * 100, 4)
+  const top = Math.max(maxShare * 100, shareTicks[shareTicks.length - 1] ?? 0) || 1
+  const y = (percent: number) => MARGIN.top + (1 - percent / top) * plotH
+
+  // Pointer position as a value, clamped to the data range
+  const valueAt = (clientX: number): number => {
+    const svg = svgRef.current
+    if (!svg || !distribution) return 0
+    const box = svg.getBoundingClientRect()
+    const px = (clientX - box.left) / box.width * WIDTH
+    const { min, max } = distribution.range
+    return Math.min(max, Math.max(min, domain.min + (px - MARGIN.left) / plotW * span))
+  }
+
+  const endDrag = () => {
+    if (!dragging) return
+    const [from, to] = [Math.min(dragging.from, dragging.to), Math.max(dragging.from, dragging.to)]
+    setDragging(null)
+    // A click without a drag clears the brush
+    onBrush(to - from > span / 200 ? { min: from, max: to } : null)
+  }
+
+  const shown = dragging ? { min: Math.min(dragging.from, dragging.to), max: Math.max(dragging.from, dragging.to) } : brush
+  const what = source === 'raster' ? 'cells' : 'points'
+
+  return (
+    <div className="mt-2 border rounded-md bg-white">
+      <button onClick={onToggle} className="w-full flex items-center justify-between px-3 py-2 text-sm font-semibold hover:bg-gray-50">
+        <span>📊 {variableLabel} distribution{unit ? ` (${unit})` : ''}</span>
+        <span className="text-xs text-gray-500">{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3">
+          {!distribution ? (
+            <div className="text-xs text-gray-400 p-2">No values to summarize</div>
+          ) : (
+            <>
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto select-none cursor-crosshair"
+                role="img"
+                aria-label="Histogram"
+                onPointerDown={(e) => {
+                  e.currentTarget.setPointerCapture(e.pointerId)
+                  const v = valueAt(e.clientX)
+                  setDragging({ from: v, to: v })
+                }}
+                onPointerMove={(e) => dragging && setDragging({ ...dragging, to: valueAt(e.clientX) })}
+                onPointerUp={endDrag}
+                onPointerCancel={() => setDragging(null)}
+              >
+                {shareTicks.map(t => (
+                  <g key={`s${t}`}>
+                    <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(t)} y2={y(t)} stroke="#e5e7eb" />
+                    <text x={MARGIN.left - 6} y={y(t)} fontSize="10" fill="#6b7280" textAnchor="end" dominantBaseline="middle">{formatTick(t)}%</text>
+                  </g>
+                ))}
+                {niceTicks(domain.min, domain.max, 6).map(v => (
+                  <text key={`v${v}`} x={x(v)} y={HEIGHT - 8} fontSize="10" fill="#6b7280" textAnchor="middle">{formatTick(v)}</text>
+                ))}
+                {distribution.bins.map((bin, k) => {
+                  const inBrush = !shown || (bin.max > shown.min && bin.min < shown.max)
+                  return (
+                    <rect
+                      key={k}
+                      x={x(bin.min) + 0.5}
+                      width={Math.max(0, x(bin.max) - x(bin.min) - 1)}
+                      y={y(bin.share * 100)}
+                      height={MARGIN.top + plotH - y(bin.share * 100)}
+                      fill={colorOf((bin.min + bin.max) / 2) ?? '#9ca3af'}
+                      stroke="#6b7280"
+                      strokeWidth={0.5}
+                      opacity={inBrush ? 1 : 0.3}
+                    >
+                      <title>{`${formatValue(bin.min)} – ${formatValue(bin.max)}: ${formatShare(bin.share)} (${bin.count.toLocaleString()} ${what})`}</title>
+                    </rect>
+                  )
+                })}
+                {shown && (
+                  <rect
+                    x={x(shown.min)}
+                    width={Math.max(1, x(shown.max) - x(shown.min))}
+                    y={MARGIN.top}
+                    height={plotH}
+                    fill={HIGHLIGHT_COLOR}
+                    fillOpacity={0.12}
+                    stroke={HIGHLIGHT_COLOR}
+                    pointerEvents="none"
+                  />
+                )}
+              </svg>
+
+              <div className="flex items-center justify-between text-xs text-gray-600">
+                <span>
+                  {shown
+                    ? <>Selected {formatValue(shown.min)} – {formatValue(shown.max)}: ≈{formatShare(shareInRange(distribution, shown))} of {distribution.areaWeighted ? 'the area' : 'points'}</>
+                    : <>💡 Drag across the histogram to highlight those {what} on the map</>}
+                </span>
+                {brush && <button onClick={() => onBrush(null)} className="text-gray-500 hover:text-gray-800">Clear</button>}
+              </div>
+
+              <div className="mt-2 grid grid-cols-3 sm:grid-cols-6 gap-2 text-xs">
+                {([
+                  ['Mean', distribution.mean],
+                  ['Std', distribution.std],
+                  ['Min', distribution.range.min],
+                  ['Median', distribution.median],
+                  ['Max', distribution.range.max]
+                ] as Array<[string, number]>).map(([label, value]) => (
+                  <div key={label}>
+                    <div className="text-gray-400">{label}</div>
+                    <div className="font-mono">{formatValue(value)}</div>
+                  </div>
+                ))}
+                <div>
+                  <div className="text-gray-400">{source === 'raster' ? 'Cells' : 'Points'}</div>
+                  <div className="font-mono" title={distribution.missing > 0 ? `${distribution.missing.toLocaleString()} without a value` : undefined}>
+                    {distribution.count.toLocaleString()}
+                  </div>
+                </div>
+              </div>
+
+              {distribution.classes.length > 0 && (
+                <ul className="mt-3 space-y-0.5 text-xs">
+                  {distribution.classes.map(c => (
+                    <li key={c.label}>
+                      <button
+                        onClick={() => onBrush(classRange(c, distribution.range))}
+                        disabled={c.count === 0}
+                        className="w-full flex items-center gap-2 text-left hover:bg-gray-50 disabled:opacity-50 rounded"
+                        title="Highlight on the map"
+                      >
+                        <span className="inline-block w-3 h-3 rounded-sm border border-gray-300" style={{ background: rgbCss(c.color) }} />
+                        <span className="w-40 truncate">{c.label}</span>
+                        <span className="flex-1 h-2 bg-gray-100 rounded">
+                          <span className="block h-2 rounded" style={{ width: `${c.share * 100}%`, background: rgbCss(c.color) }} />
+                        </span>
+                        <span className="w-12 text-right font-mono">{formatShare(c.share)}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="mt-1 text-[11px] text-gray-400">
+                {distribution.areaWeighted ? 'Shares are of the area with data, weighting each cell by its ground area' : 'Shares are of the points with a value'}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import React from 'react'
+import { niceTicks, formatTick } from './TimeSeriesChart'
+import { gradientCss, rgbCss, type ColorScale } from '../utils/colorScale'
+
+interface MapLegendProps {
+  title: string
+  unit?: string
+  scale: ColorScale
+  /** Show the swatch for transparent NoData pixels (rasters and tiles) */
+  showNoData?: boolean
+  className?: string
+}
+
+// Checkerboard, the usual stand-in for "transparent"
+const NODATA_BACKGROUND = 'repeating-conic-gradient(#d1d5db 0% 25%, #ffffff 0% 50%) 0 0 / 8px 8px'
+
+/**
+ * Colorbar legend drawn from the scale a layer was colored with: a gradient
+ * with numeric ticks, or one swatch per class bin
+ */
+export default function MapLegend({ title, unit, scale, showNoData = false, className = '' }: MapLegendProps) {
+  const heading = `${title}${unit ? ` (${unit})` : ''}`
+  const range = scale.range
+  const ticks = range ? niceTicks(range.min, range.max, 4) : []
+  const span = range ? range.max - range.min || 1 : 1
+
+  return (
+    <div className={`bg-white/95 border border-gray-200 rounded-md shadow px-3 py-2 text-xs text-gray-700 ${className}`}>
+      <div className="font-semibold mb-1.5 text-gray-800">{heading}</div>
+
+      {scale.classes ? (
+        <ul className="space-y-0.5">
+          {scale.classes.map(c => (
+            <li key={c.label} className="flex items-center gap-2">
+              <span className="inline-block w-4 h-3 rounded-sm border border-gray-300" style={{ background: rgbCss(c.color) }} />
+              <span>{c.label}</span>
+            </li>
+          ))}
+        </ul>
+      ) : range && (
+        <div className="w-48">
+          <div className="h-3 rounded-sm border border-gray-300" style={{ background: gradientCss(scale.colors) }} />
+          <div className="relative h-4 mt-0.5">
+            {ticks.map(t => (
+              <span
+                key={t}
+                className="absolute -translate-x-1/2 text-[10px] text-gray-600"
+                style={{ left: `${((t - range.min) / span) * 100}%` }}
+              >
+                {formatTick(t)}
+              </span>
+            ))}
+          </div>
+          <div className="flex justify-between text-[10px] text-gray-400">
+            <span>min {formatTick(range.min)}</span>
+            <span>max {formatTick(range.max)}</span>
+          </div>
+        </div>
+      )}
+
+      {showNoData && (
+        <div className="flex items-center gap-2 mt-1.5">
+          <span className="inline-block w-4 h-3 rounded-sm border border-gray-300" style={{ background: NODATA_BACKGROUND }} />
+          <span>No data</span>
+        </div>
+      )}
+    </div>
+  )
+}
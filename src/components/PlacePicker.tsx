@@ -0,0 +1,62 @@
+import React from 'react'
+import type { Place, PlaceKind } from '../types'
+
+interface PlacePickerProps {
+  places: Place[]
+  /** Highlighted row, moved with the arrow keys */
+  activeIndex: number
+  onPick: (place: Place) => void
+  /** Heading, e.g. "Which Washington?" */
+  title?: string
+  /** Button below the list, e.g. "Send without a place" */
+  dismissLabel?: string
+  onDismiss?: () => void
+}
+
+const KIND_LABELS: Record<PlaceKind, string> = {
+  state: 'State',
+  county: 'County',
+  city: 'City',
+  huc2: 'HUC-2',
+  huc4: 'HUC-4'
+}
+
+/**
+ * List of gazetteer places shown above the query box, both as autocomplete
+ * and to choose between places sharing a name
+ */
+export default function PlacePicker({ places, activeIndex, onPick, title, dismissLabel, onDismiss }: PlacePickerProps) {
+  return (
+    <div className="absolute bottom-full left-0 mb-1 w-80 max-w-full bg-white border border-gray-200 rounded-md shadow-lg text-sm z-20" role="listbox">
+      {title && <div className="px-3 py-2 border-b text-gray-700 font-medium">{title}</div>}
+      {places.map((place, index) => (
+        <button
+          key={place.id}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the query box
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(place)}
+          className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left ${index === activeIndex ? 'bg-indigo-50 text-indigo-800' : 'text-gray-700 hover:bg-gray-50'}`}
+        >
+          <span className="truncate">{place.label}</span>
+          <span className="shrink-0 text-xs text-gray-400">
+            {KIND_LABELS[place.kind]}
+            {place.population ? ` · ${place.population.toLocaleString()}` : ''}
+          </span>
+        </button>
+      ))}
+      {dismissLabel && onDismiss && (
+        <button
+          type="button"
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={onDismiss}
+          className="w-full px-3 py-1.5 border-t text-left text-xs text-gray-500 hover:bg-gray-50"
+        >
+          {dismissLabel}
+        </button>
+      )}
+    </div>
+  )
+}
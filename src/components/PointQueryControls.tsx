@@ -0,0 +1,29 @@
+import React from 'react'
+
+interface PointQueryControlsProps {
+  active: boolean
+  onToggle: () => void
+}
+
+/**
+ * Toggle for requesting a point time series with each map click
+ */
+export default function PointQueryControls({ active, onToggle }: PointQueryControlsProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <button
+        onClick={onToggle}
+        className={`px-2 py-1 border rounded-md shadow ${active ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white/95 border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+        title="Click the map to chart the values of a point over time"
+        aria-pressed={active}
+      >
+        📈 Time series
+      </button>
+      {active && (
+        <span className="px-2 py-1 bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-md shadow">
+          Click a point · Esc to stop
+        </span>
+      )}
+    </div>
+  )
+}
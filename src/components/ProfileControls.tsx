@@ -0,0 +1,30 @@
+import React from 'react'
+
+interface ProfileControlsProps {
+  drawing: boolean
+  onDraw: () => void
+  onCancel: () => void
+}
+
+/**
+ * Button to draw the line of a cross-section profile
+ */
+export default function ProfileControls({ drawing, onDraw, onCancel }: ProfileControlsProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <button
+        onClick={drawing ? onCancel : onDraw}
+        className={`px-2 py-1 border rounded-md shadow ${drawing ? 'bg-teal-700 border-teal-700 text-white' : 'bg-white/95 border-gray-200 text-gray-700 hover:bg-gray-50'}`}
+        title="Draw a line to plot the values along it"
+        aria-pressed={drawing}
+      >
+        ⟋ Profile
+      </button>
+      {drawing && (
+        <span className="px-2 py-1 bg-teal-50 border border-teal-200 text-teal-800 rounded-md shadow">
+          Click vertices, double-click to finish · Esc to cancel
+        </span>
+      )}
+    </div>
+  )
+}
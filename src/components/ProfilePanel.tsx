@@ -0,0 +1,137 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { formatTick, niceTicks } from './TimeSeriesChart'
+import type { Profile, ProfileSample } from '../utils/profile'
+
+interface ProfilePanelProps {
+  profile: Profile | null
+  variableLabel: string
+  unit?: string
+  /** The sample under the pointer, or null when it leaves the chart */
+  onHover: (sample: ProfileSample | null) => void
+  onClear: () => void
+  onExport: () => void
+}
+
+const WIDTH = 640
+const HEIGHT = 200
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 48 }
+const LINE_COLOR = '#0f766e'
+
+function formatKm(km: number): string {
+  return km >= 100 ? `${Math.round(km)} km` : `${Number(km.toPrecision(3))} km`
+}
+
+/**
+ * Raster values along the drawn line against distance; hovering moves a
+ * marker along the line on the map
+ */
+export default function ProfilePanel({ profile, variableLabel, unit, onHover, onClear, onExport }: ProfilePanelProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const [hoveredSample, setHovered] = useState<ProfileSample | null>(null)
+
+  const layout = useMemo(() => {
+    if (!profile) return null
+    const values = profile.samples.flatMap(s => s.value === null ? [] : [s.value])
+    if (values.length === 0) return null
+    let vMin = Math.min(...values)
+    let vMax = Math.max(...values)
+    if (vMin === vMax) { vMin -= 1; vMax += 1 }
+    const length = profile.lengthKm || 1
+
+    const plotW = WIDTH - MARGIN.left - MARGIN.right
+    const plotH = HEIGHT - MARGIN.top - MARGIN.bottom
+    const x = (km: number) => MARGIN.left + km / length * plotW
+    const y = (v: number) => MARGIN.top + (1 - (v - vMin) / (vMax - vMin)) * plotH
+
+    // Break the line at NoData and outside the raster instead of bridging the gap
+    let d = ''
+    let penDown = false
+    profile.samples.forEach(s => {
+      if (s.value === null) { penDown = false; return }
+      d += `${penDown ? 'L' : 'M'}${x(s.distanceKm).toFixed(1)},${y(s.value).toFixed(1)}`
+      penDown = true
+    })
+    return { x, y, d, plotW, plotH, length, valueTicks: niceTicks(vMin, vMax), distanceTicks: niceTicks(0, length, 6) }
+  }, [profile])
+
+  if (!profile) return null
+  // A sample of a previous line is stale
+  const hovered = hoveredSample && profile.samples.includes(hoveredSample) ? hoveredSample : null
+
+  const hover = (clientX: number) => {
+    const svg = svgRef.current
+    if (!svg || !layout) return
+    const box = svg.getBoundingClientRect()
+    const km = ((clientX - box.left) / box.width * WIDTH - MARGIN.left) / layout.plotW * layout.length
+    // Nearest sample by distance (samples are in order)
+    let nearest = profile.samples[0]
+    for (const s of profile.samples) {
+      if (Math.abs(s.distanceKm - km) < Math.abs(nearest.distanceKm - km)) nearest = s
+    }
+    setHovered(nearest)
+    onHover(nearest)
+  }
+
+  const leave = () => {
+    setHovered(null)
+    onHover(null)
+  }
+
+  return (
+    <div className="mt-2 border rounded-md bg-white p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold">⟋ {variableLabel} profile{unit ? ` (${unit})` : ''} · {formatKm(profile.lengthKm)}</h4>
+        <div className="flex items-center gap-3">
+          <button onClick={onExport} className="text-xs text-indigo-600 hover:text-indigo-800">⬇ CSV</button>
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-gray-800">Clear</button>
+        </div>
+      </div>
+
+      {!layout ? (
+        <div className="text-xs text-gray-400 p-4">The line does not cross any cell with data</div>
+      ) : (
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Profile chart"
+          onMouseMove={(e) => hover(e.clientX)}
+          onMouseLeave={leave}
+        >
+          {layout.valueTicks.map(v => (
+            <g key={`v${v}`}>
+              <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={layout.y(v)} y2={layout.y(v)} stroke="#e5e7eb" />
+              <text x={MARGIN.left - 6} y={layout.y(v)} fontSize="10" fill="#6b7280" textAnchor="end" dominantBaseline="middle">
+                {formatTick(v)}
+              </text>
+            </g>
+          ))}
+          {layout.distanceTicks.map(km => (
+            <text key={`d${km}`} x={layout.x(km)} y={HEIGHT - 8} fontSize="10" fill="#6b7280" textAnchor="middle">
+              {formatTick(km)}
+            </text>
+          ))}
+          <text x={MARGIN.left - 6} y={HEIGHT - 8} fontSize="10" fill="#374151" textAnchor="end">km</text>
+          {/* Vertices of the drawn line */}
+          {profile.vertexKm.slice(1, -1).map((km, i) => (
+            <line key={`k${i}`} x1={layout.x(km)} x2={layout.x(km)} y1={MARGIN.top} y2={MARGIN.top + layout.plotH} stroke="#d1d5db" strokeDasharray="3 3" />
+          ))}
+          <path d={layout.d} fill="none" stroke={LINE_COLOR} strokeWidth={1.75} strokeLinejoin="round" />
+          {hovered && (
+            <g pointerEvents="none">
+              <line x1={layout.x(hovered.distanceKm)} x2={layout.x(hovered.distanceKm)} y1={MARGIN.top} y2={MARGIN.top + layout.plotH} stroke="#6b7280" />
+              {hovered.value !== null && <circle cx={layout.x(hovered.distanceKm)} cy={layout.y(hovered.value)} r={3.5} fill={LINE_COLOR} stroke="#ffffff" />}
+            </g>
+          )}
+        </svg>
+      )}
+
+      <div className="mt-1 text-xs text-gray-600 h-4">
+        {hovered
+          ? <span className="font-mono">{formatKm(hovered.distanceKm)} · {hovered.position[1].toFixed(3)}°, {hovered.position[0].toFixed(3)}° · {hovered.value === null ? 'no data' : `${formatTick(Number(hovered.value.toPrecision(4)))}${unit ? ` ${unit}` : ''}`}</span>
+          : <span className="text-gray-400">💡 Hover the chart to follow the line on the map</span>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react'
+import { formatTick } from './TimeSeriesChart'
+import type { DecodedGeoTiff } from '../utils/geotiffLoader'
+
+interface RasterMetadataPanelProps {
+  raster: DecodedGeoTiff
+  className?: string
+}
+
+// Short CRS label from a proj4 definition
+function crsLabel(projection: string | null): string {
+  if (!projection) return 'WGS84 (geographic)'
+  const proj = projection.match(/\+proj=(\w+)/)?.[1]
+  const names: Record<string, string> = {
+    aea: 'Albers Equal Area',
+    lcc: 'Lambert Conformal Conic',
+    merc: 'Mercator',
+    utm: 'UTM',
+    longlat: 'Geographic',
+    stere: 'Stereographic',
+    laea: 'Lambert Azimuthal Equal Area'
+  }
+  return proj ? names[proj] || proj : projection
+}
+
+/**
+ * Collapsible panel with what the GeoTIFF says about itself: bands, units,
+ * scale/offset, NoData, date and the raw GDAL metadata items
+ */
+export default function RasterMetadataPanel({ raster, className = '' }: RasterMetadataPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [showItems, setShowItems] = useState(false)
+  const { metadata } = raster
+  const itemKeys = Object.keys(metadata.items).sort()
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className={`px-2 py-1 text-xs bg-white/95 border border-gray-200 rounded-md shadow hover:bg-gray-50 text-gray-700 ${className}`}
+        title="Show the raster's metadata"
+      >
+        ℹ️ Raster info
+      </button>
+    )
+  }
+
+  return (
+    <div className={`w-64 max-h-72 overflow-auto bg-white/95 border border-gray-200 rounded-md shadow px-3 py-2 text-xs text-gray-700 ${className}`}>
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="font-semibold text-gray-800">Raster info</span>
+        <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-gray-700" aria-label="Close raster info">✕</button>
+      </div>
+
+      <dl className="grid grid-cols-[auto,1fr] gap-x-2 gap-y-0.5">
+        {metadata.date && (
+          <>
+            <dt className="text-gray-500">Date</dt>
+            <dd>{metadata.date}</dd>
+          </>
+        )}
+        <dt className="text-gray-500">Size</dt>
+        <dd>{raster.width} × {raster.height} px</dd>
+        <dt className="text-gray-500">CRS</dt>
+        <dd title={raster.projection || undefined}>{crsLabel(raster.projection)}</dd>
+        <dt className="text-gray-500">NoData</dt>
+        <dd>{metadata.noData !== null ? formatTick(metadata.noData) : 'not set'}</dd>
+      </dl>
+
+      <table className="w-full mt-2">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-normal">Band</th>
+            <th className="font-normal">Unit</th>
+            <th className="font-normal text-right">Scale / offset</th>
+          </tr>
+        </thead>
+        <tbody>
+          {metadata.bands.map((band, i) => (
+            <tr key={i} className={metadata.bands.length > 1 && i === raster.band ? 'font-semibold text-gray-900' : ''}>
+              <td>
+                {band.name || `Band ${i + 1}`}
+                {band.date && <span className="ml-1 font-normal text-gray-500">{band.date}</span>}
+              </td>
+              <td>{band.unit || '—'}</td>
+              <td className="text-right">
+                {band.scale === 1 && band.offset === 0 ? '—' : `×${formatTick(band.scale)} ${band.offset < 0 ? '−' : '+'} ${formatTick(Math.abs(band.offset))}`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {itemKeys.length > 0 && (
+        <div className="mt-2">
+          <button onClick={() => setShowItems(s => !s)} className="text-indigo-600 hover:underline">
+            {showItems ? '▾' : '▸'} GDAL metadata ({itemKeys.length})
+          </button>
+          {showItems && (
+            <dl className="mt-1 space-y-0.5 break-all">
+              {itemKeys.map(key => (
+                <div key={key}>
+                  <dt className="inline text-gray-500">{key}: </dt>
+                  <dd className="inline">{metadata.items[key]}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
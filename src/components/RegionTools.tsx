@@ -0,0 +1,50 @@
+import React from 'react'
+import type { RegionShape } from '../types'
+
+interface RegionToolsProps {
+  /** Shape being drawn, if any */
+  drawing: RegionShape | null
+  onDraw: (shape: RegionShape) => void
+  onCancel: () => void
+}
+
+const SHAPES: Array<[RegionShape, string, string]> = [
+  ['rectangle', '▭', 'Drag to draw a rectangle'],
+  ['polygon', '⬠', 'Click the vertices, double-click to finish'],
+  ['circle', '◯', 'Drag from the center to draw a circle']
+]
+
+const HINTS: Record<RegionShape, string> = {
+  rectangle: 'Drag a rectangle',
+  polygon: 'Click vertices, double-click to finish',
+  circle: 'Drag from the center outwards'
+}
+
+/**
+ * Buttons to draw the region the next question is scoped to
+ */
+export default function RegionTools({ drawing, onDraw, onCancel }: RegionToolsProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <div className="flex bg-white/95 border border-gray-200 rounded-md shadow overflow-hidden" title="Draw a region for the next question">
+        <span className="px-1.5 py-1 text-gray-500">📐</span>
+        {SHAPES.map(([shape, icon, title]) => (
+          <button
+            key={shape}
+            onClick={() => drawing === shape ? onCancel() : onDraw(shape)}
+            className={`px-2 py-1 border-l border-gray-200 ${drawing === shape ? 'bg-indigo-600 text-white' : 'text-gray-700 hover:bg-gray-50'}`}
+            title={title}
+            aria-pressed={drawing === shape}
+          >
+            {icon}
+          </button>
+        ))}
+      </div>
+      {drawing && (
+        <span className="px-2 py-1 bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-md shadow">
+          {HINTS[drawing]} · Esc to cancel
+        </span>
+      )}
+    </div>
+  )
+}
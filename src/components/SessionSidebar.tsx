@@ -0,0 +1,120 @@
+import React, { useMemo, useRef, useState } from 'react'
+import { getThreadVariable } from '../utils/threads'
+import type { ConversationThread } from '../types'
+
+interface SessionSidebarProps {
+  threads: ConversationThread[]
+  activeThreadId: string
+  onOpen: (id: string) => void
+  onRename: (thread: ConversationThread) => void
+  onDelete: (thread: ConversationThread) => void
+  onNew: () => void
+  onImport: (file: File) => void
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp)
+  const sameDay = date.toDateString() === new Date().toDateString()
+  return sameDay
+    ? date.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+export default function SessionSidebar({ threads, activeThreadId, onOpen, onRename, onDelete, onNew, onImport }: SessionSidebarProps) {
+  const [search, setSearch] = useState('')
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Most recent first; search matches title, variable and message text
+  const visibleThreads = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return [...threads]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .filter(t => {
+        if (!term) return true
+        const variable = getThreadVariable(t) || ''
+        return t.name.toLowerCase().includes(term) ||
+          variable.toLowerCase().includes(term) ||
+          t.messages.some(m => m.text?.toLowerCase().includes(term))
+      })
+  }, [threads, search])
+
+  return (
+    <aside className="w-64 shrink-0 bg-white shadow-lg rounded-xl overflow-hidden flex flex-col h-[calc(100vh-4rem)]">
+      <div className="p-3 border-b space-y-2">
+        <button
+          onClick={onNew}
+          className="w-full px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white rounded-md transition"
+        >
+          + New Chat
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md transition"
+          title="Open an exported conversation bundle (.json)"
+        >
+          📦 Import bundle
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) onImport(file)
+            e.target.value = ''
+          }}
+        />
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search conversations..."
+          className="w-full px-2 py-1 text-xs border rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        />
+      </div>
+
+      <ul className="flex-1 overflow-auto">
+        {visibleThreads.length === 0 && (
+          <li className="p-3 text-xs text-gray-400">No conversations found</li>
+        )}
+        {visibleThreads.map(t => {
+          const variable = getThreadVariable(t)
+          const isActive = t.id === activeThreadId
+          return (
+            <li
+              key={t.id}
+              className={`group px-3 py-2 border-b cursor-pointer ${isActive ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+              onClick={() => onOpen(t.id)}
+            >
+              <div className="flex items-start gap-1">
+                <div className={`flex-1 text-sm truncate ${isActive ? 'font-semibold text-indigo-700' : 'text-gray-800'}`} title={t.name}>
+                  {t.readOnly && <span title="Imported (read-only)">📦 </span>}
+                  {t.name}
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onRename(t) }}
+                  className="opacity-0 group-hover:opacity-100 text-xs text-gray-500 hover:text-gray-800"
+                  title="Rename"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onDelete(t) }}
+                  className="opacity-0 group-hover:opacity-100 text-xs text-gray-500 hover:text-red-600"
+                  title="Delete"
+                >
+                  🗑
+                </button>
+              </div>
+              <div className="mt-0.5 flex justify-between text-[11px] text-gray-400">
+                <span>{formatDate(t.updatedAt)}</span>
+                {variable && <span className="truncate ml-2 text-gray-500">{variable}</span>}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </aside>
+  )
+}
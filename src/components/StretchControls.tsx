@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react'
+import { formatTick } from './TimeSeriesChart'
+import type { ScaleLock, Stretch, StretchMode, ValueRange } from '../utils/colorScale'
+
+interface StretchControlsProps {
+  stretch: Stretch
+  /** Range currently drawn, used to prefill the fixed min/max */
+  range: ValueRange | null
+  /** Lock that currently overrides this map, if any */
+  lock: ScaleLock | null
+  onChange: (stretch: Stretch) => void
+  onLock?: () => void
+  onUnlock?: () => void
+}
+
+const MODES: Array<[StretchMode, string]> = [
+  ['minmax', 'Min / max'],
+  ['percentile', 'Percentile 2–98%'],
+  ['symmetric', 'Symmetric ±'],
+  ['fixed', 'Fixed range']
+]
+
+/**
+ * Stretch popover: how values map onto the color range, and the scale lock
+ * shared across messages
+ */
+export default function StretchControls({ stretch, range, lock, onChange, onLock, onUnlock }: StretchControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [min, setMin] = useState('')
+  const [max, setMax] = useState('')
+
+  // Prefill the inputs with whatever is drawn now
+  useEffect(() => {
+    if (range) {
+      setMin(formatTick(range.min))
+      setMax(formatTick(range.max))
+    }
+  }, [range?.min, range?.max])
+
+  const applyFixed = (e: React.FormEvent) => {
+    e.preventDefault()
+    const [lo, hi] = [parseFloat(min), parseFloat(max)]
+    if (isFinite(lo) && isFinite(hi) && lo < hi) onChange({ mode: 'fixed', min: lo, max: hi })
+  }
+
+  const fixedValid = isFinite(parseFloat(min)) && isFinite(parseFloat(max)) && parseFloat(min) < parseFloat(max)
+  const modeLabel = lock ? '🔒 Locked' : MODES.find(([mode]) => mode === stretch.mode)?.[1]
+
+  return (
+    <div className="relative text-xs">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="flex items-center gap-1 px-2 py-1 bg-white/95 border border-gray-200 rounded-md shadow hover:bg-gray-50"
+        title="Adjust the color stretch"
+      >
+        ↕ <span className="text-gray-600">{modeLabel}</span>
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full right-0 mb-1 w-60 bg-white border border-gray-200 rounded-md shadow-lg p-2 space-y-2">
+          {lock ? (
+            <div className="text-gray-600">
+              Scale locked to {formatTick(lock.min)} – {formatTick(lock.max)} for every {lock.variable} map.
+            </div>
+          ) : (
+            <>
+              <div className="space-y-0.5">
+                {MODES.map(([mode, label]) => (
+                  <label key={mode} className="flex items-center gap-2">
+                    <input
+                      type="radio"
+                      checked={stretch.mode === mode}
+                      onChange={() => mode === 'fixed' ? fixedValid && onChange({ mode, min: parseFloat(min), max: parseFloat(max) }) : onChange({ mode })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+              <form onSubmit={applyFixed} className="flex items-center gap-1">
+                <input
+                  value={min}
+                  onChange={(e) => setMin(e.target.value)}
+                  className="w-16 px-1 py-0.5 border rounded"
+                  aria-label="Minimum"
+                />
+                <span>–</span>
+                <input
+                  value={max}
+                  onChange={(e) => setMax(e.target.value)}
+                  className="w-16 px-1 py-0.5 border rounded"
+                  aria-label="Maximum"
+                />
+                <button type="submit" disabled={!fixedValid} className="px-2 py-0.5 bg-indigo-600 text-white rounded disabled:opacity-50">
+                  Set
+                </button>
+              </form>
+            </>
+          )}
+          {lock ? (
+            onUnlock && (
+              <button onClick={onUnlock} className="w-full px-2 py-1 border rounded hover:bg-gray-50">🔓 Unlock scale</button>
+            )
+          ) : (
+            onLock && range && (
+              <button onClick={onLock} className="w-full px-2 py-1 border rounded hover:bg-gray-50" title="Use this range on every map of the same variable">
+                🔒 Lock this scale for all maps
+              </button>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
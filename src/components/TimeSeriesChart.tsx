@@ -0,0 +1,112 @@
+import React, { useMemo } from 'react'
+import type { TimeSeries } from '../types'
+
+export interface ChartSeries {
+  id: string
+  label: string
+  color: string
+  series: TimeSeries
+}
+
+interface TimeSeriesChartProps {
+  series: ChartSeries[]
+  unit?: string
+  width?: number
+  height?: number
+}
+
+const MARGIN = { top: 12, right: 16, bottom: 28, left: 48 }
+
+/**
+ * "Nice" tick values covering [min, max]
+ */
+export function niceTicks(min: number, max: number, count: number = 5): number[] {
+  if (!isFinite(min) || !isFinite(max)) return []
+  if (min === max) return [min]
+  const rawStep = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)))
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) || rawStep
+  const ticks: number[] = []
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    ticks.push(Number(v.toPrecision(12)))
+  }
+  return ticks
+}
+
+export function formatTick(value: number): string {
+  const abs = Math.abs(value)
+  if (abs !== 0 && (abs >= 1e5 || abs < 1e-3)) return value.toExponential(1)
+  return Number(value.toFixed(3)).toString()
+}
+
+/**
+ * Lightweight SVG line chart for one or more time series
+ */
+export default function TimeSeriesChart({ series, unit, width = 640, height = 220 }: TimeSeriesChartProps) {
+  const layout = useMemo(() => {
+    const times: number[] = []
+    const values: number[] = []
+    series.forEach(s => s.series.points.forEach(p => {
+      times.push(Date.parse(p.date))
+      if (p.value !== null) values.push(p.value)
+    }))
+    if (times.length === 0 || values.length === 0) return null
+
+    const tMin = Math.min(...times)
+    const tMax = Math.max(...times)
+    let vMin = Math.min(...values)
+    let vMax = Math.max(...values)
+    if (vMin === vMax) { vMin -= 1; vMax += 1 }
+
+    const plotW = width - MARGIN.left - MARGIN.right
+    const plotH = height - MARGIN.top - MARGIN.bottom
+    const x = (t: number) => MARGIN.left + (tMax === tMin ? plotW / 2 : (t - tMin) / (tMax - tMin) * plotW)
+    const y = (v: number) => MARGIN.top + (1 - (v - vMin) / (vMax - vMin)) * plotH
+
+    // Break lines at missing values instead of interpolating across gaps
+    const paths = series.map(s => {
+      let d = ''
+      let penDown = false
+      s.series.points.forEach(p => {
+        if (p.value === null) { penDown = false; return }
+        d += `${penDown ? 'L' : 'M'}${x(Date.parse(p.date)).toFixed(1)},${y(p.value).toFixed(1)}`
+        penDown = true
+      })
+      return { id: s.id, color: s.color, d }
+    })
+
+    const dateTicks = [0, 0.25, 0.5, 0.75, 1].map(f => tMin + (tMax - tMin) * f)
+    return { x, y, paths, valueTicks: niceTicks(vMin, vMax), dateTicks: tMax === tMin ? [tMin] : dateTicks, plotH }
+  }, [series, width, height])
+
+  if (!layout) {
+    return <div className="text-xs text-gray-400 p-4">No values to plot</div>
+  }
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Time series chart">
+      {layout.valueTicks.map(v => (
+        <g key={`v${v}`}>
+          <line x1={MARGIN.left} x2={width - MARGIN.right} y1={layout.y(v)} y2={layout.y(v)} stroke="#e5e7eb" />
+          <text x={MARGIN.left - 6} y={layout.y(v)} fontSize="10" fill="#6b7280" textAnchor="end" dominantBaseline="middle">
+            {formatTick(v)}
+          </text>
+        </g>
+      ))}
+      {layout.dateTicks.map(t => (
+        <text key={`t${t}`} x={layout.x(t)} y={height - 8} fontSize="10" fill="#6b7280" textAnchor="middle">
+          {new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' })}
+        </text>
+      ))}
+      {unit && (
+        <text x={12} y={MARGIN.top + layout.plotH / 2} fontSize="10" fill="#374151" textAnchor="middle"
+          transform={`rotate(-90 12 ${MARGIN.top + layout.plotH / 2})`}>
+          {unit}
+        </text>
+      )}
+      {layout.paths.map(p => (
+        <path key={p.id} d={p.d} fill="none" stroke={p.color} strokeWidth={1.75} strokeLinejoin="round" />
+      ))}
+    </svg>
+  )
+}
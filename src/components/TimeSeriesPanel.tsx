@@ -0,0 +1,78 @@
+import React from 'react'
+import TimeSeriesChart, { type ChartSeries } from './TimeSeriesChart'
+import type { TimeSeries } from '../types'
+
+/**
+ * A clicked location and the state of its time-series request
+ */
+export interface PointQuery {
+  id: string
+  latitude: number
+  longitude: number
+  color: string
+  pinned: boolean
+  status: 'loading' | 'ready' | 'error'
+  series?: TimeSeries
+  error?: string
+}
+
+// Distinct, colorblind-friendly line colors (Okabe-Ito)
+export const SERIES_COLORS = ['#0072B2', '#D55E00', '#009E73', '#CC79A7', '#E69F00', '#56B4E9', '#000000']
+
+interface TimeSeriesPanelProps {
+  points: PointQuery[]
+  variableLabel: string
+  unit?: string
+  onPin: (id: string) => void
+  onRemove: (id: string) => void
+  onClear: () => void
+}
+
+export default function TimeSeriesPanel({ points, variableLabel, unit, onPin, onRemove, onClear }: TimeSeriesPanelProps) {
+  if (points.length === 0) return null
+
+  const chartSeries: ChartSeries[] = points
+    .filter(p => p.status === 'ready' && p.series)
+    .map(p => ({
+      id: p.id,
+      label: `${p.latitude.toFixed(3)}, ${p.longitude.toFixed(3)}`,
+      color: p.color,
+      series: p.series!
+    }))
+  const seriesUnit = unit || chartSeries[0]?.series.unit
+
+  return (
+    <div className="mt-2 border rounded-md bg-white p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold">📈 {variableLabel} time series{seriesUnit ? ` (${seriesUnit})` : ''}</h4>
+        <button onClick={onClear} className="text-xs text-gray-500 hover:text-gray-800">Clear</button>
+      </div>
+
+      <TimeSeriesChart series={chartSeries} unit={seriesUnit} />
+
+      <ul className="mt-2 space-y-1">
+        {points.map(p => (
+          <li key={p.id} className="flex items-center gap-2 text-xs">
+            <span className="inline-block w-3 h-3 rounded-full" style={{ background: p.color }} />
+            <span className="font-mono">{p.latitude.toFixed(3)}°, {p.longitude.toFixed(3)}°</span>
+            {p.status === 'loading' && <span className="text-gray-400 animate-pulse">loading…</span>}
+            {p.status === 'error' && <span className="text-red-600 truncate" title={p.error}>⚠️ {p.error}</span>}
+            {p.status === 'ready' && p.series && (
+              <span className="text-gray-400">{p.series.points.length} steps</span>
+            )}
+            <span className="flex-1" />
+            <button
+              onClick={() => onPin(p.id)}
+              className={`px-1.5 rounded ${p.pinned ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:text-gray-800'}`}
+              title={p.pinned ? 'Unpin' : 'Pin to compare with other points'}
+            >
+              📌
+            </button>
+            <button onClick={() => onRemove(p.id)} className="text-gray-400 hover:text-red-600" title="Remove">✕</button>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-1 text-[11px] text-gray-400">💡 Click the map in 📈 Time series mode to query a point; pin it to keep it while you click elsewhere.</div>
+    </div>
+  )
+}
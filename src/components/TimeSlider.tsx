@@ -0,0 +1,102 @@
+import React from 'react'
+import type { FrameStatus } from '../utils/frameAnimator'
+
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4]
+
+interface TimeSliderProps {
+  dates: string[]
+  index: number
+  playing: boolean
+  /** Frames per second */
+  speed: number
+  frameStatus: FrameStatus[]
+  onIndexChange: (index: number) => void
+  onTogglePlay: () => void
+  onSpeedChange: (speed: number) => void
+}
+
+function formatFrameDate(date: string): string {
+  const parsed = new Date(date)
+  return isNaN(parsed.getTime())
+    ? date
+    : parsed.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+}
+
+const STATUS_COLORS: Record<FrameStatus, string> = {
+  idle: '#e5e7eb',
+  loading: '#fcd34d',
+  ready: '#6366f1',
+  error: '#ef4444'
+}
+
+export default function TimeSlider({
+  dates,
+  index,
+  playing,
+  speed,
+  frameStatus,
+  onIndexChange,
+  onTogglePlay,
+  onSpeedChange
+}: TimeSliderProps) {
+  const current = frameStatus[index]
+  return (
+    <div className="mt-2 px-3 py-2 border rounded-md bg-white">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={onTogglePlay}
+          className="w-8 h-8 flex items-center justify-center rounded-full bg-indigo-600 hover:bg-indigo-700 text-white text-sm"
+          title={playing ? 'Pause' : 'Play'}
+        >
+          {playing ? '❚❚' : '▶'}
+        </button>
+        <button
+          onClick={() => onIndexChange((index - 1 + dates.length) % dates.length)}
+          className="text-xs text-gray-600 hover:text-gray-900"
+          title="Previous frame"
+        >
+          ◀
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={dates.length - 1}
+          value={index}
+          onChange={(e) => onIndexChange(Number(e.target.value))}
+          className="flex-1 accent-indigo-600"
+        />
+        <button
+          onClick={() => onIndexChange((index + 1) % dates.length)}
+          className="text-xs text-gray-600 hover:text-gray-900"
+          title="Next frame"
+        >
+          ▶
+        </button>
+        <select
+          value={speed}
+          onChange={(e) => onSpeedChange(Number(e.target.value))}
+          className="text-xs border rounded px-1 py-0.5"
+          title="Frames per second"
+        >
+          {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s} fps</option>)}
+        </select>
+      </div>
+
+      {/* Preload status per frame */}
+      <div className="mt-1 flex gap-px h-1">
+        {dates.map((d, i) => (
+          <div key={i} className="flex-1" style={{ background: STATUS_COLORS[frameStatus[i] || 'idle'], opacity: i === index ? 1 : 0.6 }} />
+        ))}
+      </div>
+
+      <div className="mt-1 flex justify-between text-xs text-gray-500">
+        <span className="font-medium text-gray-800">
+          {formatFrameDate(dates[index])}
+          {current === 'loading' && <span className="ml-2 text-amber-600 animate-pulse">loading…</span>}
+          {current === 'error' && <span className="ml-2 text-red-600">frame failed to load</span>}
+        </span>
+        <span>{index + 1} / {dates.length}</span>
+      </div>
+    </div>
+  )
+}
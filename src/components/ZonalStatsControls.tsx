@@ -0,0 +1,79 @@
+import React, { useState } from 'react'
+import type { BoundaryLevel } from '../utils/boundaryLayer'
+import type { ZonalRegion } from '../utils/zonalStats'
+
+type ZoneSource = 'drawn' | BoundaryLevel
+
+interface ZonalStatsControlsProps {
+  /** Region drawn with 📐 on this map, if any */
+  drawn: ZonalRegion | null
+  /** State or county clicked on the map, if any */
+  picked: ZonalRegion | null
+  busy: boolean
+  onBoundaryLevel: (level: BoundaryLevel | null) => void
+  onCompute: (region: ZonalRegion) => void
+}
+
+const SOURCES: Array<[ZoneSource, string]> = [
+  ['drawn', 'Drawn region'],
+  ['states', 'A state'],
+  ['counties', 'A county']
+]
+
+/**
+ * Zonal statistics popover: choose the zone (drawn region, or a state or
+ * county clicked on the map) and compute the raster statistics over it
+ */
+export default function ZonalStatsControls({ drawn, picked, busy, onBoundaryLevel, onCompute }: ZonalStatsControlsProps) {
+  const [open, setOpen] = useState(false)
+  const [source, setSource] = useState<ZoneSource>(drawn ? 'drawn' : 'states')
+  const zone = source === 'drawn' ? drawn : picked
+
+  const toggle = () => {
+    // Outlines only stay up while the popover is open
+    onBoundaryLevel(!open && source !== 'drawn' ? source : null)
+    setOpen(o => !o)
+  }
+
+  const choose = (next: ZoneSource) => {
+    setSource(next)
+    onBoundaryLevel(next === 'drawn' ? null : next)
+  }
+
+  return (
+    <div className="relative text-xs">
+      <button
+        onClick={toggle}
+        className={`flex items-center gap-1 px-2 py-1 bg-white/95 border rounded-md shadow hover:bg-gray-50 ${open ? 'border-indigo-300 text-indigo-700' : 'border-gray-200 text-gray-700'}`}
+        title="Statistics of the raster over a region"
+      >
+        Σ Zonal stats{busy ? '…' : ''}
+      </button>
+
+      {open && (
+        <div className="absolute top-full left-0 mt-1 w-56 bg-white border border-gray-200 rounded-md shadow-lg p-2 space-y-2 text-gray-700">
+          <div className="space-y-0.5">
+            {SOURCES.map(([value, label]) => (
+              <label key={value} className={`flex items-center gap-2 ${value === 'drawn' && !drawn ? 'text-gray-400' : ''}`}>
+                <input type="radio" checked={source === value} disabled={value === 'drawn' && !drawn} onChange={() => choose(value)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="text-gray-500">
+            {source === 'drawn'
+              ? drawn ? drawn.label : 'Draw a region with 📐 first'
+              : picked && picked.id.startsWith(source) ? picked.label : `Click a ${source === 'states' ? 'state' : 'county'} on the map`}
+          </div>
+          <button
+            onClick={() => zone && onCompute(zone)}
+            disabled={!zone || busy || (source !== 'drawn' && !zone.id.startsWith(source))}
+            className="w-full px-2 py-1 bg-indigo-600 text-white rounded disabled:opacity-50"
+          >
+            {busy ? 'Computing…' : 'Compute'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import React from 'react'
+import { formatTick } from './TimeSeriesChart'
+import type { ZonalStats } from '../utils/zonalStats'
+
+interface ZonalStatsPanelProps {
+  rows: ZonalStats[]
+  variableLabel: string
+  unit?: string
+  /** Shown when the last zone had no raster cells */
+  message: string | null
+  onRemove: (row: ZonalStats) => void
+  onClear: () => void
+  onExport: () => void
+}
+
+function formatArea(km2: number): string {
+  return km2 >= 100 ? Math.round(km2).toLocaleString() : km2.toPrecision(3)
+}
+
+/**
+ * Area-weighted statistics of the raster per zone, one row each
+ */
+export default function ZonalStatsPanel({ rows, variableLabel, unit, message, onRemove, onClear, onExport }: ZonalStatsPanelProps) {
+  if (rows.length === 0 && !message) return null
+  const value = (v: number) => isFinite(v) ? formatTick(Number(v.toPrecision(4))) : '–'
+  const percentile = (row: ZonalStats, p: number) => value(row.percentiles.find(([percent]) => percent === p)?.[1] ?? NaN)
+
+  return (
+    <div className="mt-2 border rounded-md bg-white p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold">Σ {variableLabel} zonal statistics{unit ? ` (${unit})` : ''}</h4>
+        <div className="flex items-center gap-3">
+          {rows.length > 0 && <button onClick={onExport} className="text-xs text-indigo-600 hover:text-indigo-800">⬇ CSV</button>}
+          <button onClick={onClear} className="text-xs text-gray-500 hover:text-gray-800">Clear</button>
+        </div>
+      </div>
+      {message && <div className="mb-2 text-xs text-amber-700">⚠️ {message}</div>}
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-gray-500">
+              <tr className="text-right">
+                <th className="text-left font-medium pr-2">Region</th>
+                <th className="font-medium px-1">Mean</th>
+                <th className="font-medium px-1">Min</th>
+                <th className="font-medium px-1">Max</th>
+                <th className="font-medium px-1">Std</th>
+                <th className="font-medium px-1" title="10th, 50th (median) and 90th percentiles">P10 / P50 / P90</th>
+                <th className="font-medium px-1" title="Cells with data / NoData cells">Cells</th>
+                <th className="font-medium px-1">Area km²</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.regionId}-${row.layer}`} className="text-right border-t">
+                  <td className="text-left pr-2 py-1 max-w-[12rem] truncate" title={row.layer ? `${row.region} · ${row.layer}` : row.region}>
+                    {row.region}
+                    {row.layer && <span className="text-gray-400"> · {row.layer}</span>}
+                  </td>
+                  <td className="px-1 font-mono">{value(row.mean)}</td>
+                  <td className="px-1 font-mono">{value(row.min)}</td>
+                  <td className="px-1 font-mono">{value(row.max)}</td>
+                  <td className="px-1 font-mono">{value(row.std)}</td>
+                  <td className="px-1 font-mono whitespace-nowrap">{percentile(row, 10)} / {percentile(row, 50)} / {percentile(row, 90)}</td>
+                  <td className="px-1 font-mono whitespace-nowrap">
+                    {row.validCells.toLocaleString()}
+                    {row.noDataCells > 0 && <span className="text-gray-400"> / {row.noDataCells.toLocaleString()}</span>}
+                  </td>
+                  <td className="px-1 font-mono">{formatArea(row.validAreaKm2)}</td>
+                  <td className="pl-1">
+                    <button onClick={() => onRemove(row)} className="text-gray-400 hover:text-red-600" title="Remove">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="mt-1 text-[11px] text-gray-400">💡 Weighted by cell area; a cell counts when its center is inside the region. The CSV adds the 25th and 75th percentiles.</div>
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+/**
+ * USGS Watershed Boundary Dataset regions (HUC-2) and subregions (HUC-4)
+ *
+ * Extents are approximate, rounded to 0.1°, and cover the US part of
+ * basins that cross a border. They frame the map and scope a question, they
+ * are not meant for clipping. HUC-4 subregions are listed for the
+ * conterminous regions 01–18.
+ *
+ * [code, name, west, south, east, north]
+ */
+export type HucRegionRow = [string, string, number, number, number, number]
+
+export const HUC_REGIONS: HucRegionRow[] = [
+  ['01', 'New England', -73.7, 41.0, -66.9, 47.5],
+  ['02', 'Mid Atlantic', -80.6, 36.5, -71.8, 45.1],
+  ['03', 'South Atlantic-Gulf', -91.7, 24.5, -75.4, 37.3],
+  ['04', 'Great Lakes', -92.4, 40.3, -73.3, 49.0],
+  ['05', 'Ohio', -89.3, 34.6, -77.8, 42.3],
+  ['06', 'Tennessee', -88.6, 34.0, -81.3, 37.3],
+  ['07', 'Upper Mississippi', -97.2, 36.9, -86.2, 48.0],
+  ['08', 'Lower Mississippi', -94.5, 28.9, -88.0, 37.7],
+  ['09', 'Souris-Red-Rainy', -104.1, 45.3, -89.5, 49.4],
+  ['10', 'Missouri', -114.0, 37.0, -89.9, 49.7],
+  ['11', 'Arkansas-White-Red', -106.6, 31.2, -90.4, 39.4],
+  ['12', 'Texas-Gulf', -104.0, 25.9, -93.2, 34.8],
+  ['13', 'Rio Grande', -108.7, 25.8, -97.1, 38.2],
+  ['14', 'Upper Colorado', -112.0, 35.6, -105.6, 43.5],
+  ['15', 'Lower Colorado', -116.0, 31.3, -107.5, 39.1],
+  ['16', 'Great Basin', -120.3, 36.4, -110.6, 43.0],
+  ['17', 'Pacific Northwest', -124.8, 41.0, -110.2, 49.0],
+  ['18', 'California', -124.4, 32.5, -114.1, 43.6],
+  ['19', 'Alaska', -179.2, 51.2, -129.9, 71.4],
+  ['20', 'Hawaii', -160.3, 18.9, -154.8, 22.3],
+  ['21', 'Caribbean', -68.0, 17.6, -64.5, 18.6],
+
+  ['0101', 'St. John', -70.4, 45.7, -67.8, 47.5],
+  ['0102', 'Penobscot', -70.1, 44.3, -67.9, 46.4],
+  ['0103', 'Kennebec', -70.9, 43.8, -69.3, 46.0],
+  ['0104', 'Androscoggin', -71.6, 43.8, -69.8, 45.3],
+  ['0105', 'Maine Coastal', -70.1, 43.7, -66.9, 45.8],
+  ['0106', 'Saco', -71.5, 43.0, -70.2, 44.4],
+  ['0107', 'Merrimack', -72.1, 42.2, -70.6, 44.3],
+  ['0108', 'Connecticut', -73.1, 41.3, -71.1, 45.3],
+  ['0109', 'Massachusetts-Rhode Island Coastal', -72.0, 41.2, -69.9, 42.9],
+  ['0110', 'Connecticut Coastal', -74.0, 40.9, -71.8, 42.5],
+  ['0111', 'St. Francois', -72.4, 44.6, -71.2, 45.3],
+
+  ['0201', 'Richelieu', -74.0, 43.4, -72.0, 45.1],
+  ['0202', 'Upper Hudson', -75.8, 42.0, -73.2, 44.3],
+  ['0203', 'Lower Hudson-Long Island', -75.0, 40.4, -71.8, 42.3],
+  ['0204', 'Delaware', -76.4, 38.4, -74.0, 42.5],
+  ['0205', 'Susquehanna', -78.7, 39.5, -74.6, 43.0],
+  ['0206', 'Upper Chesapeake', -77.3, 37.9, -75.2, 40.1],
+  ['0207', 'Potomac', -80.5, 37.8, -76.2, 40.1],
+  ['0208', 'Lower Chesapeake', -80.5, 36.7, -75.2, 38.5],
+
+  ['0301', 'Chowan-Roanoke', -80.9, 35.6, -75.4, 37.5],
+  ['0302', 'Neuse-Pamlico', -79.3, 34.6, -75.5, 36.5],
+  ['0303', 'Cape Fear', -80.2, 33.8, -77.6, 36.3],
+  ['0304', 'Pee Dee', -81.8, 33.3, -78.5, 36.6],
+  ['0305', 'Edisto-Santee', -83.2, 32.3, -79.2, 36.2],
+  ['0306', 'Ogeechee-Savannah', -83.6, 31.7, -80.8, 35.3],
+  ['0307', 'Altamaha-St. Marys', -84.6, 30.3, -81.2, 34.2],
+  ['0308', 'St. Johns', -82.3, 27.4, -80.3, 30.8],
+  ['0309', 'Southern Florida', -82.2, 24.5, -80.0, 28.8],
+  ['0310', 'Peace-Tampa Bay', -82.9, 26.5, -81.3, 28.8],
+  ['0311', 'Suwannee', -84.3, 28.9, -82.1, 32.0],
+  ['0312', 'Ochlockonee', -84.9, 29.8, -83.4, 31.8],
+  ['0313', 'Apalachicola', -85.7, 29.6, -83.6, 34.6],
+  ['0314', 'Choctawhatchee-Escambia', -87.6, 30.2, -85.1, 32.3],
+  ['0315', 'Alabama', -87.9, 30.9, -83.9, 35.1],
+  ['0316', 'Mobile-Tombigbee', -89.2, 30.2, -86.5, 34.9],
+  ['0317', 'Pascagoula', -89.6, 30.2, -88.3, 32.8],
+  ['0318', 'Pearl', -90.3, 30.1, -88.8, 33.2],
+
+  ['0401', 'Western Lake Superior', -92.4, 46.3, -89.5, 48.5],
+  ['0402', 'Southern Lake Superior-Lake Superior', -91.0, 46.0, -84.4, 49.0],
+  ['0403', 'Northwestern Lake Michigan', -90.4, 43.6, -87.3, 46.5],
+  ['0404', 'Southwestern Lake Michigan', -88.6, 41.5, -87.0, 44.0],
+  ['0405', 'Southeastern Lake Michigan', -87.0, 41.3, -84.4, 43.5],
+  ['0406', 'Northeastern Lake Michigan-Lake Michigan', -87.9, 41.6, -84.6, 46.3],
+  ['0407', 'Northwestern Lake Huron', -85.0, 44.1, -83.2, 46.4],
+  ['0408', 'Southwestern Lake Huron-Lake Huron', -85.2, 42.5, -82.4, 46.0],
+  ['0409', 'St. Clair-Detroit', -84.3, 42.0, -82.4, 43.4],
+  ['0410', 'Western Lake Erie', -85.4, 40.3, -82.6, 42.5],
+  ['0411', 'Southern Lake Erie', -83.1, 40.6, -80.4, 42.0],
+  ['0412', 'Eastern Lake Erie-Lake Erie', -83.5, 41.3, -78.7, 42.9],
+  ['0413', 'Southwestern Lake Ontario', -78.9, 42.3, -76.8, 43.4],
+  ['0414', 'Southeastern Lake Ontario', -77.2, 42.3, -75.0, 43.5],
+  ['0415', 'Northeastern Lake Ontario-Lake Ontario-St. Lawrence', -79.8, 43.2, -73.3, 45.1],
+
+  ['0501', 'Allegheny', -80.1, 40.3, -77.9, 42.6],
+  ['0502', 'Monongahela', -80.8, 38.3, -78.9, 40.5],
+  ['0503', 'Upper Ohio', -82.0, 38.7, -79.7, 41.9],
+  ['0504', 'Muskingum', -82.9, 39.4, -80.8, 41.2],
+  ['0505', 'Kanawha', -81.9, 36.0, -79.2, 39.0],
+  ['0506', 'Scioto', -83.8, 38.6, -82.4, 40.8],
+  ['0507', 'Big Sandy-Guyandotte', -83.2, 37.0, -81.2, 38.5],
+  ['0508', 'Great Miami', -85.0, 38.9, -83.6, 40.6],
+  ['0509', 'Middle Ohio', -84.9, 37.9, -82.0, 39.9],
+  ['0510', 'Kentucky-Licking', -85.2, 36.8, -82.9, 39.1],
+  ['0511', 'Green', -87.5, 36.6, -84.8, 38.0],
+  ['0512', 'Wabash', -88.9, 37.8, -84.3, 41.3],
+  ['0513', 'Cumberland', -88.3, 35.6, -82.7, 37.3],
+  ['0514', 'Lower Ohio', -89.2, 36.9, -85.0, 38.8],
+
+  ['0601', 'Upper Tennessee', -84.8, 35.0, -81.3, 37.3],
+  ['0602', 'Middle Tennessee-Hiwassee', -85.9, 34.2, -83.6, 36.0],
+  ['0603', 'Middle Tennessee-Elk', -87.9, 34.0, -85.4, 35.8],
+  ['0604', 'Lower Tennessee', -88.6, 34.3, -86.7, 37.1],
+
+  ['0701', 'Mississippi Headwaters', -95.9, 44.9, -92.7, 47.9],
+  ['0702', 'Minnesota', -97.2, 43.8, -93.2, 45.9],
+  ['0703', 'St. Croix', -93.3, 44.7, -91.4, 46.7],
+  ['0704', 'Upper Mississippi-Black-Root', -93.5, 43.1, -90.2, 45.1],
+  ['0705', 'Chippewa', -92.3, 44.4, -89.9, 46.4],
+  ['0706', 'Upper Mississippi-Maquoketa-Plum', -92.3, 41.6, -89.5, 43.9],
+  ['0707', 'Wisconsin', -90.8, 42.8, -88.9, 46.1],
+  ['0708', 'Upper Mississippi-Iowa-Skunk-Wapsipinicon', -94.1, 40.5, -90.5, 44.1],
+  ['0709', 'Rock', -90.5, 41.2, -88.1, 43.9],
+  ['0710', 'Des Moines', -95.8, 40.3, -91.4, 44.2],
+  ['0711', 'Upper Mississippi-Salt', -93.3, 38.5, -89.9, 41.0],
+  ['0712', 'Upper Illinois', -89.8, 40.5, -87.2, 43.2],
+  ['0713', 'Lower Illinois', -91.0, 38.8, -87.6, 42.0],
+  ['0714', 'Upper Mississippi-Kaskaskia-Meramec', -92.2, 37.0, -88.1, 40.2],
+
+  ['0801', 'Lower Mississippi-Hatchie', -90.4, 34.9, -88.3, 37.3],
+  ['0802', 'Lower Mississippi-St. Francis', -91.9, 33.7, -89.7, 37.7],
+  ['0803', 'Lower Mississippi-Yazoo', -91.3, 32.3, -88.7, 35.0],
+  ['0804', 'Lower Red-Ouachita', -94.5, 30.9, -91.7, 34.8],
+  ['0805', 'Boeuf-Tensas', -92.1, 31.0, -90.9, 33.9],
+  ['0806', 'Lower Mississippi-Big Black', -91.7, 30.9, -89.0, 33.6],
+  ['0807', 'Lower Mississippi-Lake Maurepas', -91.6, 29.9, -89.9, 31.3],
+  ['0808', 'Louisiana Coastal', -93.9, 29.0, -91.0, 31.5],
+  ['0809', 'Lower Mississippi', -91.3, 28.9, -88.8, 30.6],
+
+  ['0901', 'Souris', -104.1, 47.4, -100.3, 49.0],
+  ['0902', 'Red', -99.5, 45.3, -95.2, 49.0],
+  ['0903', 'Rainy', -95.4, 47.4, -89.5, 49.4],
+
+  ['1002', 'Missouri Headwaters', -113.9, 44.4, -110.3, 47.1],
+  ['1003', 'Missouri-Marias', -113.9, 46.5, -108.5, 49.0],
+  ['1004', 'Missouri-Musselshell', -111.1, 46.0, -106.2, 48.0],
+  ['1005', 'Milk', -113.7, 47.6, -105.9, 49.0],
+  ['1006', 'Missouri-Poplar', -108.5, 47.3, -103.9, 49.0],
+  ['1007', 'Upper Yellowstone', -111.2, 44.1, -106.9, 46.9],
+  ['1008', 'Big Horn', -110.4, 42.7, -107.1, 46.2],
+  ['1009', 'Powder-Tongue', -107.7, 42.8, -104.5, 47.0],
+  ['1010', 'Lower Yellowstone', -107.5, 45.3, -103.9, 48.0],
+  ['1011', 'Missouri-Little Missouri', -104.9, 44.5, -100.0, 48.9],
+  ['1012', 'Cheyenne', -105.4, 42.7, -100.4, 45.2],
+  ['1013', 'Missouri-Oahe', -104.0, 44.0, -99.2, 47.6],
+  ['1014', 'Missouri-White', -103.2, 42.7, -98.4, 44.6],
+  ['1015', 'Niobrara', -104.8, 42.0, -97.9, 43.3],
+  ['1016', 'James', -99.9, 42.8, -97.3, 47.8],
+  ['1017', 'Missouri-Big Sioux', -98.0, 42.0, -96.0, 45.4],
+  ['1018', 'North Platte', -107.9, 40.2, -101.6, 43.5],
+  ['1019', 'South Platte', -106.3, 38.8, -101.2, 41.9],
+  ['1020', 'Platte', -101.7, 40.3, -95.8, 41.9],
+  ['1021', 'Loup', -102.0, 41.0, -97.3, 42.6],
+  ['1022', 'Elkhorn', -100.0, 41.2, -96.2, 42.9],
+  ['1023', 'Missouri-Little Sioux', -96.6, 41.3, -94.8, 43.8],
+  ['1024', 'Missouri-Nishnabotna', -96.6, 39.0, -94.1, 42.2],
+  ['1025', 'Republican', -103.6, 39.0, -96.9, 40.8],
+  ['1026', 'Smoky Hill', -103.5, 38.1, -96.8, 39.9],
+  ['1027', 'Kansas', -99.0, 38.5, -94.6, 40.5],
+  ['1028', 'Chariton-Grand', -95.1, 39.3, -92.2, 41.6],
+  ['1029', 'Gasconade-Osage', -96.0, 36.9, -91.4, 39.0],
+  ['1030', 'Lower Missouri', -95.0, 38.2, -90.1, 40.6],
+
+  ['1101', 'Upper White', -94.5, 34.6, -90.4, 38.0],
+  ['1102', 'Upper Arkansas', -106.6, 37.3, -101.0, 39.4],
+  ['1103', 'Middle Arkansas', -102.0, 36.9, -96.8, 39.3],
+  ['1104', 'Upper Cimarron', -104.7, 36.3, -99.5, 38.0],
+  ['1105', 'Lower Cimarron', -99.6, 35.6, -96.0, 37.3],
+  ['1106', 'Arkansas-Keystone', -99.4, 36.0, -95.9, 37.8],
+  ['1107', 'Neosho-Verdigris', -97.2, 35.6, -94.4, 39.0],
+  ['1108', 'Upper Canadian', -105.7, 34.5, -100.0, 36.7],
+  ['1109', 'Lower Canadian', -100.0, 34.4, -95.2, 36.0],
+  ['1110', 'North Canadian', -103.0, 35.2, -95.3, 37.1],
+  ['1111', 'Lower Arkansas', -96.3, 33.1, -91.0, 36.4],
+  ['1112', 'Red Headwaters', -103.6, 33.5, -99.0, 35.5],
+  ['1113', 'Red-Washita', -101.6, 33.3, -96.3, 35.9],
+  ['1114', 'Red-Sulphur', -97.0, 31.3, -92.3, 34.9],
+
+  ['1201', 'Sabine', -96.3, 29.6, -93.2, 33.2],
+  ['1202', 'Neches', -96.3, 29.7, -93.7, 32.6],
+  ['1203', 'Trinity', -98.4, 29.4, -94.4, 33.9],
+  ['1204', 'Galveston Bay-San Jacinto', -96.4, 28.9, -94.0, 30.9],
+  ['1205', 'Brazos Headwaters', -103.8, 32.6, -99.3, 34.8],
+  ['1206', 'Middle Brazos', -100.8, 30.4, -96.8, 33.9],
+  ['1207', 'Lower Brazos', -98.5, 28.8, -95.4, 31.8],
+  ['1208', 'Upper Colorado (Texas)', -104.0, 30.4, -98.9, 33.2],
+  ['1209', 'Lower Colorado-San Bernard Coastal', -100.3, 28.5, -95.4, 31.3],
+  ['1210', 'Central Texas Coastal', -99.6, 27.8, -95.8, 30.3],
+  ['1211', 'Nueces-Southwestern Texas Coastal', -100.8, 25.9, -97.1, 29.8],
+
+  ['1301', 'Rio Grande Headwaters', -107.6, 36.9, -105.2, 38.2],
+  ['1302', 'Rio Grande-Elephant Butte', -108.7, 33.0, -105.3, 37.2],
+  ['1303', 'Rio Grande-Mimbres', -108.6, 31.3, -105.9, 33.4],
+  ['1304', 'Rio Grande-Amistad', -105.9, 28.9, -100.8, 31.4],
+  ['1305', 'Rio Grande Closed Basins', -106.9, 31.3, -104.5, 34.9],
+  ['1306', 'Upper Pecos', -106.0, 31.9, -103.0, 35.9],
+  ['1307', 'Lower Pecos', -104.9, 29.7, -101.2, 32.4],
+  ['1308', 'Rio Grande-Falcon', -100.9, 26.5, -98.3, 29.6],
+  ['1309', 'Lower Rio Grande', -99.2, 25.8, -97.1, 26.9],
+
+  ['1401', 'Colorado Headwaters', -109.1, 38.8, -105.6, 40.5],
+  ['1402', 'Gunnison', -108.6, 37.9, -106.3, 39.3],
+  ['1403', 'Upper Colorado-Dolores', -110.0, 37.4, -107.8, 39.3],
+  ['1404', 'Great Divide-Upper Green', -111.0, 40.8, -107.2, 43.5],
+  ['1405', 'White-Yampa', -109.7, 39.5, -106.0, 41.4],
+  ['1406', 'Lower Green', -111.3, 38.2, -108.7, 40.9],
+  ['1407', 'Upper Colorado-Dirty Devil', -112.0, 36.6, -109.6, 39.0],
+  ['1408', 'San Juan', -111.7, 35.6, -106.4, 38.0],
+
+  ['1501', 'Lower Colorado-Lake Mead', -115.9, 35.1, -111.6, 39.1],
+  ['1502', 'Little Colorado', -112.1, 33.9, -108.6, 36.3],
+  ['1503', 'Lower Colorado', -115.9, 32.2, -112.5, 35.4],
+  ['1504', 'Upper Gila', -110.9, 32.3, -107.6, 34.1],
+  ['1505', 'Middle Gila', -112.8, 31.3, -109.9, 33.8],
+  ['1506', 'Salt', -112.9, 33.2, -109.0, 35.4],
+  ['1507', 'Lower Gila', -114.8, 32.0, -112.0, 33.9],
+  ['1508', 'Sonora', -113.5, 31.3, -108.9, 32.6],
+
+  ['1601', 'Bear', -112.4, 40.9, -110.6, 42.9],
+  ['1602', 'Great Salt Lake', -114.1, 39.3, -110.9, 42.4],
+  ['1603', 'Escalante Desert-Sevier Lake', -114.1, 37.3, -111.1, 40.1],
+  ['1604', 'Black Rock Desert-Humboldt', -119.9, 40.0, -114.8, 42.0],
+  ['1605', 'Central Lahontan', -120.3, 38.1, -117.4, 40.7],
+  ['1606', 'Central Nevada Desert Basins', -118.9, 36.4, -114.0, 41.2],
+
+  ['1701', 'Kootenai-Pend Oreille-Spokane', -117.9, 45.6, -112.4, 49.0],
+  ['1702', 'Upper Columbia', -121.2, 46.6, -117.4, 49.0],
+  ['1703', 'Yakima', -121.6, 46.0, -119.3, 47.6],
+  ['1704', 'Upper Snake', -114.7, 41.8, -110.2, 44.7],
+  ['1705', 'Middle Snake', -118.2, 41.0, -113.8, 45.2],
+  ['1706', 'Lower Snake', -117.9, 44.2, -113.3, 47.2],
+  ['1707', 'Middle Columbia', -122.2, 44.0, -116.9, 47.0],
+  ['1708', 'Lower Columbia', -124.1, 45.2, -121.6, 46.7],
+  ['1709', 'Willamette', -123.8, 43.3, -121.7, 45.8],
+  ['1710', 'Oregon-Washington Coastal', -124.8, 41.9, -122.2, 48.4],
+  ['1711', 'Puget Sound', -124.7, 46.7, -120.6, 49.0],
+  ['1712', 'Oregon Closed Basins', -121.8, 42.0, -117.9, 44.2],
+
+  ['1801', 'Klamath-Northern California Coastal', -124.4, 38.2, -120.9, 43.6],
+  ['1802', 'Sacramento', -122.9, 38.0, -120.0, 42.1],
+  ['1803', 'Tulare-Buena Vista Lakes', -120.6, 34.8, -118.0, 37.1],
+  ['1804', 'San Joaquin', -121.6, 36.7, -118.9, 38.8],
+  ['1805', 'San Francisco Bay', -123.0, 36.9, -121.4, 38.6],
+  ['1806', 'Central California Coastal', -122.4, 34.3, -118.9, 37.5],
+  ['1807', 'Southern California Coastal', -120.5, 32.5, -116.1, 34.8],
+  ['1808', 'North Lahontan', -121.0, 39.4, -119.8, 42.0],
+  ['1809', 'Northern Mojave-Mono Lake', -119.6, 34.6, -115.0, 38.6],
+  ['1810', 'Southern Mojave-Salton Sea', -118.0, 32.6, -114.1, 35.7]
+]
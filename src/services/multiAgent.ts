@@ -1,4 +1,9 @@
 import { getStableUserId } from '../utils/userIdentity'
+import { parseTolerantJson } from '../utils/tolerantJson'
+import { validateCopilotResponse } from './responseSchema'
+import { getStreamFormat, readNdjsonEvents, readSseEvents } from './streaming'
+import { fetchWithRetry, type RequestOptions } from './requestManager'
+import type { AgentStep, CopilotResponse, MultiAgentRequest, MultiAgentResponse, TimeSeries } from '../types'
 
 const API_BASE_URL = 'http://localhost:7071'
 
@@ -10,21 +15,24 @@ console.log('🔧 API Configuration:', {
   NODE_ENV: import.meta.env.NODE_ENV
 })
 
-export async function callMultiAgentFunction(requestData: any) {
+export async function callMultiAgentFunction(
+  requestData: MultiAgentRequest,
+  options: RequestOptions = {}
+): Promise<MultiAgentResponse> {
   const userId = await getStableUserId()
   const endpoint = `${API_BASE_URL}/multi_agent_function`
   console.log('🚀 Making API call to Azure Functions:', endpoint)
   console.log('User ID:', userId.substring(0, 8) + '...')
   console.log('Request data:', requestData)
 
-  const response = await fetch(endpoint, {
+  const response = await fetchWithRetry(endpoint, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'X-User-Id': userId
     },
     body: JSON.stringify(requestData)
-  })
+  }, options)
 
   console.log('📡 Response status:', response.status)
   console.log('📡 Response ok:', response.ok)
@@ -35,37 +43,147 @@ export async function callMultiAgentFunction(requestData: any) {
     throw new Error(`HTTP ${response.status}: ${response.statusText}`)
   }
 
-  const data = await response.json()
+  const responseText = await response.text()
+  const data = parseTolerantJson(responseText)
   console.log('📦 Raw Azure Functions response:', data)
 
-  // Transform response to match expected format
-  const transformedResponse = {
-    response: {
-      status: data.status || 'success',
-      content: data.content || data.result || data.response || '',
-      static_url: data.static_url || data.image_url,
-      overlay_url: data.overlay_url,
-      geotiff_url: data.geotiff_url,
-      geojson: data.geojson,
-      bounds: data.bounds,
-      use_tiles: Boolean(data.use_tiles),
-      tile_config: data.tile_config,
-      temperature_data: data.temperature_data || [],
-      map_config: data.map_config,
-      variable_info: data.variable_info,
-      analysis_type: data.analysis_type,
-      regions: data.regions,
-      extreme_regions: data.extreme_regions,
-      type: data.type || 'azure_functions',
-      agent_id: data.agent_id,
-      thread_id: data.thread_id,
-      debug: data.debug,
-      analysis_data: data.analysis_data
+  // Validate and classify the response into one of the typed variants
+  const validatedResponse: MultiAgentResponse = { response: validateCopilotResponse(data) }
+
+  console.log('✅ Validated Azure Functions response:', validatedResponse.response.kind, validatedResponse)
+  return validatedResponse
+}
+
+export interface StreamHandlers {
+  onToken?: (text: string) => void
+  onStep?: (step: AgentStep) => void
+  // Called whenever the artifacts received so far form a renderable response
+  onArtifact?: (partial: CopilotResponse) => void
+}
+
+/**
+ * Streaming variant of callMultiAgentFunction
+ *
+ * Asks for SSE or NDJSON and reports tokens, agent steps and map artifacts as
+ * they arrive. Backends that ignore the Accept header and answer with plain
+ * JSON are handled exactly like callMultiAgentFunction.
+ */
+export async function streamMultiAgentFunction(
+  requestData: MultiAgentRequest,
+  handlers: StreamHandlers = {},
+  options: RequestOptions = {}
+): Promise<MultiAgentResponse> {
+  const userId = await getStableUserId()
+  const endpoint = `${API_BASE_URL}/multi_agent_function`
+  console.log('🚀 Making streaming API call to Azure Functions:', endpoint)
+
+  const response = await fetchWithRetry(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream, application/x-ndjson;q=0.9, application/json;q=0.8',
+      'X-User-Id': userId
+    },
+    body: JSON.stringify({ ...requestData, stream: true })
+  }, options)
+
+  console.log('📡 Response status:', response.status)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error('❌ Response error text:', errorText)
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const format = getStreamFormat(response.headers.get('Content-Type'))
+  if (!format || !response.body) {
+    // ✅ Non-streaming backend: one JSON document
+    console.log('📦 Backend did not stream, parsing full JSON response')
+    const data = parseTolerantJson(await response.text())
+    return { response: validateCopilotResponse(data) }
+  }
+
+  console.log('🌊 Reading', format, 'stream')
+  const events = format === 'sse' ? readSseEvents(response.body) : readNdjsonEvents(response.body)
+  let streamedText = ''
+  let artifacts: Record<string, any> = {}
+  let finalData: Record<string, any> | null = null
+
+  for await (const event of events) {
+    switch (event.type) {
+      case 'token':
+        streamedText += event.text
+        handlers.onToken?.(event.text)
+        break
+      case 'step':
+        handlers.onStep?.(event.step)
+        break
+      case 'artifact':
+        artifacts = { ...artifacts, ...event.data }
+        try {
+          const partial = validateCopilotResponse({ ...artifacts, content: streamedText })
+          if (partial.kind !== 'text') handlers.onArtifact?.(partial)
+        } catch (error) {
+          // Incomplete artifacts are expected mid-stream; the final payload is validated below
+          console.log('🌊 Partial artifact not renderable yet:', (error as Error).message)
+        }
+        break
+      case 'final':
+        finalData = event.data
+        break
+      case 'error':
+        throw new Error(event.message)
     }
   }
 
-  console.log('✅ Transformed Azure Functions response:', transformedResponse)
-  return transformedResponse
+  const merged = { ...artifacts, ...(finalData || {}) }
+  if (merged.content === undefined && merged.result === undefined && typeof merged.response !== 'string') {
+    merged.content = streamedText
+  }
+  console.log('✅ Stream complete:', { tokens: streamedText.length, hasFinal: !!finalData })
+  return { response: validateCopilotResponse(merged) }
+}
+
+export interface PointTimeSeriesRequest {
+  latitude: number
+  longitude: number
+  variable: string
+  variableLabel?: string
+  /** Date of the map the point was picked from; the backend centers the series on it */
+  date?: string
+  threadId?: string
+}
+
+/**
+ * Ask the backend for the time series of a variable at one grid point
+ */
+export async function fetchPointTimeSeries(
+  point: PointTimeSeriesRequest,
+  options: RequestOptions = {}
+): Promise<TimeSeries> {
+  const label = point.variableLabel || point.variable
+  const resp = await callMultiAgentFunction({
+    action: 'point_timeseries',
+    data: {
+      query: `Time series of ${label} at latitude ${point.latitude.toFixed(4)}, longitude ${point.longitude.toFixed(4)}${point.date ? ` around ${point.date}` : ''}`,
+      point: { latitude: point.latitude, longitude: point.longitude },
+      variable: point.variable,
+      date: point.date,
+      thread_id: point.threadId
+    }
+  }, options)
+
+  const series = resp.response.timeseries
+  if (!series || series.points.length === 0) {
+    throw new Error(resp.response.content || 'The backend returned no time series for this location')
+  }
+  // Fill in location/variable the backend may omit
+  return {
+    ...series,
+    variable: series.variable || point.variable,
+    latitude: isFinite(series.latitude) ? series.latitude : point.latitude,
+    longitude: isFinite(series.longitude) ? series.longitude : point.longitude
+  }
 }
 
 export async function testFastAPIConnection(): Promise<boolean> {
@@ -87,8 +205,7 @@ export async function testFastAPIConnection(): Promise<boolean> {
 }
 
 export async function queryHydrologyCopilot(query: string) {
-  return callMultiAgentFunction({ query })
-  return callMultiAgentFunction({ query })
+  return callMultiAgentFunction({ action: 'generate', data: { query } })
 }
 
 export { API_BASE_URL }
@@ -0,0 +1,223 @@
+/**
+ * Cancellable, retrying fetch pipeline for backend requests
+ *
+ * - RequestManager owns the AbortController of the in-flight query so the UI
+ *   can stop it at any time
+ * - fetchWithRetry() applies a per-attempt timeout and retries transient
+ *   failures (502/503/504 and network errors) with exponential backoff
+ * - Once the headers are in, the body read fails if the server goes quiet
+ *   for longer than the idle timeout
+ */
+
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled')
+    this.name = 'RequestCancelledError'
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(timeoutMs: number, idle = false) {
+    super(idle
+      ? `No data received from the backend for ${Math.round(timeoutMs / 1000)}s`
+      : `Request timed out after ${Math.round(timeoutMs / 1000)}s`)
+    this.name = 'RequestTimeoutError'
+  }
+}
+
+export interface RequestOptions {
+  /** Aborts the whole request, including pending retries */
+  signal?: AbortSignal
+  /** Time allowed for each attempt to return response headers */
+  timeoutMs?: number
+  /** Time allowed between two chunks of the response body */
+  idleTimeoutMs?: number
+  /** Retries after the first attempt */
+  maxRetries?: number
+  /** Delay before the first retry; doubles on each subsequent retry */
+  baseDelayMs?: number
+  /** Reports the attempt about to start (1-based) */
+  onAttempt?: (attempt: number, maxAttempts: number) => void
+}
+
+const RETRYABLE_STATUS = new Set([502, 503, 504])
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_BASE_DELAY_MS = 1000
+
+/**
+ * Tracks the single in-flight query of a chat and cancels it on demand
+ */
+export class RequestManager {
+  private controller: AbortController | null = null
+
+  /** Start a new request, cancelling any previous one */
+  begin(): AbortSignal {
+    this.cancel()
+    this.controller = new AbortController()
+    return this.controller.signal
+  }
+
+  /** Cancel the in-flight request, if any */
+  cancel(): void {
+    if (this.controller) {
+      this.controller.abort(new RequestCancelledError())
+      this.controller = null
+    }
+  }
+
+  /** Forget the request once it settles so a late cancel() is a no-op */
+  end(signal: AbortSignal): void {
+    if (this.controller?.signal === signal) {
+      this.controller = null
+    }
+  }
+
+  get active(): boolean {
+    return this.controller !== null
+  }
+}
+
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof RequestCancelledError || (!!signal?.aborted && signal.reason instanceof RequestCancelledError)
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new RequestCancelledError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function backoffDelay(retry: number, baseDelayMs: number): number {
+  const exponential = baseDelayMs * Math.pow(2, retry - 1)
+  // Up to 20% jitter so parallel clients don't retry in lockstep
+  return exponential + Math.random() * exponential * 0.2
+}
+
+/**
+ * Pass the body through, aborting the attempt's controller when a read waits
+ * longer than idleMs for the next chunk; the read then fails with a
+ * RequestTimeoutError. Time the caller spends between reads does not count.
+ * onEnd runs once the body is finished, failed or cancelled.
+ */
+function watchIdle(response: Response, controller: AbortController, idleMs: number, onEnd: () => void): Response {
+  const reader = response.body!.getReader()
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const body = new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      timer = setTimeout(() => controller.abort(new RequestTimeoutError(idleMs, true)), idleMs)
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          stream.close()
+          onEnd()
+        } else {
+          stream.enqueue(value)
+        }
+      } catch (error) {
+        const reason = controller.signal.reason
+        stream.error(reason instanceof RequestTimeoutError ? reason : error)
+        onEnd()
+      } finally {
+        clearTimeout(timer)
+      }
+    },
+    cancel(reason) {
+      clearTimeout(timer)
+      onEnd()
+      return reader.cancel(reason)
+    }
+  }, { highWaterMark: 0 })
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers })
+}
+
+/**
+ * A single attempt: fetch with its own timeout, linked to the outer signal
+ */
+async function fetchAttempt(input: RequestInfo, init: RequestInit, timeoutMs: number, idleTimeoutMs: number, signal?: AbortSignal): Promise<Response> {
+  const controller = new AbortController()
+  let timedOut = false
+
+  const onAbort = () => controller.abort(signal?.reason)
+  const detach = () => signal?.removeEventListener('abort', onAbort)
+  signal?.addEventListener('abort', onAbort, { once: true })
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeoutMs)
+
+  try {
+    const response = await fetch(input, { ...init, signal: controller.signal })
+    if (!response.body) {
+      detach()
+      return response
+    }
+    // The abort listener stays attached until the body is done, so cancel() also stops reading it
+    return watchIdle(response, controller, idleTimeoutMs, detach)
+  } catch (error) {
+    detach()
+    if (signal?.aborted) throw new RequestCancelledError()
+    if (timedOut) throw new RequestTimeoutError(timeoutMs)
+    throw error
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * fetch() with timeout, cancellation and retry of transient failures
+ *
+ * Resolves with the first non-retryable response (including 4xx/5xx other
+ * than 502/503/504) so callers keep their own error handling.
+ */
+export async function fetchWithRetry(input: RequestInfo, init: RequestInit, options: RequestOptions = {}): Promise<Response> {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+    maxRetries = DEFAULT_MAX_RETRIES,
+    baseDelayMs = DEFAULT_BASE_DELAY_MS,
+    onAttempt
+  } = options
+  const maxAttempts = maxRetries + 1
+
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw new RequestCancelledError()
+    onAttempt?.(attempt, maxAttempts)
+
+    let response: Response | null = null
+    let failure: unknown = null
+    try {
+      response = await fetchAttempt(input, init, timeoutMs, idleTimeoutMs, signal)
+    } catch (error) {
+      // Cancellation and timeouts are final; fetch TypeErrors are network failures
+      if (error instanceof RequestCancelledError || error instanceof RequestTimeoutError) throw error
+      failure = error
+    }
+
+    const retryable = failure !== null || (response !== null && RETRYABLE_STATUS.has(response.status))
+    if (!retryable || attempt >= maxAttempts) {
+      if (response) return response
+      throw failure
+    }
+
+    // Free the connection of the dropped response before retrying
+    response?.body?.cancel().catch(() => {})
+    const delay = backoffDelay(attempt, baseDelayMs)
+    console.warn(`🔁 Attempt ${attempt}/${maxAttempts} failed (${response ? `HTTP ${response.status}` : (failure as Error)?.message}), retrying in ${Math.round(delay)}ms`)
+    await sleep(delay, signal)
+  }
+}
@@ -0,0 +1,361 @@
+/**
+ * Runtime validation for multi_agent_function responses
+ *
+ * The backend returns a loosely shaped object whose fields depend on the
+ * analysis that ran. validateCopilotResponse() checks every field we render,
+ * drops individual bad data points (NaN coordinates etc.) with a warning, and
+ * rejects payloads whose map artifacts are structurally broken so the UI can
+ * say so instead of drawing an empty map.
+ */
+import type {
+  Bounds,
+  CopilotResponse,
+  CopilotResponseBase,
+  DataPoint,
+  ExtremeRegion,
+  MapFrame,
+  MultiAgentResponse,
+  PointFeature,
+  PointFeatureCollection,
+  ResponseKind,
+  TileConfig,
+  TileDescriptor,
+  TimeSeries,
+  TimeSeriesPoint,
+  VariableInfo
+} from '../types'
+
+export class ResponseValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Malformed backend response: ${issues.join('; ')}`)
+    this.name = 'ResponseValidationError'
+    this.issues = issues
+  }
+}
+
+type RawObject = Record<string, any>
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value)
+}
+
+function optionalString(raw: RawObject, key: string, issues: string[]): string | undefined {
+  const value = raw[key]
+  if (value === undefined || value === null || value === '') return undefined
+  if (typeof value !== 'string') {
+    issues.push(`${key} must be a string, got ${typeof value}`)
+    return undefined
+  }
+  return value
+}
+
+function readBounds(value: unknown, label: string, warnings: string[]): Bounds | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!isObject(value)) {
+    warnings.push(`${label} ignored: not an object`)
+    return undefined
+  }
+  const { north, south, east, west } = value
+  if (![north, south, east, west].every(isFiniteNumber)) {
+    warnings.push(`${label} ignored: non-finite edge`)
+    return undefined
+  }
+  if (north <= south || west >= east) {
+    warnings.push(`${label} ignored: edges out of order`)
+    return undefined
+  }
+  return { north, south, east, west }
+}
+
+function readGeoJson(value: unknown, issues: string[], warnings: string[]): PointFeatureCollection | undefined {
+  if (value === undefined || value === null) return undefined
+  if (!isObject(value) || !Array.isArray(value.features)) {
+    issues.push('geojson must be a FeatureCollection with a features array')
+    return undefined
+  }
+
+  const features: PointFeature[] = []
+  value.features.forEach((f: any) => {
+    const lng = f?.geometry?.coordinates?.[0]
+    const lat = f?.geometry?.coordinates?.[1]
+    const props = isObject(f?.properties) ? f.properties : {}
+    const pointValue = props.value ?? props.spi ?? props.temperature
+    if (isFiniteNumber(lat) && isFiniteNumber(lng) && isFiniteNumber(pointValue)) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [lng, lat] },
+        properties: { ...props, value: pointValue }
+      })
+    }
+  })
+
+  if (features.length < value.features.length) {
+    warnings.push(`geojson: dropped ${value.features.length - features.length} of ${value.features.length} features with non-finite values`)
+  }
+  return { type: 'FeatureCollection', features }
+}
+
+function readDataPoints(value: unknown, issues: string[], warnings: string[]): DataPoint[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) {
+    issues.push('temperature_data must be an array')
+    return []
+  }
+
+  const points: DataPoint[] = []
+  value.forEach((p: any) => {
+    const pointValue = p?.value ?? p?.spi
+    if (isFiniteNumber(p?.latitude) && isFiniteNumber(p?.longitude) && isFiniteNumber(pointValue)) {
+      points.push({ ...p, value: pointValue })
+    }
+  })
+
+  if (points.length < value.length) {
+    warnings.push(`temperature_data: dropped ${value.length - points.length} of ${value.length} points with non-finite values`)
+  }
+  return points
+}
+
+function readExtremeRegions(raw: RawObject, warnings: string[]): ExtremeRegion[] | undefined {
+  const result = raw.analysis_data?.result
+  const candidates =
+    result?.regions ||
+    raw.regions ||
+    raw.extreme_regions ||
+    result?.significant_drought_regions ||
+    result?.significant_regions
+  if (!Array.isArray(candidates) || candidates.length === 0) return undefined
+
+  const regions: ExtremeRegion[] = []
+  candidates.forEach((p: any, idx: number) => {
+    const value = isFiniteNumber(p?.value) ? p.value : p?.spi_value
+    if (!isFiniteNumber(p?.latitude) || !isFiniteNumber(p?.longitude) || !isFiniteNumber(value)) return
+    regions.push({
+      latitude: p.latitude,
+      longitude: p.longitude,
+      value,
+      rank: isFiniteNumber(p.rank) ? p.rank : idx + 1,
+      severity: typeof p.severity === 'string' ? p.severity : undefined,
+      location: typeof p.location === 'string' ? p.location : `${p.latitude.toFixed(2)}, ${p.longitude.toFixed(2)}`
+    })
+  })
+
+  if (regions.length < candidates.length) {
+    warnings.push(`regions: dropped ${candidates.length - regions.length} of ${candidates.length} invalid entries`)
+  }
+  return regions.length > 0 ? regions : undefined
+}
+
+function readTileConfig(value: unknown, issues: string[], warnings: string[]): TileConfig | undefined {
+  if (!isObject(value) || typeof value.tile_url !== 'string' || !value.tile_url) {
+    issues.push('use_tiles is set but tile_config.tile_url is missing')
+    return undefined
+  }
+
+  let tileList: TileDescriptor[] | undefined
+  if (Array.isArray(value.tile_list)) {
+    tileList = value.tile_list.filter((t: any) => {
+      return typeof t?.url === 'string' && !!readBounds(t?.bounds, 'tile bounds', [])
+    })
+    if (tileList!.length < value.tile_list.length) {
+      warnings.push(`tile_config: dropped ${value.tile_list.length - tileList!.length} tiles without url or bounds`)
+    }
+  }
+
+  return {
+    ...value,
+    tile_url: value.tile_url,
+    tile_list: tileList,
+    region_bounds: readBounds(value.region_bounds, 'tile_config.region_bounds', warnings)
+  }
+}
+
+/**
+ * Dated frames from `frames`/`time_steps`, or a `{date}` tile template with
+ * tile_config.dates
+ */
+function readFrames(raw: RawObject, issues: string[], warnings: string[]): MapFrame[] | undefined {
+  const list = raw.frames ?? raw.time_steps ?? raw.tile_config?.frames
+  const template = raw.tile_config?.tile_url
+  const dates = raw.tile_config?.dates
+
+  let candidates: any[] | undefined
+  if (Array.isArray(list)) {
+    candidates = list
+  } else if (Array.isArray(dates) && typeof template === 'string' && template.includes('{date}')) {
+    candidates = dates.map((date: unknown) => ({ date, tile_url: template.replace('{date}', String(date)) }))
+  }
+  if (!candidates) return undefined
+
+  const frames: MapFrame[] = []
+  candidates.forEach((f: any) => {
+    const date = f?.date ?? f?.time
+    const geotiffUrl = typeof f?.geotiff_url === 'string' ? f.geotiff_url : undefined
+    const tileUrl = typeof f?.tile_url === 'string' ? f.tile_url : undefined
+    const url = typeof f?.url === 'string' ? f.url : undefined
+    if (typeof date !== 'string' || !(geotiffUrl || tileUrl || url)) return
+    frames.push({
+      date,
+      geotiff_url: geotiffUrl ?? (url && !url.includes('{z}') ? url : undefined),
+      tile_url: tileUrl ?? (url && url.includes('{z}') ? url : undefined)
+    })
+  })
+
+  if (frames.length === 0) {
+    issues.push('frames must contain at least one { date, geotiff_url | tile_url } entry')
+    return undefined
+  }
+  if (frames.length < candidates.length) {
+    warnings.push(`frames: dropped ${candidates.length - frames.length} of ${candidates.length} entries without date or url`)
+  }
+  return frames.sort((a, b) => Date.parse(a.date) - Date.parse(b.date))
+}
+
+/**
+ * Accepts { dates: [], values: [] } or [{ date|time, value }]
+ */
+function readTimeSeries(raw: RawObject, issues: string[]): TimeSeries | undefined {
+  const value = raw.timeseries ?? raw.time_series ?? raw.analysis_data?.result?.timeseries
+  if (value === undefined || value === null) return undefined
+
+  let points: TimeSeriesPoint[] | null = null
+  const series = Array.isArray(value) ? value : value.points ?? value.data
+  if (Array.isArray(series)) {
+    points = series.map((p: any) => ({
+      date: String(p?.date ?? p?.time ?? ''),
+      value: isFiniteNumber(p?.value) ? p.value : null
+    }))
+  } else if (isObject(value) && Array.isArray(value.dates) && Array.isArray(value.values)) {
+    points = value.dates.map((date: unknown, i: number) => ({
+      date: String(date),
+      value: isFiniteNumber(value.values[i]) ? value.values[i] : null
+    }))
+  }
+
+  if (!points || points.some(p => !p.date || isNaN(Date.parse(p.date)))) {
+    issues.push('timeseries must be a list of { date, value } or { dates, values } with parseable dates')
+    return undefined
+  }
+
+  const meta: RawObject = isObject(value) ? value : {}
+  return {
+    variable: String(meta.variable ?? raw.variable ?? ''),
+    unit: String(meta.unit ?? raw.variable_info?.unit ?? ''),
+    latitude: Number(meta.latitude ?? raw.latitude),
+    longitude: Number(meta.longitude ?? raw.longitude),
+    points
+  }
+}
+
+function readVariableInfo(value: unknown): VariableInfo | undefined {
+  if (!isObject(value) || typeof value.name !== 'string') return undefined
+  return {
+    name: value.name,
+    unit: typeof value.unit === 'string' ? value.unit : '',
+    displayName: typeof value.displayName === 'string' ? value.displayName : value.name
+  }
+}
+
+function readContent(raw: RawObject): string {
+  // Empty text falls through to the next field, as in the original response handling
+  const content = raw.content || raw.result || raw.response
+  // Structured content (objects) is rendered from analysis_data instead
+  return typeof content === 'string' ? content : ''
+}
+
+/**
+ * Pick the response kind from the artifacts present, most specific first
+ */
+function classify(base: CopilotResponseBase): ResponseKind {
+  if (base.use_tiles && base.tile_config) return 'tiles'
+  if (base.geotiff_url) return 'geotiff'
+  if (base.static_url || base.overlay_url) return 'static_image'
+  if (base.extreme_regions?.length) return 'extreme_regions'
+  if (base.geojson?.features.length || base.temperature_data.length) return 'points'
+  return 'text'
+}
+
+/**
+ * Validate a raw (already JSON-parsed) backend payload
+ * @throws ResponseValidationError when the payload cannot be rendered
+ */
+export function validateCopilotResponse(raw: unknown): CopilotResponse {
+  if (!isObject(raw)) {
+    throw new ResponseValidationError([`expected a JSON object, got ${Array.isArray(raw) ? 'array' : typeof raw}`])
+  }
+
+  const issues: string[] = []
+  const warnings: string[] = []
+
+  if (raw.status !== undefined && typeof raw.status !== 'string') {
+    issues.push('status must be a string')
+  }
+
+  const result = raw.analysis_data?.result
+  const geojson = readGeoJson(raw.geojson, issues, warnings)
+  const temperatureData = readDataPoints(raw.temperature_data, issues, warnings)
+  const frames = readFrames(raw, issues, warnings)
+  // Tile frames imply tile rendering even when the backend omits use_tiles
+  const tileFrames = !!frames?.[0]?.tile_url
+  const useTiles = raw.use_tiles === true || raw.use_tiles === 'true' || tileFrames
+  const tileConfigRaw = tileFrames ? { tile_url: frames![0].tile_url, ...raw.tile_config } : raw.tile_config
+  if (tileFrames && tileConfigRaw.tile_url?.includes('{date}')) {
+    tileConfigRaw.tile_url = frames![0].tile_url
+  }
+
+  const base: CopilotResponseBase = {
+    status: typeof raw.status === 'string' ? raw.status : 'success',
+    content: readContent(raw),
+    type: typeof raw.type === 'string' ? raw.type : 'azure_functions',
+    agent_id: optionalString(raw, 'agent_id', issues),
+    thread_id: optionalString(raw, 'thread_id', issues),
+    debug: raw.debug,
+    analysis_data: raw.analysis_data,
+    analysis_type: result?.analysis_type || raw.analysis_type || undefined,
+    variable:
+      result?.variable ||
+      raw.variable ||
+      temperatureData[0]?.variable ||
+      geojson?.features[0]?.properties.variable ||
+      undefined,
+    variable_info: readVariableInfo(raw.variable_info),
+    bounds: readBounds(raw.bounds, 'bounds', warnings),
+    map_config: isObject(raw.map_config) ? raw.map_config : undefined,
+    static_url: optionalString(raw, 'static_url', issues) || optionalString(raw, 'image_url', issues),
+    overlay_url: optionalString(raw, 'overlay_url', issues),
+    geotiff_url: optionalString(raw, 'geotiff_url', issues) || frames?.[0]?.geotiff_url,
+    colormap: raw.colormap,
+    geojson,
+    temperature_data: temperatureData,
+    extreme_regions: readExtremeRegions(raw, warnings),
+    use_tiles: useTiles,
+    tile_config: useTiles ? readTileConfig(tileConfigRaw, issues, warnings) : undefined,
+    frames,
+    timeseries: readTimeSeries(raw, issues),
+    warnings
+  }
+
+  if (issues.length > 0) {
+    throw new ResponseValidationError(issues)
+  }
+
+  if (warnings.length > 0) {
+    console.warn('⚠️ Response validation warnings:', warnings)
+  }
+
+  return { ...base, kind: classify(base) } as CopilotResponse
+}
+
+/**
+ * Accept either the flat Azure Functions payload or one wrapped in { response }
+ */
+export function toMultiAgentResponse(raw: unknown): MultiAgentResponse {
+  const inner = isObject(raw) && isObject(raw.response) ? raw.response : raw
+  return { response: validateCopilotResponse(inner) }
+}
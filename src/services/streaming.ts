@@ -0,0 +1,169 @@
+/**
+ * Stream readers for incremental multi_agent_function responses
+ *
+ * The backend may answer with Server-Sent Events (text/event-stream) or
+ * newline-delimited JSON (application/x-ndjson). Both are normalized into the
+ * same StreamEvent shape so the service layer doesn't care which one it got.
+ *
+ * SSE:    event: token\ndata: {"text": "Loading"}\n\n
+ * NDJSON: {"type": "token", "text": "Loading"}\n
+ */
+import { parseTolerantJson } from '../utils/tolerantJson'
+import type { AgentStep } from '../types'
+
+export type StreamEvent =
+  | { type: 'token', text: string }
+  | { type: 'step', step: AgentStep }
+  | { type: 'artifact', data: Record<string, any> }
+  | { type: 'final', data: Record<string, any> }
+  | { type: 'error', message: string }
+
+export type StreamFormat = 'sse' | 'ndjson'
+
+/**
+ * Detect a streaming body from the response content type
+ */
+export function getStreamFormat(contentType: string | null): StreamFormat | null {
+  if (!contentType) return null
+  if (contentType.includes('text/event-stream')) return 'sse'
+  if (contentType.includes('application/x-ndjson') || contentType.includes('application/jsonl')) return 'ndjson'
+  return null
+}
+
+/**
+ * Split a byte stream into text lines, handling chunks that cut lines in half
+ */
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '')
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+      }
+    }
+    buffer += decoder.decode()
+    if (buffer) yield buffer.replace(/\r$/, '')
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+function parsePayload(text: string): unknown {
+  try {
+    return parseTolerantJson(text)
+  } catch {
+    // Plain text data lines are treated as token text
+    return text
+  }
+}
+
+/**
+ * Object body of an artifact or final event: the `data`/`response` wrapper if
+ * it holds an object, else the event itself without its own `type` key
+ */
+function eventBody(data: Record<string, any>): Record<string, any> {
+  for (const wrapped of [data.data, data.response]) {
+    if (typeof wrapped === 'object' && wrapped !== null && !Array.isArray(wrapped)) return wrapped
+  }
+  const { type, ...rest } = data
+  return rest
+}
+
+/**
+ * Map a (type, payload) pair from either wire format onto a StreamEvent
+ */
+function toStreamEvent(type: string | undefined, payload: unknown): StreamEvent | null {
+  const data: Record<string, any> = typeof payload === 'object' && payload !== null ? payload as Record<string, any> : {}
+
+  switch (type) {
+    case 'token':
+    case 'delta':
+    case 'message': {
+      const text = typeof payload === 'string' ? payload : data.text ?? data.delta ?? data.content
+      return typeof text === 'string' ? { type: 'token', text } : null
+    }
+    case 'step':
+    case 'status': {
+      const label = typeof payload === 'string' ? payload : data.label ?? data.message ?? data.step
+      if (typeof label !== 'string') return null
+      return {
+        type: 'step',
+        step: {
+          id: String(data.id ?? data.step ?? label),
+          label,
+          status: data.status === 'done' || data.status === 'error' ? data.status : 'running'
+        }
+      }
+    }
+    case 'artifact':
+      return { type: 'artifact', data: eventBody(data) }
+    case 'final':
+    case 'result':
+    case 'done':
+      // A plain-text answer may come as a bare string payload
+      return { type: 'final', data: typeof payload === 'string' ? { content: payload } : eventBody(data) }
+    case 'error':
+      return { type: 'error', message: typeof payload === 'string' ? payload : data.message ?? data.error ?? 'Stream error' }
+    default:
+      return null
+  }
+}
+
+// One SSE event from its accumulated data lines
+function dispatchSse(eventType: string | undefined, dataLines: string[]): StreamEvent | null {
+  const payload = parsePayload(dataLines.join('\n'))
+  const type = eventType ?? (typeof payload === 'object' && payload !== null ? (payload as any).type : 'token')
+  return toStreamEvent(type, payload)
+}
+
+/**
+ * Read Server-Sent Events; the SSE "event" field is the event type
+ */
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  let eventType: string | undefined
+  let dataLines: string[] = []
+
+  for await (const line of readLines(body)) {
+    if (line === '') {
+      if (dataLines.length > 0) {
+        const event = dispatchSse(eventType, dataLines)
+        if (event) yield event
+      }
+      eventType = undefined
+      dataLines = []
+      continue
+    }
+    if (line.startsWith(':')) continue // comment / keep-alive
+    if (line.startsWith('event:')) eventType = line.slice(6).trim()
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).replace(/^ /, ''))
+  }
+
+  // A server may close right after its last data line, without the blank line
+  if (dataLines.length > 0) {
+    const event = dispatchSse(eventType, dataLines)
+    if (event) yield event
+  }
+}
+
+/**
+ * Read newline-delimited JSON; each line carries its own "type"
+ */
+export async function* readNdjsonEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamEvent> {
+  for await (const line of readLines(body)) {
+    if (!line.trim()) continue
+    const payload = parsePayload(line)
+    const type = typeof payload === 'object' && payload !== null ? (payload as any).type : 'token'
+    const event = toStreamEvent(type, payload)
+    if (event) yield event
+  }
+}
@@ -6,40 +6,315 @@ export interface MultiAgentRequest {
   }
 }
 
-export interface MultiAgentResponse {
-  response: {
-    status: string
-    content?: string
-    type?: string // 'azure_maps' or undefined
-    agent_id?: string
-    thread_id?: string
-    debug?: any
-    analysis_data?: any
-    result?: string | MapData
-    data?: any // Azure Maps JSON data when type === 'azure_maps'
+export interface Bounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface VariableInfo {
+  name: string
+  unit: string
+  displayName: string
+}
+
+export interface PointFeature {
+  type: 'Feature'
+  geometry: {
+    type: 'Point'
+    coordinates: [number, number]
+  }
+  properties: {
+    value?: number
+    spi?: number
+    variable?: string
+    unit?: string
+    [key: string]: any
   }
 }
 
+export interface PointFeatureCollection {
+  type: 'FeatureCollection'
+  features: PointFeature[]
+}
+
+export interface DataPoint {
+  latitude: number
+  longitude: number
+  value: number
+  variable?: string
+  unit?: string
+  location?: string
+}
+
+export interface ExtremeRegion {
+  latitude: number
+  longitude: number
+  value: number
+  rank: number
+  severity?: string
+  location: string
+}
+
+export interface TileDescriptor {
+  url: string
+  x?: number
+  y?: number
+  z?: number
+  bounds: Bounds
+}
+
+export interface TileConfig {
+  tile_url: string
+  tile_list?: TileDescriptor[]
+  tile_count?: number
+  tile_size?: number
+  min_zoom?: number
+  max_zoom?: number
+  region_bounds?: Bounds
+  color_scale?: any
+  variable?: string
+  date?: string
+}
+
+/**
+ * One dated step of a multi-date map result
+ */
+export interface MapFrame {
+  date: string
+  geotiff_url?: string
+  tile_url?: string
+}
+
+export interface TimeSeriesPoint {
+  date: string
+  value: number | null
+}
+
+/**
+ * Values of one variable at one location over time
+ */
+export interface TimeSeries {
+  variable: string
+  unit: string
+  latitude: number
+  longitude: number
+  points: TimeSeriesPoint[]
+}
+
+/**
+ * Discriminator for the kinds of payload multi_agent_function can return
+ */
+export type ResponseKind =
+  | 'text'
+  | 'geotiff'
+  | 'tiles'
+  | 'points'
+  | 'extreme_regions'
+  | 'static_image'
+
+/**
+ * Fields shared by every validated response kind
+ */
+export interface CopilotResponseBase {
+  status: string
+  content: string
+  type: string
+  agent_id?: string
+  thread_id?: string
+  debug?: any
+  analysis_data?: any
+  analysis_type?: string
+  variable?: string
+  variable_info?: VariableInfo
+  bounds?: Bounds
+  map_config?: { center?: [number, number], zoom?: number, [key: string]: any }
+  static_url?: string
+  overlay_url?: string
+  geotiff_url?: string
+  colormap?: any
+  geojson?: PointFeatureCollection
+  temperature_data: DataPoint[]
+  extreme_regions?: ExtremeRegion[]
+  use_tiles?: boolean
+  tile_config?: TileConfig
+  /** Dated GeoTIFFs or tile templates for animated results */
+  frames?: MapFrame[]
+  timeseries?: TimeSeries
+  /** Non-fatal problems found while validating, e.g. dropped NaN points */
+  warnings: string[]
+}
+
+export interface TextResponse extends CopilotResponseBase {
+  kind: 'text'
+}
+
+export interface GeoTiffResponse extends CopilotResponseBase {
+  kind: 'geotiff'
+  geotiff_url: string
+}
+
+export interface TilesResponse extends CopilotResponseBase {
+  kind: 'tiles'
+  use_tiles: true
+  tile_config: TileConfig
+}
+
+export interface PointsResponse extends CopilotResponseBase {
+  kind: 'points'
+  geojson: PointFeatureCollection
+}
+
+export interface ExtremeRegionsResponse extends CopilotResponseBase {
+  kind: 'extreme_regions'
+  extreme_regions: ExtremeRegion[]
+}
+
+export interface StaticImageResponse extends CopilotResponseBase {
+  kind: 'static_image'
+  static_url: string
+}
+
+export type CopilotResponse =
+  | TextResponse
+  | GeoTiffResponse
+  | TilesResponse
+  | PointsResponse
+  | ExtremeRegionsResponse
+  | StaticImageResponse
+
+export interface MultiAgentResponse {
+  response: CopilotResponse
+}
+
+/**
+ * Everything AzureMapView needs to render one result
+ */
+export interface AzureData {
+  kind: ResponseKind
+  geotiff_url?: string
+  static_url?: string
+  overlay_url?: string
+  geojson?: PointFeatureCollection
+  temperature_data?: DataPoint[]
+  variable_info?: VariableInfo
+  bounds?: Bounds | null
+  extreme_regions?: ExtremeRegion[]
+  analysis_type?: string
+  use_tiles?: boolean
+  tile_config?: TileConfig
+  frames?: MapFrame[]
+  colormap?: any
+  data_type?: string
+  map_config?: any
+  raw_response?: any
+}
+
+/**
+ * Camera of an interactive map, as reported by atlas.Map.getCamera()
+ */
+export interface CameraState {
+  center: [number, number]
+  zoom: number
+  bearing?: number
+  pitch?: number
+}
+
 export interface MapData {
   map_url: string
-  bounds?: {
-    north: number
-    south: number
-    east: number
-    west: number
-  }
+  bounds?: Bounds
   center?: {
     lat: number
     lng: number
   }
   zoom?: number
-  azureData?: any // Azure Maps specific data from backend
+  /** Saved camera; takes precedence over bounds-based fitting when present */
+  camera?: CameraState
+  azureData?: AzureData
+}
+
+/**
+ * Intermediate agent progress reported while a response streams in
+ */
+export interface AgentStep {
+  id: string
+  label: string
+  status: 'running' | 'done' | 'error'
+}
+
+export type RegionShape = 'rectangle' | 'polygon' | 'circle'
+
+/**
+ * An area drawn on a map to scope a question, e.g. "our study basin"
+ */
+export interface DrawnRegion {
+  id: string
+  /** Set once the user saves the region for reuse */
+  name?: string
+  shape: RegionShape
+  /** Closed WGS84 outline [lon, lat]; circles are approximated by a polygon */
+  ring: [number, number][]
+  /** Circles only */
+  center?: [number, number]
+  radiusMeters?: number
+  createdAt: number
+}
+
+export type PlaceKind = 'state' | 'county' | 'city' | 'huc2' | 'huc4'
+
+/**
+ * A named place from the offline gazetteer
+ */
+export interface Place {
+  /** Stable key, e.g. 'county:24031' or 'huc:0207' */
+  id: string
+  name: string
+  kind: PlaceKind
+  /** Unambiguous display text, e.g. "Springfield, IL" */
+  label: string
+  /** USPS code of the state, for everything but basins */
+  state?: string
+  /** State/county FIPS or HUC code */
+  code?: string
+  population?: number
+  bounds: Bounds
 }
 
 export interface Message {
   id: string
   role: 'user' | 'assistant'
   text?: string
+  /** Region the question was scoped to */
+  region?: DrawnRegion
+  /** Places resolved from the question */
+  places?: Place[]
   imageUrl?: string
   mapData?: MapData
-}
\ No newline at end of file
+  steps?: AgentStep[]
+  streaming?: boolean
+  /** Request attempts so far, shown when a transient failure was retried */
+  attempt?: {
+    current: number
+    max: number
+  }
+}
+
+/**
+ * A named conversation, linked to a backend thread once the server replies
+ */
+export interface ConversationThread {
+  /** Client-side id, stable before the server assigns a thread */
+  id: string
+  name: string
+  /** True once the user renamed the thread, so it is no longer auto-named */
+  customName?: boolean
+  threadId?: string
+  agentId?: string
+  messages: Message[]
+  /** Imported from a bundle: rendered from bundled data, no new queries */
+  readOnly?: boolean
+  importedAt?: number
+  createdAt: number
+  updatedAt: number
+}
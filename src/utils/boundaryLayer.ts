@@ -0,0 +1,148 @@
+/**
+ * Clickable state or county outlines, to pick a reference region on a map
+ *
+ * Outlines come from the Census cartographic boundaries (1:10m) packaged in
+ * us-atlas and are loaded on first use. Only those overlapping the raster
+ * are shown.
+ */
+import * as atlas from 'azure-maps-control'
+import { feature } from 'topojson-client'
+import type { PolygonRings, ZonalRegion } from './zonalStats'
+
+export type BoundaryLevel = 'states' | 'counties'
+
+export interface BoundaryFeature extends ZonalRegion {
+  /** west, south, east, north */
+  bbox: [number, number, number, number]
+}
+
+const OUTLINE_COLOR = '#f59e0b'
+
+const loaded = new Map<BoundaryLevel, Promise<BoundaryFeature[]>>()
+
+function polygonsOf(geometry: any): PolygonRings[] {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates]
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates
+  return []
+}
+
+function bboxOf(polygons: PolygonRings[]): [number, number, number, number] {
+  const points = polygons.flatMap(rings => rings[0] ?? [])
+  const lons = points.map(p => p[0])
+  const lats = points.map(p => p[1])
+  return [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)]
+}
+
+// " County", " Parish", " city" (independent cities, FIPS 510 and up), or nothing in Alaska
+function countySuffix(fips: string): string {
+  const state = fips.slice(0, 2)
+  if (state === '02') return ''
+  if (state === '22') return ' Parish'
+  return ['24', '29', '32', '51'].includes(state) && Number(fips.slice(2)) >= 500 ? ' city' : ' County'
+}
+
+/**
+ * Every state or county as a zone, labelled "Montgomery County, Maryland"
+ */
+export function loadBoundaries(level: BoundaryLevel): Promise<BoundaryFeature[]> {
+  let boundaries = loaded.get(level)
+  if (!boundaries) {
+    const source = level === 'states' ? import('us-atlas/states-10m.json') : import('us-atlas/counties-10m.json')
+    boundaries = source.then(module => {
+      const topology = (module.default ?? module) as any
+      const features = (name: string): any[] => (feature(topology, topology.objects[name]) as any).features
+      const stateNames = new Map<string, string>(
+        features('states').map((f: any) => [String(f.id), f.properties.name])
+      )
+      return features(level).flatMap((f: any) => {
+        const polygons = polygonsOf(f.geometry)
+        if (polygons.length === 0) return []
+        const id = String(f.id)
+        const label = level === 'states' ? f.properties.name : `${f.properties.name}${countySuffix(id)}, ${stateNames.get(id.slice(0, 2)) ?? ''}`
+        return [{ id: `${level}:${id}`, label, polygons, bbox: bboxOf(polygons) }]
+      })
+    })
+    boundaries.catch(() => loaded.delete(level))
+    loaded.set(level, boundaries)
+  }
+  return boundaries
+}
+
+export interface BoundaryPickerOptions {
+  onPick: (boundary: BoundaryFeature) => void
+}
+
+export class BoundaryPicker {
+  private readonly map: any
+  private readonly options: BoundaryPickerOptions
+  private readonly source: any
+  private readonly fill: any
+  private readonly layers: any[]
+  private features = new Map<string, BoundaryFeature>()
+  private level: BoundaryLevel | null = null
+  private readonly onClick = (e: any) => {
+    const id = e.shapes?.[0]?.getProperties?.().id ?? e.shapes?.[0]?.properties?.id
+    const picked = id ? this.features.get(id) : undefined
+    if (picked) {
+      this.select(picked.id)
+      this.options.onPick(picked)
+    }
+  }
+
+  constructor(map: any, options: BoundaryPickerOptions) {
+    this.map = map
+    this.options = options
+    this.source = new (atlas as any).source.DataSource()
+    map.sources.add(this.source)
+    // A transparent fill catches clicks inside the outlines
+    this.fill = new (atlas as any).layer.PolygonLayer(this.source, undefined, { fillColor: OUTLINE_COLOR, fillOpacity: 0 })
+    this.layers = [
+      this.fill,
+      new (atlas as any).layer.LineLayer(this.source, undefined, { strokeColor: OUTLINE_COLOR, strokeWidth: 1 })
+    ]
+    map.layers.add(this.layers, 'labels')
+    map.events.add('click', this.fill, this.onClick)
+  }
+
+  /** Outlines are shown and clicks pick a boundary */
+  get active(): boolean {
+    return this.level !== null
+  }
+
+  /**
+   * Show the outlines overlapping a bbox (west, south, east, north), or hide them
+   */
+  async show(level: BoundaryLevel | null, within?: [number, number, number, number]): Promise<void> {
+    this.level = level
+    if (!level) {
+      this.source.clear()
+      this.features.clear()
+      return
+    }
+    const all = await loadBoundaries(level)
+    if (this.level !== level) return
+    const visible = within
+      ? all.filter(b => b.bbox[0] <= within[2] && b.bbox[2] >= within[0] && b.bbox[1] <= within[3] && b.bbox[3] >= within[1])
+      : all
+    this.features = new Map(visible.map(b => [b.id, b]))
+    this.source.setShapes(visible.map(b => new (atlas as any).data.Feature(
+      new (atlas as any).data.MultiPolygon(b.polygons),
+      { id: b.id, name: b.label }
+    )))
+  }
+
+  /** Shade the picked boundary */
+  select(id: string | null): void {
+    this.fill.setOptions({ fillOpacity: ['case', ['==', ['get', 'id'], id ?? ''], 0.25, 0] })
+  }
+
+  dispose(): void {
+    try {
+      this.map.events.remove('click', this.fill, this.onClick)
+      this.map.layers.remove(this.layers)
+      this.map.sources.remove(this.source)
+    } catch {
+      // The map may already be disposed
+    }
+  }
+}
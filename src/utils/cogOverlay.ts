@@ -0,0 +1,133 @@
+/**
+ * Viewport-limited display of a Cloud-Optimized GeoTIFF
+ *
+ * Instead of downloading the whole file, each settled camera reads the
+ * overview that matches the zoom and only the internal tiles under the view
+ * (HTTP range requests, in the worker pool). One ImageLayer is re-pointed at
+ * the latest window. The value range is fixed from the first, whole-extent
+ * read so colors don't shift while panning; restyling recomputes it from the
+ * current view.
+ */
+import * as atlas from 'azure-maps-control'
+import {
+  releaseImageUrl,
+  renderGeoTiffWindow,
+  type BandScope,
+  type CogInfo,
+  type ProgressCallback,
+  type RenderedGeoTiff,
+  type Resampling
+} from './geotiffLoader'
+import type { Stretch, ValueRange } from './colorScale'
+
+export interface CogOverlayOptions {
+  variable: string
+  colormap?: any
+  stretch?: Stretch
+  resampling?: Resampling
+  band?: number
+  bandScope?: BandScope
+  opacity?: number
+  onProgress?: ProgressCallback
+  /** A new window is on the map */
+  onRendered?: (rendered: RenderedGeoTiff) => void
+  onError?: (error: Error) => void
+}
+
+export class CogOverlay {
+  private readonly map: any
+  private readonly url: string
+  private readonly info: CogInfo
+  private readonly options: CogOverlayOptions
+  private imageLayer: any = null
+  private shown: RenderedGeoTiff | null = null
+  private range: ValueRange | null = null
+  private seq = 0
+  private disposed = false
+  private readonly onMoveEnd = () => this.refresh()
+
+  constructor(map: any, url: string, info: CogInfo, options: CogOverlayOptions) {
+    this.map = map
+    this.url = url
+    this.info = info
+    this.options = { opacity: 0.75, ...options }
+  }
+
+  /**
+   * Draw the current view and follow the camera from now on
+   */
+  start(fitCamera: boolean): void {
+    if (fitCamera) {
+      this.map.setCamera({ bounds: this.info.bbox, padding: 40 })
+    }
+    this.map.events.add('moveend', this.onMoveEnd)
+    this.refresh()
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.disposed) return
+    const seq = ++this.seq
+    const container: HTMLElement = this.map.getMapContainer()
+    const viewport = {
+      bounds: this.map.getCamera().bounds as [number, number, number, number],
+      width: container.clientWidth || 1,
+      height: container.clientHeight || 1
+    }
+    const { variable, colormap, stretch, resampling, band, bandScope } = this.options
+    const style = { variable, colormap, resampling, band, bandScope, ...(this.range ? { range: this.range } : { stretch }) }
+
+    let rendered: RenderedGeoTiff | null
+    try {
+      rendered = await renderGeoTiffWindow(this.url, viewport, style, this.options.onProgress)
+    } catch (error: any) {
+      if (!this.disposed && seq === this.seq) this.options.onError?.(error)
+      return
+    }
+    // The camera moved again while this window was loading
+    if (this.disposed || seq !== this.seq) {
+      releaseImageUrl(rendered?.imageUrl)
+      return
+    }
+    if (!rendered) return
+
+    this.range = rendered.scale?.range ?? null
+    if (!this.imageLayer) {
+      this.imageLayer = new (atlas as any).layer.ImageLayer({
+        url: rendered.imageUrl,
+        coordinates: rendered.corners,
+        opacity: this.options.opacity
+      })
+      try {
+        this.map.layers.add(this.imageLayer, 'labels')
+      } catch {
+        this.map.layers.add(this.imageLayer)
+      }
+    } else {
+      this.imageLayer.setOptions({ url: rendered.imageUrl, coordinates: rendered.corners })
+    }
+    releaseImageUrl(this.shown?.imageUrl)
+    this.shown = rendered
+    this.options.onRendered?.(rendered)
+  }
+
+  /**
+   * Re-read the current view with another palette, stretch, resampling or band
+   */
+  restyle(style: Pick<CogOverlayOptions, 'colormap' | 'stretch' | 'resampling' | 'band' | 'bandScope'>): void {
+    Object.assign(this.options, style)
+    this.range = null
+    this.refresh()
+  }
+
+  dispose(): void {
+    this.disposed = true
+    try {
+      this.map.events.remove('moveend', this.onMoveEnd)
+      if (this.imageLayer) this.map.layers.remove(this.imageLayer)
+    } catch {
+      // The map may already be disposed
+    }
+    releaseImageUrl(this.shown?.imageUrl)
+    this.shown = null
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Color scales shared by raster colorization, point layers and legends
+ *
+ * A ColorScale is exactly what a layer was colored with: a value range plus
+ * either gradient stops (evenly spaced over the range) or discrete class bins.
+ * Legends draw from the same object, so they always match the map.
+ */
+import type { TileConfig } from '../types'
+import { resolveColormap } from './colormaps'
+
+export type RGB = [number, number, number]
+
+export interface ValueRange {
+  min: number
+  max: number
+}
+
+export interface ColorClass {
+  /** Inclusive lower bound */
+  min: number
+  /** Exclusive upper bound */
+  max: number
+  color: RGB
+  label: string
+}
+
+export interface ColorScale {
+  range: ValueRange | null
+  /** Gradient stops, evenly spaced from range.min to range.max */
+  colors: RGB[]
+  /** Discrete bins; when present values are binned instead of interpolated */
+  classes: ColorClass[] | null
+  /** Registered palette the stops come from; null for backend-defined colors */
+  palette: string | null
+}
+
+/**
+ * How a layer's values map onto its color range
+ * - minmax: the data's own min/max
+ * - percentile: clip to the lower/upper percentiles (2-98% by default)
+ * - symmetric: ±max(|min|, |max|), centering diverging palettes on zero
+ * - fixed: user-entered min/max
+ */
+export type StretchMode = 'minmax' | 'percentile' | 'symmetric' | 'fixed'
+
+export interface Stretch {
+  mode: StretchMode
+  min?: number
+  max?: number
+  lowerPercentile?: number
+  upperPercentile?: number
+}
+
+/** A fixed range shared by every map of one variable */
+export interface ScaleLock {
+  variable: string
+  min: number
+  max: number
+}
+
+// Alpha of colorized raster pixels (80% opacity)
+export const RASTER_ALPHA = 204
+
+// Anomaly-style variables are centered on zero unless the user says otherwise
+// (SPI/SPEI as whole words; evapotranspiration is strictly positive)
+const SYMMETRIC_VARIABLES = /(^|[^a-z])(spi|spei)([^a-z]|$)|anomal/
+
+/**
+ * Min/max of the finite values, or null when there are none
+ */
+export function valueRange(values: ArrayLike<number>): ValueRange | null {
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < values.length; i++) {
+    if (isFinite(values[i])) {
+      min = Math.min(min, values[i])
+      max = Math.max(max, values[i])
+    }
+  }
+  return min <= max ? { min, max } : null
+}
+
+function percentileRange(values: ArrayLike<number>, lower: number, upper: number): ValueRange | null {
+  let count = 0
+  for (let i = 0; i < values.length; i++) if (isFinite(values[i])) count++
+  if (count === 0) return null
+  const sorted = new Float64Array(count)
+  for (let i = 0, j = 0; i < values.length; i++) if (isFinite(values[i])) sorted[j++] = values[i]
+  sorted.sort()
+  const at = (p: number) => sorted[Math.min(count - 1, Math.max(0, Math.round((p / 100) * (count - 1))))]
+  return { min: at(lower), max: at(upper) }
+}
+
+/**
+ * Color range of the values under a stretch
+ */
+export function stretchRange(values: ArrayLike<number>, stretch: Stretch): ValueRange | null {
+  switch (stretch.mode) {
+    case 'fixed':
+      if (isFinite(stretch.min!) && isFinite(stretch.max!) && stretch.min! < stretch.max!) {
+        return { min: stretch.min!, max: stretch.max! }
+      }
+      return valueRange(values)
+    case 'percentile':
+      return percentileRange(values, stretch.lowerPercentile ?? 2, stretch.upperPercentile ?? 98)
+    case 'symmetric': {
+      const range = valueRange(values)
+      if (!range) return null
+      const extent = Math.max(Math.abs(range.min), Math.abs(range.max)) || 1
+      return { min: -extent, max: extent }
+    }
+    default:
+      return valueRange(values)
+  }
+}
+
+export function defaultStretch(variable: string): Stretch {
+  return { mode: SYMMETRIC_VARIABLES.test(variable.toLowerCase()) ? 'symmetric' : 'minmax' }
+}
+
+/**
+ * Parse '#rgb', '#rrggbb', 'rgb(r, g, b)' or [r, g, b]
+ */
+export function toRgb(color: unknown): RGB | null {
+  if (Array.isArray(color) && color.length >= 3 && color.slice(0, 3).every(c => typeof c === 'number')) {
+    // Matplotlib-style 0-1 floats or 0-255 ints
+    const scale = color.slice(0, 3).every(c => c <= 1) ? 255 : 1
+    return color.slice(0, 3).map(c => Math.round(c * scale)) as RGB
+  }
+  if (typeof color !== 'string') return null
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1]
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as RGB
+  }
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i)
+  return rgb ? [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])] : null
+}
+
+export function rgbCss([r, g, b]: RGB): string {
+  return `rgb(${r}, ${g}, ${b})`
+}
+
+/**
+ * Color at t (0-1) along evenly spaced stops
+ */
+export function interpolateColor(colors: RGB[], t: number): RGB {
+  if (colors.length === 1) return colors[0]
+  const position = Math.min(1, Math.max(0, t)) * (colors.length - 1)
+  const i = Math.min(Math.floor(position), colors.length - 2)
+  const f = position - i
+  const [a, b] = [colors[i], colors[i + 1]]
+  return [0, 1, 2].map(c => Math.floor(a[c] + (b[c] - a[c]) * f)) as RGB
+}
+
+function formatBound(value: number): string {
+  return Number(value.toPrecision(3)).toString()
+}
+
+/**
+ * Class bins from a backend colormap: either `{ classes: [{min, max, color, label}] }`
+ * or boundary-norm style `{ bins: [b0, ..., bn], colors: [c1, ..., cn], labels? }`
+ */
+export function parseColorClasses(spec: any): ColorClass[] | null {
+  if (!spec || typeof spec !== 'object') return null
+
+  if (Array.isArray(spec.classes)) {
+    const classes = spec.classes
+      .map((c: any) => {
+        const color = toRgb(c?.color)
+        const min = typeof c?.min === 'number' ? c.min : -Infinity
+        const max = typeof c?.max === 'number' ? c.max : Infinity
+        return color && { min, max, color, label: String(c.label ?? `${formatBound(min)} – ${formatBound(max)}`) }
+      })
+      .filter(Boolean) as ColorClass[]
+    return classes.length > 0 ? classes : null
+  }
+
+  const bins = spec.bins || spec.boundaries
+  if (Array.isArray(bins) && Array.isArray(spec.colors) && spec.colors.length === bins.length - 1) {
+    const classes: ColorClass[] = []
+    for (let i = 0; i < spec.colors.length; i++) {
+      const color = toRgb(spec.colors[i])
+      if (!color) return null
+      const [min, max] = [Number(bins[i]), Number(bins[i + 1])]
+      classes.push({ min, max, color, label: String(spec.labels?.[i] ?? `${formatBound(min)} – ${formatBound(max)}`) })
+    }
+    return classes
+  }
+  return null
+}
+
+export function paletteColors(hexColors: string[]): RGB[] {
+  return hexColors.map(toRgb).filter((c): c is RGB => c !== null)
+}
+
+/**
+ * The scale a layer is colored with: backend classes or explicit colors when
+ * the colormap carries them, otherwise a registered palette (named by the
+ * backend or the variable's default)
+ */
+export function buildColorScale(variable: string, colormap: any, range: ValueRange | null): ColorScale {
+  const classes = parseColorClasses(colormap)
+  if (classes) {
+    return { range, colors: classes.map(c => c.color), classes, palette: null }
+  }
+  const customColors = Array.isArray(colormap?.colors)
+    ? (colormap.colors as unknown[]).map(toRgb).filter((c): c is RGB => c !== null)
+    : []
+  if (customColors.length >= 2) {
+    return { range, colors: customColors, classes: null, palette: null }
+  }
+  const palette = resolveColormap(variable, colormap)
+  return { range, colors: paletteColors(palette.colors), classes: null, palette: palette.name }
+}
+
+/**
+ * Legend scale for server-rendered tiles, from `tile_config.color_scale`
+ * (`{min|vmin, max|vmax, colors?|colormap?}` or class bins); null when it says nothing usable
+ */
+export function tileColorScale(tileConfig: TileConfig | undefined, variable: string): ColorScale | null {
+  const spec = tileConfig?.color_scale
+  if (!spec || typeof spec !== 'object') return null
+  const min = Number(spec.min ?? spec.vmin)
+  const max = Number(spec.max ?? spec.vmax)
+  const range = isFinite(min) && isFinite(max) ? { min, max } : null
+  // Classes/colors live on the spec itself; a palette may be named as `colormap` or `cmap`
+  const colormap = parseColorClasses(spec) || Array.isArray(spec.colors) ? spec : (spec.colormap ?? spec.cmap ?? spec)
+  const scale = buildColorScale(variable, colormap, range)
+  return scale.range || scale.classes ? scale : null
+}
+
+/**
+ * Color of a value, or null for NoData and values outside every class
+ */
+export function colorForValue(scale: ColorScale, value: number): RGB | null {
+  if (!isFinite(value)) return null
+  if (scale.classes) {
+    const match = scale.classes.find(c => value >= c.min && value < c.max)
+      // The top bin includes its upper bound
+      || scale.classes.find(c => value === c.max)
+    return match ? match.color : null
+  }
+  const range = scale.range || { min: 0, max: 1 }
+  const span = range.max - range.min || 1
+  return interpolateColor(scale.colors, (value - range.min) / span)
+}
+
+/**
+ * CSS linear-gradient of the scale's stops
+ */
+export function gradientCss(colors: RGB[], direction: string = 'to right'): string {
+  const stops = colors.map((c, i) => `${rgbCss(c)} ${(i / Math.max(1, colors.length - 1)) * 100}%`)
+  return `linear-gradient(${direction}, ${stops.join(', ')})`
+}
+
+/**
+ * Azure Maps data-driven color expression for a feature property
+ */
+export function colorExpression(scale: ColorScale, property: string = 'value'): any {
+  const value = ['to-number', ['get', property], 0]
+  if (scale.classes) {
+    const [first, ...rest] = scale.classes
+    return ['step', value, rgbCss(first.color), ...rest.flatMap(c => [c.min, rgbCss(c.color)])]
+  }
+  const range = scale.range || { min: 0, max: 1 }
+  const span = range.max - range.min || 1
+  const stops = scale.colors.flatMap((c, i) => [range.min + (i / Math.max(1, scale.colors.length - 1)) * span, rgbCss(c)])
+  return scale.colors.length === 1 ? rgbCss(scale.colors[0]) : ['interpolate', ['linear'], value, ...stops]
+}
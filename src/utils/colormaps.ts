@@ -0,0 +1,86 @@
+/**
+ * Named colormap registry
+ *
+ * Palettes follow matplotlib/ColorBrewer names so the backend `colormap`
+ * field ("viridis", "BrBG", "RdYlBu_r", ...) resolves directly. A trailing
+ * "_r" reverses any palette. Colors are evenly spaced hex stops.
+ */
+
+export type ColormapKind = 'sequential' | 'diverging'
+
+export interface ColormapDefinition {
+  name: string
+  label: string
+  kind: ColormapKind
+  colors: string[]
+}
+
+export const COLORMAPS: ColormapDefinition[] = [
+  // Perceptually uniform sequential
+  { name: 'viridis', label: 'Viridis', kind: 'sequential', colors: ['#440154', '#472d7b', '#3b528b', '#2c728e', '#21918c', '#28ae80', '#5ec962', '#addc30', '#fde725'] },
+  { name: 'cividis', label: 'Cividis', kind: 'sequential', colors: ['#00224e', '#123570', '#3b496c', '#575d6d', '#707173', '#8a8678', '#a59c74', '#c3b369', '#fee838'] },
+  { name: 'magma', label: 'Magma', kind: 'sequential', colors: ['#000004', '#1c1044', '#4f127b', '#812581', '#b5367a', '#e55964', '#fb8761', '#fec287', '#fcfdbf'] },
+  { name: 'plasma', label: 'Plasma', kind: 'sequential', colors: ['#0d0887', '#4c02a1', '#7e03a8', '#a92395', '#cc4778', '#e56b5d', '#f89441', '#fdc328', '#f0f921'] },
+  // ColorBrewer sequential
+  { name: 'blues', label: 'Blues', kind: 'sequential', colors: ['#f7fbff', '#deebf7', '#c6dbef', '#9ecae1', '#6baed6', '#4292c6', '#2171b5', '#08519c', '#08306b'] },
+  { name: 'ylgnbu', label: 'Yellow-Green-Blue', kind: 'sequential', colors: ['#ffffd9', '#edf8b1', '#c7e9b4', '#7fcdbb', '#41b6c4', '#1d91c0', '#225ea8', '#253494', '#081d58'] },
+  { name: 'greens', label: 'Greens', kind: 'sequential', colors: ['#f7fcf5', '#e5f5e0', '#c7e9c0', '#a1d99b', '#74c476', '#41ab5d', '#238b45', '#006d2c', '#00441b'] },
+  { name: 'reds', label: 'Reds', kind: 'sequential', colors: ['#fff5f0', '#fee0d2', '#fcbba1', '#fc9272', '#fb6a4a', '#ef3b2c', '#cb181d', '#a50f15', '#67000d'] },
+  // Diverging
+  { name: 'brbg', label: 'Brown-Blue-Green', kind: 'diverging', colors: ['#543005', '#8c510a', '#bf812d', '#dfc27d', '#f6e8c3', '#f5f5f5', '#c7eae5', '#80cdc1', '#35978f', '#01665e', '#003c30'] },
+  { name: 'rdbu', label: 'Red-Blue', kind: 'diverging', colors: ['#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7', '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061'] },
+  { name: 'rdylbu', label: 'Red-Yellow-Blue', kind: 'diverging', colors: ['#a50026', '#d73027', '#f46d43', '#fdae61', '#fee090', '#ffffbf', '#e0f3f8', '#abd9e9', '#74add1', '#4575b4', '#313695'] },
+  { name: 'coolwarm', label: 'Cool-Warm', kind: 'diverging', colors: ['#3b4cc0', '#6788ee', '#9abbff', '#c9d7f0', '#edd1c2', '#f7a889', '#e26952', '#b40426'] }
+]
+
+// Palette per variable family, matched on the lowercased variable name (SPI
+// and SPEI as whole words, so transpiration still gets greens)
+const VARIABLE_DEFAULTS: Array<[RegExp, string]> = [
+  [/(^|[^a-z])(spi|spei)([^a-z]|$)|drought|anomal/, 'brbg'],
+  [/precip|rain/, 'blues'],
+  [/temp|tair/, 'rdylbu_r'],
+  [/soil|moist|humid/, 'ylgnbu'],
+  [/evap|transpir|veg|ndvi/, 'greens']
+]
+
+const FALLBACK_COLORMAP = 'viridis'
+
+/**
+ * Look up a palette by name (case-insensitive, "_r" reverses it)
+ */
+export function findColormap(name: string): ColormapDefinition | null {
+  const key = name.trim().toLowerCase()
+  const reversed = key.endsWith('_r')
+  const base = COLORMAPS.find(c => c.name === (reversed ? key.slice(0, -2) : key))
+  if (!base) return null
+  return reversed
+    ? { ...base, name: key, label: `${base.label} (reversed)`, colors: [...base.colors].reverse() }
+    : base
+}
+
+export function defaultColormapName(variable: string): string {
+  const name = variable.toLowerCase()
+  return VARIABLE_DEFAULTS.find(([pattern]) => pattern.test(name))?.[1] || FALLBACK_COLORMAP
+}
+
+/**
+ * Palette name carried by a backend colormap value: a bare name or `{ name }`
+ */
+export function colormapNameOf(colormap: unknown): string | null {
+  if (typeof colormap === 'string') return colormap
+  const name = (colormap as any)?.name
+  return typeof name === 'string' ? name : null
+}
+
+/**
+ * Registered palette for a layer: the backend's choice when it names a known
+ * palette, otherwise the variable's default
+ */
+export function resolveColormap(variable: string, colormap: unknown): ColormapDefinition {
+  const requested = colormapNameOf(colormap)
+  const found = requested ? findColormap(requested) : null
+  if (requested && !found) {
+    console.warn(`⚠️ Unknown colormap "${requested}", using the ${variable} default`)
+  }
+  return found || findColormap(defaultColormapName(variable))!
+}
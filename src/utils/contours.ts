@@ -0,0 +1,337 @@
+/**
+ * Contour lines and filled isobands from a decoded raster (marching squares)
+ *
+ * Contours run on the source grid, downsampled to at most MAX_CONTOUR_GRID
+ * cells a side, between pixel centers. NoData cells get no lines; isobands
+ * treat NoData and the outside of the raster as below every level so the
+ * bands stop at the data's edge. Vertices are placed in pixel coordinates and
+ * handed to a locator that turns them into WGS84.
+ */
+import type { ValueRange } from './colorScale'
+
+export type ContourMode = 'lines' | 'bands' | 'both'
+
+/** Fractional source pixel (0, 0 = top-left corner of the raster) to [lon, lat] */
+export type PixelLocator = (col: number, row: number) => [number, number]
+
+export interface ContourGrid {
+  width: number
+  height: number
+  values: ArrayLike<number>
+}
+
+export interface ContourLineProperties {
+  value: number
+  label: string
+}
+
+export interface ContourBandProperties {
+  /** Lower bound (inclusive); null for the open band below the first level */
+  min: number | null
+  /** Upper bound (exclusive); null for the open band above the last level */
+  max: number | null
+  label: string
+}
+
+export interface ContourFeatureCollection<P> {
+  type: 'FeatureCollection'
+  features: Array<{
+    type: 'Feature'
+    geometry: { type: 'LineString' | 'Polygon'; coordinates: any }
+    properties: P
+  }>
+}
+
+// Largest side of the grid that is contoured; bigger rasters are subsampled
+const MAX_CONTOUR_GRID = 512
+// More levels than this is almost certainly a typo in the interval
+export const MAX_CONTOUR_LEVELS = 200
+
+type Point = [number, number]
+
+/**
+ * Levels base + k·interval inside the range
+ */
+export function contourLevels(range: ValueRange, interval: number, base: number = 0): number[] {
+  if (!(interval > 0) || !isFinite(range.min) || !isFinite(range.max)) return []
+  const levels: number[] = []
+  for (let k = Math.ceil((range.min - base) / interval); ; k++) {
+    const level = Number((base + k * interval).toPrecision(12))
+    if (level > range.max || levels.length >= MAX_CONTOUR_LEVELS) break
+    levels.push(level)
+  }
+  return levels
+}
+
+// Subsample a raster so contouring stays interactive
+function sampleGrid(grid: ContourGrid): { nx: number; ny: number; step: number; at: (i: number, j: number) => number } {
+  const step = Math.max(1, Math.ceil(Math.max(grid.width, grid.height) / MAX_CONTOUR_GRID))
+  const nx = Math.ceil(grid.width / step)
+  const ny = Math.ceil(grid.height / step)
+  const sampled = new Float32Array(nx * ny)
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      sampled[j * nx + i] = grid.values[j * step * grid.width + i * step]
+    }
+  }
+  const at = (i: number, j: number) => (i < 0 || j < 0 || i >= nx || j >= ny ? NaN : sampled[j * nx + i])
+  return { nx, ny, step, at }
+}
+
+// Cell edges: 0 top, 1 right, 2 bottom, 3 left. Corners: tl, tr, br, bl
+const EDGE_CORNERS: Array<[number, number]> = [[0, 1], [1, 2], [2, 3], [3, 0]]
+const CORNER_OFFSETS: Point[] = [[0, 0], [1, 0], [1, 1], [0, 1]]
+
+// Edge pairs crossed by the level, per case (tl·8 + tr·4 + br·2 + bl·1);
+// saddles (5, 10) depend on the cell's center and are resolved in cellSegments
+const SEGMENTS: Array<Array<[number, number]>> = [
+  [], [[3, 2]], [[2, 1]], [[3, 1]],
+  [[0, 1]], [], [[0, 2]], [[3, 0]],
+  [[3, 0]], [[0, 2]], [], [[0, 1]],
+  [[3, 1]], [[2, 1]], [[3, 2]], []
+]
+
+function cellSegments(high: boolean[], centerHigh: boolean): Array<[number, number]> {
+  const index = (high[0] ? 8 : 0) | (high[1] ? 4 : 0) | (high[2] ? 2 : 0) | (high[3] ? 1 : 0)
+  // tr and bl high: a high center joins them, leaving tl and br cut off
+  if (index === 5) return centerHigh ? [[3, 0], [2, 1]] : [[0, 1], [3, 2]]
+  // tl and br high
+  if (index === 10) return centerHigh ? [[0, 1], [3, 2]] : [[3, 0], [2, 1]]
+  return SEGMENTS[index]
+}
+
+// Shared id of a cell edge, so neighbouring cells meet at the same vertex
+function edgeKey(i: number, j: number, edge: number, nx: number): number {
+  // Padded grids start at -1; shift so keys stay non-negative
+  const stride = nx + 2
+  const [ei, ej, vertical] = edge === 0 ? [i, j, 0] : edge === 1 ? [i + 1, j, 1] : edge === 2 ? [i, j + 1, 0] : [i, j, 1]
+  return ((ej + 1) * stride + (ei + 1)) * 2 + vertical
+}
+
+// Where the level crosses an edge, in sampled-grid coordinates
+function crossing(i: number, j: number, edge: number, values: number[], level: number): Point {
+  const [a, b] = EDGE_CORNERS[edge]
+  const va = values[a]
+  const vb = values[b]
+  // NoData, the padding or an open level: split the edge halfway
+  const t = isFinite(va) && isFinite(vb) && isFinite(level) && vb !== va
+    ? Math.min(1, Math.max(0, (level - va) / (vb - va)))
+    : 0.5
+  const pa = CORNER_OFFSETS[a]
+  const pb = CORNER_OFFSETS[b]
+  return [i + pa[0] + (pb[0] - pa[0]) * t, j + pa[1] + (pb[1] - pa[1]) * t]
+}
+
+function cornerValues(at: (i: number, j: number) => number, i: number, j: number): number[] {
+  return CORNER_OFFSETS.map(([di, dj]) => at(i + di, j + dj))
+}
+
+// Join segments that share edge keys into polylines (open) and rings (closed)
+function stitch(segments: Array<[number, number]>, points: Map<number, Point>): Point[][] {
+  const links = new Map<number, number[]>()
+  for (const [a, b] of segments) {
+    if (!links.has(a)) links.set(a, [])
+    if (!links.has(b)) links.set(b, [])
+    links.get(a)!.push(b)
+    links.get(b)!.push(a)
+  }
+  const visited = new Set<number>()
+  const walk = (start: number): Point[] => {
+    const path: number[] = [start]
+    visited.add(start)
+    let current = start
+    for (;;) {
+      const next = links.get(current)!.find(k => !visited.has(k))
+      if (next === undefined) break
+      path.push(next)
+      visited.add(next)
+      current = next
+    }
+    // Close rings back onto their start
+    if (path.length > 2 && links.get(current)!.includes(start)) path.push(start)
+    return path.map(k => points.get(k)!)
+  }
+  const lines: Point[][] = []
+  // Open lines first, from one of their ends, then what is left are rings
+  for (const [key, neighbours] of links) {
+    if (neighbours.length === 1 && !visited.has(key)) lines.push(walk(key))
+  }
+  for (const key of links.keys()) {
+    if (!visited.has(key)) lines.push(walk(key))
+  }
+  return lines.filter(line => line.length > 1)
+}
+
+/**
+ * Isolines at each level; cells touching NoData are skipped
+ */
+export function contourLines(
+  grid: ContourGrid,
+  levels: number[],
+  locate: PixelLocator,
+  format: (value: number) => string = String
+): ContourFeatureCollection<ContourLineProperties> {
+  const { nx, ny, step, at } = sampleGrid(grid)
+  const toLonLat = pixelToLonLat(grid, step, locate)
+  const features: ContourFeatureCollection<ContourLineProperties>['features'] = []
+
+  for (const level of levels) {
+    const segments: Array<[number, number]> = []
+    const points = new Map<number, Point>()
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        const values = cornerValues(at, i, j)
+        if (values.some(v => isNaN(v))) continue
+        const high = values.map(v => v >= level)
+        const center = (values[0] + values[1] + values[2] + values[3]) / 4
+        for (const [e1, e2] of cellSegments(high, center >= level)) {
+          const k1 = edgeKey(i, j, e1, nx)
+          const k2 = edgeKey(i, j, e2, nx)
+          if (!points.has(k1)) points.set(k1, crossing(i, j, e1, values, level))
+          if (!points.has(k2)) points.set(k2, crossing(i, j, e2, values, level))
+          segments.push([k1, k2])
+        }
+      }
+    }
+    for (const line of stitch(segments, points)) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: line.map(toLonLat) },
+        properties: { value: level, label: format(level) }
+      })
+    }
+  }
+  return { type: 'FeatureCollection', features }
+}
+
+// Twice the signed area, in grid coordinates
+function signedArea(ring: Point[]): number {
+  let area = 0
+  for (let k = 0, n = ring.length; k < n - 1; k++) {
+    area += ring[k][0] * ring[k + 1][1] - ring[k + 1][0] * ring[k][1]
+  }
+  return area
+}
+
+function ringContains(ring: Point[], [x, y]: Point): boolean {
+  let inside = false
+  for (let k = 0, l = ring.length - 1; k < ring.length; l = k++) {
+    const [xk, yk] = ring[k]
+    const [xl, yl] = ring[l]
+    if ((yk > y) !== (yl > y) && x < ((xl - xk) * (y - yk)) / (yl - yk) + xk) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * Closed rings around the cells >= level, on a grid padded with NoData so
+ * every ring closes. Rings are directed with the high side on their left:
+ * outer rings have a positive signed area, holes a negative one.
+ */
+function superlevelRings(nx: number, ny: number, at: (i: number, j: number) => number, level: number): Point[][] {
+  const next = new Map<number, number>()
+  const points = new Map<number, Point>()
+  const isHigh = (v: number) => !isNaN(v) && v >= level
+
+  for (let j = -1; j < ny; j++) {
+    for (let i = -1; i < nx; i++) {
+      const values = cornerValues(at, i, j)
+      const high = values.map(isHigh)
+      const finite = values.filter(v => !isNaN(v))
+      const center = finite.length === 4 ? (values[0] + values[1] + values[2] + values[3]) / 4 : -Infinity
+      for (const [e1, e2] of cellSegments(high, center >= level)) {
+        const p1 = crossing(i, j, e1, values, level)
+        const p2 = crossing(i, j, e2, values, level)
+        // Orient by the high corner of the first edge
+        const [a, b] = EDGE_CORNERS[e1]
+        const corner = CORNER_OFFSETS[high[a] ? a : b]
+        const h: Point = [i + corner[0], j + corner[1]]
+        const cross = (p2[0] - p1[0]) * (h[1] - p1[1]) - (p2[1] - p1[1]) * (h[0] - p1[0])
+        const k1 = edgeKey(i, j, e1, nx)
+        const k2 = edgeKey(i, j, e2, nx)
+        points.set(k1, p1)
+        points.set(k2, p2)
+        if (cross > 0) next.set(k1, k2)
+        else next.set(k2, k1)
+      }
+    }
+  }
+
+  const rings: Point[][] = []
+  const visited = new Set<number>()
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue
+    const ring: Point[] = []
+    let key: number | undefined = start
+    while (key !== undefined && !visited.has(key)) {
+      visited.add(key)
+      ring.push(points.get(key)!)
+      key = next.get(key)
+    }
+    if (ring.length > 2) {
+      ring.push(ring[0])
+      rings.push(ring)
+    }
+  }
+  return rings
+}
+
+/**
+ * Filled bands between consecutive levels, plus the open bands below the first
+ * and above the last level
+ */
+export function contourBands(
+  grid: ContourGrid,
+  levels: number[],
+  locate: PixelLocator,
+  format: (value: number) => string = String
+): ContourFeatureCollection<ContourBandProperties> {
+  const { nx, ny, step, at } = sampleGrid(grid)
+  const toLonLat = pixelToLonLat(grid, step, locate)
+  // Levels at or below the minimum, or above the maximum, would only add empty bands
+  let min = Infinity
+  let max = -Infinity
+  for (let j = 0; j < ny; j++) {
+    for (let i = 0; i < nx; i++) {
+      const v = at(i, j)
+      if (v < min) min = v
+      if (v > max) max = v
+    }
+  }
+  const thresholds = [-Infinity, ...levels.filter(level => level > min && level <= max), Infinity]
+  const ringsAt = thresholds.map(level => (level === Infinity ? [] : superlevelRings(nx, ny, at, level)))
+  const features: ContourFeatureCollection<ContourBandProperties>['features'] = []
+
+  for (let k = 0; k < thresholds.length - 1; k++) {
+    // The band is {v >= lower} minus {v >= upper}: the upper rings flip into holes and vice versa
+    const rings = [...ringsAt[k], ...ringsAt[k + 1].map(ring => [...ring].reverse())]
+    const outers = rings.filter(ring => signedArea(ring) > 0).map(ring => ({ ring, area: signedArea(ring), holes: [] as Point[][] }))
+    outers.sort((a, b) => a.area - b.area)
+    for (const hole of rings.filter(ring => signedArea(ring) < 0)) {
+      outers.find(outer => ringContains(outer.ring, hole[0]))?.holes.push(hole)
+    }
+
+    const lower = isFinite(thresholds[k]) ? thresholds[k] : null
+    const upper = isFinite(thresholds[k + 1]) ? thresholds[k + 1] : null
+    const label = lower === null ? `< ${format(upper!)}` : upper === null ? `≥ ${format(lower)}` : `${format(lower)} – ${format(upper)}`
+    for (const { ring, holes } of outers) {
+      features.push({
+        type: 'Feature',
+        // Flip to counter-clockwise outer rings once y points north
+        geometry: { type: 'Polygon', coordinates: [ring, ...holes].map(r => [...r].reverse().map(toLonLat)) },
+        properties: { min: lower, max: upper, label }
+      })
+    }
+  }
+  return { type: 'FeatureCollection', features }
+}
+
+// Sampled-grid point (pixel centers) to WGS84, kept inside the raster's edges
+function pixelToLonLat(grid: ContourGrid, step: number, locate: PixelLocator): (point: Point) => [number, number] {
+  return ([x, y]) => {
+    const col = Math.min(grid.width, Math.max(0, x * step + 0.5))
+    const row = Math.min(grid.height, Math.max(0, y * step + 0.5))
+    const [lon, lat] = locate(col, row)
+    return [Number(lon.toFixed(6)), Number(lat.toFixed(6))]
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Portable conversation bundles and transcripts
+ *
+ * A bundle is a self-contained JSON file with the messages, their MapData, the
+ * camera of every interactive map and (optionally) the GeoTIFF/PNG artifacts
+ * inlined as data URLs, so an imported session renders without the backend.
+ */
+import type { CameraState, ConversationThread, MapData, Message } from '../types'
+import { createThread } from './threads'
+import { regionLabel } from './regions'
+
+export const BUNDLE_FORMAT = 'hydrology-copilot-conversation'
+export const BUNDLE_VERSION = 1
+
+export interface ConversationBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  exportedAt: string
+  conversation: {
+    name: string
+    threadId?: string
+    createdAt: number
+    updatedAt: number
+    messages: Message[]
+  }
+  /** Camera of each interactive map, keyed by message id */
+  cameras: Record<string, CameraState>
+  /** Inlined artifacts: original URL → data URL */
+  artifacts: Record<string, string>
+}
+
+export interface ExportOptions {
+  /** Download GeoTIFF and image artifacts and embed them in the bundle */
+  inlineArtifacts?: boolean
+}
+
+/**
+ * Remote URLs referenced by a message's map
+ */
+function artifactUrls(mapData?: MapData): string[] {
+  const azure = mapData?.azureData
+  return [azure?.geotiff_url, azure?.static_url, azure?.overlay_url]
+    .filter((url): url is string => !!url && /^https?:/.test(url))
+}
+
+async function fetchAsDataUrl(url: string): Promise<string> {
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`HTTP ${response.status}`)
+  const blob = await response.blob()
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+export async function createBundle(
+  thread: ConversationThread,
+  cameras: Record<string, CameraState>,
+  options: ExportOptions = {}
+): Promise<ConversationBundle> {
+  const messages = thread.messages.map(({ streaming, ...m }) => m)
+  const artifacts: Record<string, string> = {}
+
+  if (options.inlineArtifacts) {
+    const urls = Array.from(new Set(messages.flatMap(m => [...artifactUrls(m.mapData), ...(m.imageUrl ? [m.imageUrl] : [])])))
+    console.log(`📦 Inlining ${urls.length} artifacts`)
+    await Promise.all(urls.map(async url => {
+      try {
+        artifacts[url] = await fetchAsDataUrl(url)
+      } catch (error) {
+        console.warn('⚠️ Could not inline artifact, keeping URL:', url, (error as Error).message)
+      }
+    }))
+  }
+
+  const messageIds = new Set(messages.map(m => m.id))
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      name: thread.name,
+      threadId: thread.threadId,
+      createdAt: thread.createdAt,
+      updatedAt: thread.updatedAt,
+      messages
+    },
+    cameras: Object.fromEntries(Object.entries(cameras).filter(([id]) => messageIds.has(id))),
+    artifacts
+  }
+}
+
+// Only well-formed data: URLs replace the original; anything else keeps the remote URL
+function swapUrl(url: string | undefined, artifacts: Record<string, string>): string | undefined {
+  const inlined = url ? artifacts[url] : undefined
+  return typeof inlined === 'string' && inlined.startsWith('data:') ? inlined : url
+}
+
+/**
+ * Recreate a read-only thread from bundle JSON
+ * @throws Error when the file is not a conversation bundle
+ */
+export function importBundle(json: string): ConversationThread {
+  let bundle: ConversationBundle
+  try {
+    bundle = JSON.parse(json)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  if (bundle?.format !== BUNDLE_FORMAT || !Array.isArray(bundle.conversation?.messages)) {
+    throw new Error('The file is not a Hydrology Copilot conversation bundle')
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${bundle.version} is newer than this app supports (${BUNDLE_VERSION})`)
+  }
+
+  const artifacts = bundle.artifacts || {}
+  const cameras = bundle.cameras || {}
+  const messages: Message[] = bundle.conversation.messages.map(m => {
+    const mapData = m.mapData && {
+      ...m.mapData,
+      camera: cameras[m.id] || m.mapData.camera,
+      azureData: m.mapData.azureData && {
+        ...m.mapData.azureData,
+        geotiff_url: swapUrl(m.mapData.azureData.geotiff_url, artifacts),
+        static_url: swapUrl(m.mapData.azureData.static_url, artifacts),
+        overlay_url: swapUrl(m.mapData.azureData.overlay_url, artifacts)
+      }
+    }
+    return { ...m, imageUrl: swapUrl(m.imageUrl, artifacts), mapData }
+  })
+
+  const thread = createThread(bundle.conversation.name || 'Imported conversation')
+  return {
+    ...thread,
+    customName: true,
+    readOnly: true,
+    importedAt: Date.now(),
+    messages,
+    createdAt: bundle.conversation.createdAt || thread.createdAt
+  }
+}
+
+function roleLabel(message: Message): string {
+  return message.role === 'user' ? 'You' : 'Hydrology Copilot'
+}
+
+function artifactLines(message: Message): Array<[string, string]> {
+  const azure = message.mapData?.azureData
+  const lines: Array<[string, string]> = []
+  if (azure?.static_url) lines.push(['Static map', azure.static_url])
+  if (azure?.geotiff_url) lines.push(['GeoTIFF', azure.geotiff_url])
+  if (azure?.overlay_url) lines.push(['Overlay', azure.overlay_url])
+  if (!message.mapData && message.imageUrl) lines.push(['Image', message.imageUrl])
+  return lines
+}
+
+export function toMarkdownTranscript(thread: ConversationThread): string {
+  const parts = [`# ${thread.name}`, '', `_Exported ${new Date().toLocaleString()}_`, '']
+  thread.messages.forEach(m => {
+    parts.push(`## ${roleLabel(m)}`, '', m.text || '', '')
+    if (m.region) parts.push(`Region: ${regionLabel(m.region)}`, '')
+    if (m.places?.length) parts.push(`Places: ${m.places.map(p => p.label).join('; ')}`, '')
+    const variable = m.mapData?.azureData?.variable_info
+    if (variable) parts.push(`Variable: ${variable.displayName}${variable.unit ? ` (${variable.unit})` : ''}`, '')
+    artifactLines(m).forEach(([label, url]) => {
+      parts.push(label === 'Static map' || label === 'Image' ? `![${label}](${url})` : `- [${label}](${url})`)
+    })
+    if (artifactLines(m).length > 0) parts.push('')
+  })
+  return parts.join('\n')
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function toHtmlTranscript(thread: ConversationThread, artifacts: Record<string, string> = {}): string {
+  const body = thread.messages.map(m => {
+    const links = artifactLines(m).map(([label, url]) => {
+      const src = escapeHtml(artifacts[url] || url)
+      return label === 'Static map' || label === 'Image'
+        ? `<img src="${src}" alt="${label}">`
+        : `<a href="${src}">${label}</a>`
+    }).join('\n')
+    return `<section class="${m.role}">
+  <h2>${roleLabel(m)}</h2>
+  <p>${escapeHtml(m.text || '')}</p>
+  ${m.region ? `<p><em>Region: ${escapeHtml(regionLabel(m.region))}</em></p>` : ''}
+  ${m.places?.length ? `<p><em>Places: ${escapeHtml(m.places.map(p => p.label).join('; '))}</em></p>` : ''}
+  ${links}
+</section>`
+  }).join('\n')
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(thread.name)}</title>
+<style>
+  body { font-family: system-ui, Segoe UI, Roboto, Helvetica, Arial; max-width: 900px; margin: 2rem auto; color: #111827; }
+  section { margin-bottom: 1.5rem; padding: 1rem; border-radius: 0.75rem; background: #f9fafb; }
+  section.user { background: #eef2ff; }
+  h2 { font-size: 0.9rem; color: #4f46e5; margin: 0 0 0.5rem; }
+  p { white-space: pre-wrap; margin: 0 0 0.5rem; }
+  img { max-width: 100%; border: 1px solid #e5e7eb; border-radius: 0.375rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(thread.name)}</h1>
+${body}
+</body>
+</html>
+`
+}
+
+/**
+ * Save text content as a file via a temporary object URL
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+export function bundleFileName(thread: ConversationThread, extension: string): string {
+  const slug = thread.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation'
+  return `${slug}.${extension}`
+}
@@ -0,0 +1,86 @@
+/**
+ * IndexedDB persistence for conversation threads
+ *
+ * Threads are stored whole (messages, mapData and artifact URLs included) so a
+ * reopened session renders its interactive maps exactly as before. Records
+ * are keyed by thread id and indexed by the stable user id.
+ */
+import type { ConversationThread } from '../types'
+
+const DB_NAME = 'hydrology_copilot'
+const DB_VERSION = 1
+const STORE_NAME = 'conversations'
+const USER_INDEX = 'userId'
+
+interface StoredConversation extends ConversationThread {
+  userId: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'))
+      return
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex(USER_INDEX, USER_INDEX, { unique: false })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+  // Allow a retry after a failed open
+  dbPromise.catch(() => { dbPromise = null })
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Drop transient UI state that must not survive a reload
+ */
+function toStoredConversation(userId: string, thread: ConversationThread): StoredConversation {
+  return {
+    ...thread,
+    userId,
+    messages: thread.messages.map(({ streaming, ...m }) => m)
+  }
+}
+
+/**
+ * All saved conversations for a user, most recently updated first
+ */
+export async function listConversations(userId: string): Promise<ConversationThread[]> {
+  const db = await openDatabase()
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+  const records = await promisify<StoredConversation[]>(store.index(USER_INDEX).getAll(userId))
+  return records
+    .map(({ userId: _userId, ...thread }) => thread)
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function saveConversation(userId: string, thread: ConversationThread): Promise<void> {
+  const db = await openDatabase()
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+  await promisify(store.put(toStoredConversation(userId, thread)))
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  const db = await openDatabase()
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME)
+  await promisify(store.delete(id))
+}
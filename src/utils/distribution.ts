@@ -0,0 +1,209 @@
+/**
+ * Distribution of a map's values: histogram, summary statistics and the
+ * share of each value class
+ *
+ * Raster cells are weighted by their ground area (one area per row, measured
+ * at the middle column), so shares read as "% of the area"; points all weigh
+ * the same.
+ */
+import type { PixelLocator } from './contours'
+import { cellAreaKm2 } from './zonalStats'
+import type { ColorClass, RGB, ValueRange } from './colorScale'
+
+export interface HistogramBin {
+  /** Inclusive lower bound */
+  min: number
+  /** Exclusive upper bound (inclusive for the last bin) */
+  max: number
+  count: number
+  /** Fraction of the total weight, 0-1 */
+  share: number
+}
+
+/**
+ * Value class to report a share for; [min, max) unless upper-inclusive
+ */
+export interface ValueClass extends ColorClass {
+  /** (min, max] instead, as the USDM categories are defined */
+  upperInclusive?: boolean
+}
+
+export interface ClassShare {
+  label: string
+  color: RGB
+  min: number
+  max: number
+  upperInclusive?: boolean
+  count: number
+  share: number
+}
+
+export interface Distribution {
+  range: ValueRange
+  bins: HistogramBin[]
+  count: number
+  /** NaN values (NoData cells, points without a value) */
+  missing: number
+  mean: number
+  std: number
+  median: number
+  /** Value classes and their shares, when the variable has any */
+  classes: ClassShare[]
+  /** Area-weighted (raster) rather than counted (points) */
+  areaWeighted: boolean
+}
+
+export const HISTOGRAM_BINS = 40
+
+// Fine bins the median is interpolated from
+const MEDIAN_BINS = 2048
+
+/**
+ * U.S. Drought Monitor categories as SPI thresholds, wettest last; each
+ * threshold belongs to the drier class (SPI -2.0 is D4)
+ */
+export const USDM_SPI_CLASSES: ValueClass[] = [
+  { min: -Infinity, max: -2.0, color: [115, 0, 0], label: 'D4 Exceptional drought', upperInclusive: true },
+  { min: -2.0, max: -1.6, color: [230, 0, 0], label: 'D3 Extreme drought', upperInclusive: true },
+  { min: -1.6, max: -1.3, color: [255, 170, 0], label: 'D2 Severe drought', upperInclusive: true },
+  { min: -1.3, max: -0.8, color: [252, 211, 127], label: 'D1 Moderate drought', upperInclusive: true },
+  { min: -0.8, max: -0.5, color: [255, 255, 0], label: 'D0 Abnormally dry', upperInclusive: true },
+  { min: -0.5, max: Infinity, color: [209, 213, 219], label: 'No drought', upperInclusive: true }
+]
+
+// SPI/SPEI as a whole word, not inside e.g. "evapotranspiration"
+const USDM_VARIABLES = /(^|[^a-z])(spi|spei)([^a-z]|$)/i
+
+/**
+ * Classes to report shares for: USDM categories for SPI/SPEI, otherwise the
+ * classes the layer is colored with (null when it uses a gradient)
+ */
+export function distributionClasses(variable: string, classes: ColorClass[] | null): ValueClass[] | null {
+  if (USDM_VARIABLES.test(variable)) return USDM_SPI_CLASSES
+  return classes
+}
+
+/**
+ * Ground area of one cell in each raster row, in km²
+ */
+export function rowAreas(height: number, width: number, locate: PixelLocator): Float64Array {
+  const areas = new Float64Array(height)
+  const col = Math.floor(width / 2)
+  for (let row = 0; row < height; row++) {
+    areas[row] = cellAreaKm2([locate(col, row), locate(col + 1, row), locate(col + 1, row + 1), locate(col, row + 1)])
+  }
+  return areas
+}
+
+/**
+ * Histogram and statistics of the finite values, or null when there are none;
+ * `weightOf` gives the weight of value i (default 1)
+ */
+export function computeDistribution(
+  values: ArrayLike<number>,
+  classes: ValueClass[] | null,
+  weightOf?: (index: number) => number,
+  binCount: number = HISTOGRAM_BINS
+): Distribution | null {
+  let min = Infinity
+  let max = -Infinity
+  let missing = 0
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i]
+    if (!isFinite(v)) { missing++; continue }
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (min > max) return null
+
+  // A constant raster gets one unit of bins centered on its value
+  const span = max > min ? max - min : 1
+  const start = max > min ? min : min - 0.5
+  const binOf = (v: number, bins: number) => Math.min(bins - 1, Math.floor((v - start) / span * bins))
+  const binWeights = new Float64Array(binCount)
+  const binCounts = new Uint32Array(binCount)
+  const fine = new Float64Array(MEDIAN_BINS)
+  const classWeights = new Float64Array(classes?.length ?? 0)
+  const classCounts = new Uint32Array(classes?.length ?? 0)
+  let total = 0
+  let sum = 0
+  let count = 0
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i]
+    if (!isFinite(v)) continue
+    const w = weightOf ? weightOf(i) : 1
+    const bin = binOf(v, binCount)
+    binWeights[bin] += w
+    binCounts[bin]++
+    fine[binOf(v, MEDIAN_BINS)] += w
+    classes?.forEach((c, k) => {
+      if (c.upperInclusive ? v > c.min && v <= c.max : v >= c.min && v < c.max) {
+        classWeights[k] += w
+        classCounts[k]++
+      }
+    })
+    total += w
+    sum += w * v
+    count++
+  }
+  const mean = sum / total
+  let squares = 0
+  for (let i = 0; i < values.length; i++) {
+    const v = values[i]
+    if (isFinite(v)) squares += (weightOf ? weightOf(i) : 1) * (v - mean) ** 2
+  }
+
+  // Median: walk the fine bins to half the weight, interpolating inside the bin
+  let median = min
+  let cumulative = 0
+  for (let k = 0; k < MEDIAN_BINS; k++) {
+    if (cumulative + fine[k] >= total / 2) {
+      const t = fine[k] > 0 ? (total / 2 - cumulative) / fine[k] : 0
+      median = Math.min(max, Math.max(min, start + (k + t) / MEDIAN_BINS * span))
+      break
+    }
+    cumulative += fine[k]
+  }
+
+  return {
+    range: { min, max },
+    bins: Array.from(binWeights, (w, k) => ({
+      min: start + k / binCount * span,
+      max: start + (k + 1) / binCount * span,
+      count: binCounts[k],
+      share: w / total
+    })),
+    count,
+    missing,
+    mean,
+    std: Math.sqrt(squares / total),
+    median,
+    classes: (classes ?? []).map((c, k) => ({ ...c, count: classCounts[k], share: classWeights[k] / total })),
+    areaWeighted: !!weightOf
+  }
+}
+
+// Just above (or below) v, by at least one unit in the last place
+const stepUp = (v: number) => v + Math.max(1, Math.abs(v)) * Number.EPSILON
+const stepDown = (v: number) => v - Math.max(1, Math.abs(v)) * Number.EPSILON
+
+/**
+ * Closed range of a class's values within the data, for brushing it: the
+ * excluded bound moves just inside so the edge value stays with its neighbour
+ */
+export function classRange(c: ClassShare, data: ValueRange): ValueRange {
+  const min = c.upperInclusive && isFinite(c.min) ? stepUp(c.min) : c.min
+  const max = !c.upperInclusive && isFinite(c.max) ? stepDown(c.max) : c.max
+  return { min: Math.max(min, data.min), max: Math.min(max, data.max) }
+}
+
+/**
+ * Share of the total weight with values in [range.min, range.max], from the bins
+ */
+export function shareInRange(distribution: Distribution, range: ValueRange): number {
+  return distribution.bins.reduce((share, bin) => {
+    const overlap = Math.min(bin.max, range.max) - Math.max(bin.min, range.min)
+    const width = bin.max - bin.min
+    return overlap > 0 && width > 0 ? share + bin.share * Math.min(1, overlap / width) : share
+  }, 0)
+}
@@ -0,0 +1,282 @@
+/**
+ * Frame-by-frame display of multi-date map results
+ *
+ * GeoTIFF frames are colorized once (in the worker pool) and cached as PNG
+ * object URLs; one ImageLayer is re-pointed at the current frame. Unless the
+ * stretch is fixed, every frame is colored with the range the first rendered
+ * frame got, so colors compare across dates. Tile frames get one TileLayer
+ * each, kept at opacity 0 until shown so their tiles are already fetched when
+ * the animation reaches them. In both modes the next few frames are
+ * preloaded, and frames outside that window are released.
+ */
+import * as atlas from 'azure-maps-control'
+import { recolorGeoTiff, releaseImageUrl, renderGeoTiff, type RenderedGeoTiff, type Resampling } from './geotiffLoader'
+import type { Stretch, ValueRange } from './colorScale'
+import type { MapFrame } from '../types'
+
+export type FrameStatus = 'idle' | 'loading' | 'ready' | 'error'
+
+export interface FrameAnimatorOptions {
+  variable: string
+  colormap?: any
+  stretch?: Stretch
+  resampling?: Resampling
+  opacity?: number
+  /** How many frames after the current one to load in advance */
+  preloadAhead?: number
+  onFrameStatus?: (index: number, status: FrameStatus) => void
+  /** A GeoTIFF frame became the visible one */
+  onFrameShown?: (index: number, rendered: RenderedGeoTiff) => void
+}
+
+export class FrameAnimator {
+  private readonly map: any
+  private readonly frames: MapFrame[]
+  private readonly options: Required<Omit<FrameAnimatorOptions, 'colormap' | 'stretch' | 'resampling' | 'onFrameStatus' | 'onFrameShown'>> & FrameAnimatorOptions
+  private readonly mode: 'geotiff' | 'tiles'
+  private readonly rendered = new Map<number, Promise<RenderedGeoTiff | null>>()
+  private readonly status = new Map<number, FrameStatus>()
+  private readonly tileLayers = new Map<number, any>()
+  private imageLayer: any = null
+  private shownUrl: string | null = null
+  /** Replaced image URLs still on screen until the next frame is shown */
+  private readonly staleUrls = new Set<string>()
+  /** Color range of all frames; null until a frame sets it, or with a fixed stretch */
+  private sharedRange: Promise<ValueRange | null> | null = null
+  private current = -1
+  private disposed = false
+
+  constructor(map: any, frames: MapFrame[], options: FrameAnimatorOptions) {
+    this.map = map
+    this.frames = frames
+    this.options = { opacity: 0.75, preloadAhead: 2, ...options }
+    this.mode = frames[0]?.tile_url ? 'tiles' : 'geotiff'
+  }
+
+  get length(): number {
+    return this.frames.length
+  }
+
+  isReady(index: number): boolean {
+    return this.status.get(index) === 'ready'
+  }
+
+  private setStatus(index: number, status: FrameStatus) {
+    this.status.set(index, status)
+    this.options.onFrameStatus?.(index, status)
+  }
+
+  /**
+   * Start loading a frame without showing it
+   */
+  preload(index: number): void {
+    if (this.disposed || index < 0 || index >= this.frames.length) return
+    if (this.mode === 'tiles') {
+      this.ensureTileLayer(index)
+    } else {
+      this.ensureRendered(index)
+    }
+  }
+
+  private ensureRendered(index: number): Promise<RenderedGeoTiff | null> {
+    const cached = this.rendered.get(index)
+    if (cached) return cached
+
+    const url = this.frames[index].geotiff_url!
+    this.setStatus(index, 'loading')
+    const render = (stretch?: Stretch) => renderGeoTiff(url, this.options.variable, this.options.colormap, stretch, this.options.resampling)
+    const shares = !this.sharedRange && this.options.stretch?.mode !== 'fixed'
+    const pending: Promise<RenderedGeoTiff | null> = (shares
+      ? render(this.options.stretch)
+      : (this.sharedRange ?? Promise.resolve(null)).then(range => render(this.frameStretch(range)))
+    ).catch(error => {
+      console.warn(`⚠️ Frame ${index} failed to render:`, error?.message)
+      return null
+    }).then(result => {
+      // Released (or disposed) while loading
+      if (this.disposed || !this.rendered.has(index)) return result
+      this.setStatus(index, result ? 'ready' : 'error')
+      // A failed frame is loaded again the next time it is shown or preloaded
+      if (!result && this.rendered.get(index) === pending) this.rendered.delete(index)
+      return result
+    })
+    if (shares) this.sharedRange = pending.then(result => result?.scale?.range ?? null)
+    this.rendered.set(index, pending)
+    return pending
+  }
+
+  private ensureTileLayer(index: number): any {
+    let layer = this.tileLayers.get(index)
+    if (!layer) {
+      layer = new (atlas as any).layer.TileLayer({
+        tileUrl: this.frames[index].tile_url,
+        tileSize: 256,
+        opacity: 0,
+        fadeDuration: 0
+      })
+      try {
+        this.map.layers.add(layer, 'labels')
+      } catch {
+        this.map.layers.add(layer)
+      }
+      this.tileLayers.set(index, layer)
+      // Tile loading is driven by the map; a created layer counts as ready
+      this.setStatus(index, 'ready')
+    }
+    return layer
+  }
+
+  /**
+   * Display a frame and preload the ones after it
+   * @returns false if the frame could not be loaded
+   */
+  async show(index: number): Promise<boolean> {
+    if (this.disposed || index < 0 || index >= this.frames.length) return false
+    const isFirst = this.current === -1
+    this.current = index
+
+    let ok = true
+    if (this.mode === 'tiles') {
+      this.ensureTileLayer(index)
+      this.tileLayers.forEach((layer, i) => layer.setOptions({ opacity: i === index ? this.options.opacity : 0 }))
+      this.releaseTileLayers(index)
+    } else {
+      const result = await this.ensureRendered(index)
+      // A newer show() call may have overtaken this one while it was loading
+      if (this.disposed || this.current !== index) return !!result
+      ok = this.showImage(result, isFirst)
+      if (result) this.options.onFrameShown?.(index, result)
+      this.releaseRendered(index)
+    }
+
+    for (let ahead = 1; ahead <= this.options.preloadAhead; ahead++) {
+      this.preload((index + ahead) % this.frames.length)
+    }
+    return ok
+  }
+
+  private showImage(result: RenderedGeoTiff | null, fitCamera: boolean): boolean {
+    if (!result) return false
+    if (!this.imageLayer) {
+      this.imageLayer = new (atlas as any).layer.ImageLayer({
+        url: result.imageUrl,
+        coordinates: result.corners,
+        opacity: this.options.opacity
+      })
+      try {
+        this.map.layers.add(this.imageLayer, 'labels')
+      } catch {
+        this.map.layers.add(this.imageLayer)
+      }
+    } else {
+      this.imageLayer.setOptions({ url: result.imageUrl, coordinates: result.corners })
+    }
+    this.shownUrl = result.imageUrl
+    this.staleUrls.forEach(url => url !== result.imageUrl && releaseImageUrl(url))
+    this.staleUrls.clear()
+    if (fitCamera) {
+      this.map.setCamera({ bounds: result.bbox, padding: 40 })
+    }
+    return true
+  }
+
+  // The shared range as a fixed stretch, or the options' stretch without one
+  private frameStretch(range: ValueRange | null): Stretch | undefined {
+    return range ? { mode: 'fixed', min: range.min, max: range.max } : this.options.stretch
+  }
+
+  /**
+   * Re-color every cached GeoTIFF frame and refresh the visible one; tile
+   * frames are rendered by the server and keep their colors
+   */
+  restyle(colormap: any, stretch: Stretch, resampling?: Resampling): void {
+    this.options.colormap = colormap
+    this.options.stretch = stretch
+    this.options.resampling = resampling
+    if (this.mode !== 'geotiff') return
+    // The visible frame sets the shared range for the new stretch
+    this.sharedRange = null
+    const cached = [...this.rendered.entries()].sort(([a], [b]) => (b === this.current ? 1 : 0) - (a === this.current ? 1 : 0))
+    cached.forEach(([index, pending]) => {
+      // A failed recolor keeps the frame's previous rendering
+      const recolor = (result: RenderedGeoTiff | null, frameStretch?: Stretch) => result
+        ? recolorGeoTiff(result, { variable: this.options.variable, colormap, stretch: frameStretch, resampling }).then(recolored => {
+          if (recolored.imageUrl !== result.imageUrl) this.retire(result.imageUrl)
+          return recolored
+        }, error => {
+          console.warn(`⚠️ Frame ${index} failed to recolor:`, error?.message)
+          return result
+        })
+        : null
+      let next: Promise<RenderedGeoTiff | null>
+      if (this.sharedRange || stretch.mode === 'fixed') {
+        const range = this.sharedRange ?? Promise.resolve(null)
+        next = Promise.all([pending, range]).then(([result, shared]) => recolor(result, this.frameStretch(shared)))
+      } else {
+        next = pending.then(result => recolor(result, stretch))
+        this.sharedRange = next.then(result => result?.scale?.range ?? null)
+      }
+      this.rendered.set(index, next)
+      next.then(result => {
+        if (!result && this.rendered.get(index) === next) this.rendered.delete(index)
+      })
+    })
+    if (this.current >= 0) this.show(this.current).catch(error => console.warn('⚠️ Frame refresh failed:', error?.message))
+  }
+
+  // Free a replaced image, deferring it while the layer still shows it
+  private retire(url: string) {
+    if (url === this.shownUrl && !this.disposed) {
+      this.staleUrls.add(url)
+    } else {
+      releaseImageUrl(url)
+    }
+  }
+
+  // The current frame and the ones preloaded after it
+  private preloadWindow(index: number): Set<number> {
+    const keep = new Set<number>()
+    for (let ahead = 0; ahead <= this.options.preloadAhead; ahead++) {
+      keep.add((index + ahead) % this.frames.length)
+    }
+    return keep
+  }
+
+  // Drop tile layers outside the current preload window to bound memory
+  private releaseTileLayers(index: number) {
+    const keep = this.preloadWindow(index)
+    this.tileLayers.forEach((layer, i) => {
+      if (!keep.has(i)) {
+        this.map.layers.remove(layer)
+        this.tileLayers.delete(i)
+        this.setStatus(i, 'idle')
+      }
+    })
+  }
+
+  // Drop decoded frames (values, warp grid and PNG) outside the preload window
+  private releaseRendered(index: number) {
+    const keep = this.preloadWindow(index)
+    this.rendered.forEach((pending, i) => {
+      if (keep.has(i)) return
+      this.rendered.delete(i)
+      pending.then(result => result && this.retire(result.imageUrl))
+      this.setStatus(i, 'idle')
+    })
+  }
+
+  dispose(): void {
+    this.disposed = true
+    try {
+      if (this.imageLayer) this.map.layers.remove(this.imageLayer)
+      this.tileLayers.forEach(layer => this.map.layers.remove(layer))
+    } catch {
+      // The map may already be disposed
+    }
+    this.tileLayers.clear()
+    this.rendered.forEach(pending => pending.then(result => releaseImageUrl(result?.imageUrl)))
+    this.staleUrls.forEach(releaseImageUrl)
+    this.staleUrls.clear()
+    this.rendered.clear()
+  }
+}
@@ -0,0 +1,423 @@
+/**
+ * Offline US gazetteer: states, counties, cities and HUC-2/HUC-4 basins
+ *
+ * The place list (src/data/gazetteer.json, built by `npm run gazetteer`) is
+ * loaded on demand in its own chunk. `suggest` completes the words being
+ * typed in the query box; `resolve` finds the places a question names and
+ * flags the ones the user has to pick between ("Washington") or that were
+ * probably misspelled.
+ */
+import { HUC_REGIONS } from '../data/hucRegions'
+import type { Bounds, Place, PlaceKind } from '../types'
+
+interface GazetteerData {
+  states: Array<[string, string, string, number, number, number, number]>
+  counties: Array<[string, string, number, number, number, number]>
+  cities: Array<[string, string, number, number, number]>
+}
+
+/** A place and the normalized names it answers to */
+interface Entry {
+  place: Place
+  /** Normalized name, e.g. 'saint louis' */
+  name: string
+  /** Forms matched inside a question, e.g. 'potomac river basin' */
+  keys: string[]
+  /** Prominence used to rank candidates */
+  weight: number
+}
+
+interface Token {
+  raw: string
+  norm: string
+  start: number
+  end: number
+}
+
+/**
+ * A place name found in a question
+ */
+export interface PlaceMatch {
+  /** The words of the question that named it */
+  text: string
+  /** Best first */
+  candidates: Place[]
+  /** Several candidates are plausible or the name looks misspelled */
+  needsChoice: boolean
+  fuzzy: boolean
+}
+
+export interface PlaceSuggestions {
+  /** Offset in the text where the completed words start */
+  from: number
+  places: Place[]
+}
+
+const WEIGHTS: Record<Exclude<PlaceKind, 'city'>, number> = {
+  state: 5e6,
+  huc2: 4e6,
+  huc4: 1e6,
+  county: 1e5
+}
+// A runner-up at least this fraction of the best candidate's weight makes a name ambiguous
+const AMBIGUITY_RATIO = 0.25
+// Cities this large are recognized even when typed in lower case
+const CASE_FREE_POPULATION = 1e6
+// Smallest city offered as a correction for a misspelled word
+const FUZZY_MIN_POPULATION = 1e5
+const MAX_CHOICES = 8
+const ABBREVIATIONS: Record<string, string> = { st: 'saint', ste: 'sainte', ft: 'fort', mt: 'mount' }
+// Words allowed in lower case inside a capitalized name ("Isle of Palms")
+const NAME_PARTICLES = new Set(['of', 'the', 'de', 'la', 'del', 'and', 'on'])
+// Words after which the next word is likely a place, even in lower case
+const LOCATIVES = new Set(['in', 'over', 'across', 'around', 'near', 'for', 'of', 'at', 'within', 'throughout', 'from', 'to', 'and', 'vs', 'versus', 'between'])
+const HUC_SUFFIXES = ['basin', 'river basin', 'watershed', 'river watershed', 'river', 'region', 'subregion']
+// Independent cities are listed with the counties (FIPS 510 Baltimore city, ...)
+const INDEPENDENT_CITY_STATES = new Set(['24', '29', '32', '51'])
+
+function normalizeWord(word: string): string {
+  const plain = word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[.'’]/g, '')
+  return ABBREVIATIONS[plain] ?? plain
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  for (const m of text.matchAll(/[\p{L}\p{N}.'’]+|,/gu)) {
+    const norm = m[0] === ',' ? ',' : normalizeWord(m[0])
+    if (norm) tokens.push({ raw: m[0], norm, start: m.index!, end: m.index! + m[0].length })
+  }
+  return tokens
+}
+
+export function normalizePlaceName(text: string): string {
+  return tokenize(text).filter(t => t.norm !== ',').map(t => t.norm).join(' ')
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...new Array(b.length).fill(0)])
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Typos tolerated for a word of this length
+function maxEdits(length: number): number {
+  return length >= 9 ? 2 : 1
+}
+
+function toBounds(west: number, south: number, east: number, north: number): Bounds {
+  return { west, south, east, north }
+}
+
+// Box around a city point that grows with its population
+function cityBounds(lon: number, lat: number, population: number): Bounds {
+  const halfKm = 3 + 0.9 * Math.sqrt(population / 1e4)
+  const dLat = halfKm / 111.32
+  const dLon = dLat / Math.cos(lat * Math.PI / 180)
+  return toBounds(lon - dLon, lat - dLat, lon + dLon, lat + dLat)
+}
+
+/**
+ * Union of the places' bounds
+ */
+export function placesBounds(places: Place[]): Bounds | null {
+  if (places.length === 0) return null
+  return {
+    north: Math.max(...places.map(p => p.bounds.north)),
+    south: Math.min(...places.map(p => p.bounds.south)),
+    east: Math.max(...places.map(p => p.bounds.east)),
+    west: Math.min(...places.map(p => p.bounds.west))
+  }
+}
+
+/**
+ * Summary sent to the backend in the request's `data.places`
+ */
+export function placeToJson(place: Place) {
+  const { west, south, east, north } = place.bounds
+  return {
+    name: place.name,
+    kind: place.kind,
+    label: place.label,
+    code: place.code ?? null,
+    state: place.state ?? null,
+    bbox: [west, south, east, north]
+  }
+}
+
+export class Gazetteer {
+  private readonly entries: Entry[] = []
+  private readonly byKey = new Map<string, Entry[]>()
+  private readonly statesByAbbr = new Map<string, Place>()
+  private readonly statesByName = new Map<string, Place>()
+  private readonly fuzzyPool: Entry[]
+  private readonly longestKey: number
+
+  constructor(data: GazetteerData) {
+    const usps = new Map<string, string>()
+    data.states.forEach(([fips, name, abbr, w, s, e, n]) => {
+      usps.set(fips, abbr)
+      const place: Place = { id: `state:${fips}`, name, kind: 'state', label: name, state: abbr, code: fips, bounds: toBounds(w, s, e, n) }
+      this.statesByAbbr.set(abbr, place)
+      this.statesByName.set(normalizePlaceName(name), place)
+      this.add(place, WEIGHTS.state, [`${name} state`, `state of ${name}`])
+    })
+
+    data.counties.forEach(([fips, name, w, s, e, n]) => {
+      const stateFips = fips.slice(0, 2)
+      const abbr = usps.get(stateFips) ?? ''
+      const independentCity = INDEPENDENT_CITY_STATES.has(stateFips) && Number(fips.slice(2)) >= 500
+      // Alaska has boroughs and census areas, Louisiana parishes
+      const suffixes = independentCity ? ['city'] : stateFips === '22' ? ['parish'] : stateFips === '02' ? ['borough', 'census area'] : ['county']
+      const label = stateFips === '02'
+        ? `${name} (borough), ${abbr}`
+        : `${name} ${independentCity ? 'city' : stateFips === '22' ? 'Parish' : 'County'}, ${abbr}`
+      const place: Place = { id: `county:${fips}`, name, kind: 'county', label, state: abbr, code: fips, bounds: toBounds(w, s, e, n) }
+      // Bare county names ("Lake", "Union") are too often ordinary words
+      this.add(place, WEIGHTS.county, suffixes.map(suffix => `${name} ${suffix}`), false)
+    })
+
+    data.cities.forEach(([name, stateFips, lon, lat, population]) => {
+      const abbr = usps.get(stateFips) ?? ''
+      const place: Place = {
+        id: `city:${stateFips}:${name}`,
+        name,
+        kind: 'city',
+        label: `${name}, ${abbr}`,
+        state: abbr,
+        population,
+        bounds: cityBounds(lon, lat, population)
+      }
+      this.add(place, population, /city$/i.test(name) ? [] : [`${name} city`])
+    })
+
+    HUC_REGIONS.forEach(([code, name, w, s, e, n]) => {
+      const kind: PlaceKind = code.length === 2 ? 'huc2' : 'huc4'
+      const place: Place = {
+        id: `huc:${code}`,
+        name,
+        kind,
+        label: `${name} ${kind === 'huc2' ? 'region' : 'basin'} (HUC ${code})`,
+        code,
+        bounds: toBounds(w, s, e, n)
+      }
+      const keys = [
+        ...HUC_SUFFIXES.map(suffix => `${name} ${suffix}`),
+        `huc ${code}`, `huc${code.length} ${code}`, `huc ${code.length} ${code}`
+      ]
+      // One-word basin names ("Ohio", "Green") need "basin", "river", ... in a question
+      this.add(place, WEIGHTS[kind], keys, normalizePlaceName(name).includes(' '))
+    })
+
+    this.fuzzyPool = this.entries.filter(e =>
+      e.place.kind === 'state' ||
+      (e.place.kind === 'city' && e.weight >= FUZZY_MIN_POPULATION) ||
+      ((e.place.kind === 'huc2' || e.place.kind === 'huc4') && e.name.includes(' '))
+    )
+    this.longestKey = Math.max(...[...this.byKey.keys()].map(key => key.split(' ').length))
+  }
+
+  private add(place: Place, weight: number, extraKeys: string[], matchBareName = true) {
+    const name = normalizePlaceName(place.name)
+    const keys = [...new Set([...(matchBareName ? [name] : []), ...extraKeys.map(normalizePlaceName)])]
+    const entry: Entry = { place, name, keys, weight }
+    this.entries.push(entry)
+    keys.forEach(key => this.byKey.set(key, [...(this.byKey.get(key) ?? []), entry]))
+  }
+
+  /**
+   * Places whose name starts with (or nearly matches) the text, best first
+   */
+  search(text: string, limit = MAX_CHOICES): Place[] {
+    const q = normalizePlaceName(text)
+    if (q.length < 2) return []
+    const abbrState = /^[A-Za-z]{2}$/.test(text.trim()) ? this.statesByAbbr.get(text.trim().toUpperCase()) : undefined
+    const scored: Array<[number, Entry]> = []
+    for (const entry of this.entries) {
+      if (entry.place === abbrState || entry.name === q) scored.push([0, entry])
+      else if (entry.name.startsWith(q) || entry.keys.some(key => key.startsWith(q))) scored.push([1, entry])
+      else if (q.length >= 3 && entry.name.split(' ').some(word => word.startsWith(q))) scored.push([2, entry])
+    }
+    // Typo-tolerant matches only fill up a short list
+    const tolerance = q.length >= 4 ? maxEdits(q.length) : 0
+    if (scored.length < limit && tolerance > 0) {
+      const found = new Set(scored.map(([, entry]) => entry))
+      this.entries.forEach(entry => {
+        if (!found.has(entry) && editDistance(q, entry.name.slice(0, q.length)) <= tolerance) scored.push([3, entry])
+      })
+    }
+    return scored
+      .sort(([sa, a], [sb, b]) => sa - sb || b.weight - a.weight || a.place.label.localeCompare(b.place.label))
+      .slice(0, limit)
+      .map(([, entry]) => entry.place)
+  }
+
+  /**
+   * Completions for the words at the end of the text being typed
+   *
+   * Only offered when those words look like a place: capitalized, or after
+   * "in", "over", "near", ... so that typing "show the map" stays quiet.
+   */
+  suggest(text: string, limit = MAX_CHOICES): PlaceSuggestions | null {
+    if (/[\s,]$/.test(text)) return null
+    const tokens = tokenize(text)
+    for (let count = Math.min(4, tokens.length); count >= 1; count--) {
+      const span = tokens.slice(tokens.length - count)
+      if (span.some(t => t.norm === ',')) continue
+      const before = tokens[tokens.length - count - 1]
+      const looksLikePlace = /^\p{Lu}/u.test(span[0].raw) || (before !== undefined && LOCATIVES.has(before.norm))
+      if (!looksLikePlace) continue
+      const spanText = text.slice(span[0].start)
+      if (normalizePlaceName(spanText).length < 3 && !/^[A-Z]{2}$/.test(spanText)) continue
+      const places = this.search(spanText, limit)
+      // Several words must all be part of the name, not a fuzzy guess
+      if (places.length > 0 && (count === 1 || places.some(p => normalizePlaceName(p.name).startsWith(span[0].norm)))) {
+        return { from: span[0].start, places }
+      }
+    }
+    return null
+  }
+
+  /**
+   * Places named in a question, in order of appearance
+   */
+  resolve(query: string): PlaceMatch[] {
+    const tokens = tokenize(query)
+    const matches: PlaceMatch[] = []
+    let i = 0
+    while (i < tokens.length) {
+      const exact = this.exactMatchAt(tokens, i)
+      if (exact) {
+        matches.push(exact.match)
+        i = exact.next
+        continue
+      }
+      const fuzzy = this.fuzzyMatchAt(tokens, i)
+      if (fuzzy) {
+        matches.push(fuzzy.match)
+        i = fuzzy.next
+        continue
+      }
+      i++
+    }
+    // "Springfield ... in Illinois": prefer the candidates inside a state named alongside
+    const states = matches.filter(m => !m.needsChoice && m.candidates[0].kind === 'state').map(m => m.candidates[0].state)
+    return matches.map(m => {
+      const inState = m.candidates.filter(c => c.kind !== 'state' && states.includes(c.state))
+      return m.needsChoice && !m.fuzzy && inState.length > 0
+        ? { ...m, candidates: inState, needsChoice: inState.length > 1 }
+        : m
+    })
+  }
+
+  // Longest name starting at token i, narrowed by a following state ("Springfield, IL")
+  private exactMatchAt(tokens: Token[], i: number): { match: PlaceMatch; next: number } | null {
+    for (let count = Math.min(this.longestKey, tokens.length - i); count >= 1; count--) {
+      const span = tokens.slice(i, i + count)
+      if (span.some(t => t.norm === ',')) continue
+      const key = span.map(t => t.norm).join(' ')
+      const capitalized = span.every(t => /^[\p{Lu}\p{N}]/u.test(t.raw) || NAME_PARTICLES.has(t.norm))
+      let entries = (this.byKey.get(key) ?? []).filter(e =>
+        e.place.kind !== 'city' || capitalized || e.weight >= CASE_FREE_POPULATION
+      )
+      if (entries.length === 0) continue
+
+      let next = i + count
+      const qualifier = this.stateQualifierAt(tokens, next)
+      if (qualifier) {
+        const inState = entries.filter(e => e.place.state === qualifier.state.state)
+        if (inState.length > 0) {
+          entries = inState
+          next = qualifier.next
+        }
+      }
+
+      entries = [...entries].sort((a, b) => b.weight - a.weight)
+      const plausible = entries.filter(e => e.weight >= entries[0].weight * AMBIGUITY_RATIO)
+      return {
+        match: {
+          text: tokenText(tokens, i, next),
+          candidates: (plausible.length > 1 ? plausible : entries).slice(0, MAX_CHOICES).map(e => e.place),
+          needsChoice: plausible.length > 1,
+          fuzzy: false
+        },
+        next
+      }
+    }
+    return null
+  }
+
+  // ", Maryland", ", MD", "MD" or a bare state name right after a place name
+  private stateQualifierAt(tokens: Token[], at: number): { state: Place; next: number } | null {
+    const comma = tokens[at]?.norm === ','
+    const start = comma ? at + 1 : at
+    for (let count = 3; count >= 1; count--) {
+      const span = tokens.slice(start, start + count)
+      if (span.length < count || span.some(t => t.norm === ',')) continue
+      const byName = this.statesByName.get(span.map(t => t.norm).join(' '))
+      // Abbreviations in capitals only, so that "in" and "or" stay words; "dc" in any case
+      const byAbbr = count === 1 && (/^[A-Z]\.?[A-Z]\.?$/.test(span[0].raw) || span[0].norm === 'dc')
+        ? this.statesByAbbr.get(span[0].norm.toUpperCase())
+        : undefined
+      const state = byName ?? byAbbr
+      if (state) return { state, next: start + count }
+    }
+    return null
+  }
+
+  // A misspelled state, large city or basin name ("Missisippi")
+  private fuzzyMatchAt(tokens: Token[], i: number): { match: PlaceMatch; next: number } | null {
+    for (let count = 2; count >= 1; count--) {
+      const span = tokens.slice(i, i + count)
+      if (span.length < count || span.some(t => t.norm === ',')) continue
+      const key = span.map(t => t.norm).join(' ')
+      if (key.length < 6) continue
+      const capitalized = span.every(t => /^\p{Lu}/u.test(t.raw))
+      const tolerance = maxEdits(key.length)
+      const near = this.fuzzyPool
+        .filter(e => (e.place.kind !== 'city' || capitalized) && Math.abs(e.name.length - key.length) <= tolerance)
+        .map(e => [editDistance(key, e.name), e] as const)
+        .filter(([distance]) => distance > 0 && distance <= tolerance)
+        .sort(([da, a], [db, b]) => da - db || b.weight - a.weight)
+      if (near.length > 0) {
+        return {
+          match: { text: tokenText(tokens, i, i + count), candidates: near.slice(0, 5).map(([, e]) => e.place), needsChoice: true, fuzzy: true },
+          next: i + count
+        }
+      }
+    }
+    return null
+  }
+}
+
+function tokenText(tokens: Token[], from: number, to: number): string {
+  return tokens.slice(from, to).map(t => t.raw).join(' ').replace(/ ,/g, ',')
+}
+
+let loading: Promise<Gazetteer> | null = null
+
+/**
+ * Load the place list once; the data is a separate chunk of about 100 kB gzipped
+ */
+export function loadGazetteer(): Promise<Gazetteer> {
+  if (!loading) {
+    loading = import('../data/gazetteer.json')
+      .then(module => new Gazetteer((module.default ?? module) as unknown as GazetteerData))
+      .catch(error => {
+        loading = null
+        throw error
+      })
+  }
+  return loading
+}
@@ -0,0 +1,139 @@
+/**
+ * GeoTIFF worker: fetch + decode, and paint into a PNG Blob off the main thread
+ *
+ * The libraries are the same CDN packages geotiffLoader injects as scripts,
+ * loaded here as ES modules since module workers have no importScripts().
+ */
+import {
+  decodeGeoTiffBuffer,
+  decodeGeoTiffWindow,
+  fetchGeoTiff,
+  imageSize,
+  paintRaster,
+  probeCog,
+  scaleForRaster,
+  selectBand,
+  type DecodedGeoTiff,
+  type GeoTiffLibraries,
+  type LoadStage,
+  type Resampling
+} from './geotiffDecode'
+import type { ColorScale } from './colorScale'
+import type { WorkerRequest, WorkerResponse } from './rasterWorker'
+
+const LIBRARY_URLS = {
+  geotiff: 'https://cdn.jsdelivr.net/npm/geotiff@2.0.7/+esm',
+  proj4: 'https://cdn.jsdelivr.net/npm/proj4@2.9.0/+esm',
+  geokeysToProj4: 'https://cdn.jsdelivr.net/npm/geotiff-geokeys-to-proj4@2022.9.7/+esm'
+}
+
+// The worker scope's postMessage has the Worker signature (message, transfer)
+const scope = self as unknown as Worker
+
+let libraries: Promise<GeoTiffLibraries> | null = null
+
+function loadLibraries(): Promise<GeoTiffLibraries> {
+  if (!libraries) {
+    libraries = Promise.all([
+      import(/* @vite-ignore */ LIBRARY_URLS.geotiff),
+      import(/* @vite-ignore */ LIBRARY_URLS.proj4),
+      import(/* @vite-ignore */ LIBRARY_URLS.geokeysToProj4).catch(() => null)
+    ]).then(([geotiff, proj4, geokeys]) => ({
+      GeoTIFF: geotiff,
+      proj4: proj4.default ?? proj4,
+      geokeysToProj4: geokeys ? geokeys.default ?? geokeys : undefined
+    }))
+  }
+  return libraries
+}
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer)
+}
+
+async function paintToBlob(
+  raster: DecodedGeoTiff,
+  scale: ColorScale | null,
+  resampling: Resampling | undefined,
+  report: (stage: LoadStage, fraction: number) => void
+): Promise<Blob> {
+  const { width, height } = imageSize(raster)
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')!
+  const imageData = ctx.createImageData(width, height)
+  paintRaster(raster, scale, imageData.data, fraction => report('colorize', fraction), resampling)
+  ctx.putImageData(imageData, 0, 0)
+  return canvas.convertToBlob({ type: 'image/png' })
+}
+
+// Pixel buffers to hand back without copying
+function transferablesOf(raster: DecodedGeoTiff): Transferable[] {
+  const arrays: unknown[] = [raster.values, ...raster.bandValues, raster.rgb, raster.warp?.col, raster.warp?.row]
+  // `values` shares its buffer with one of the bands; a buffer may be listed only once
+  return [...new Set(arrays
+    .filter((array): array is ArrayBufferView => ArrayBuffer.isView(array))
+    .map(array => array.buffer as ArrayBuffer))]
+}
+
+async function handle(request: WorkerRequest) {
+  const report = (stage: LoadStage, fraction: number) => post({ id: request.id, type: 'progress', stage, fraction })
+
+  if (request.type === 'colorize') {
+    const raster = selectBand(request.raster, request.style.band)
+    const scale = scaleForRaster(raster, request.style)
+    const image = await paintToBlob(raster, scale, request.style.resampling, report)
+    post({ id: request.id, type: 'done', image, scale })
+    return
+  }
+
+  let libs: GeoTiffLibraries
+  try {
+    libs = await loadLibraries()
+  } catch (error: any) {
+    libraries = null
+    post({ id: request.id, type: 'error', message: `GeoTIFF libraries failed to load: ${error?.message}`, libraryUnavailable: true })
+    return
+  }
+
+  if (request.type === 'probe') {
+    post({ id: request.id, type: 'done', info: await probeCog(request.url, libs) })
+    return
+  }
+
+  if (request.type === 'window') {
+    // Range reads: only the tiles under the viewport are fetched
+    report('fetch', 0)
+    const windowed = await decodeGeoTiffWindow(request.url, request.viewport, libs)
+    report('decode', 1)
+    if (!windowed) {
+      post({ id: request.id, type: 'done', raster: null })
+      return
+    }
+    const raster = selectBand(windowed, request.style.band)
+    const scale = scaleForRaster(raster, request.style)
+    const image = await paintToBlob(raster, scale, request.style.resampling, report)
+    post({ id: request.id, type: 'done', raster, image, scale }, transferablesOf(raster))
+    return
+  }
+
+  const buffer = await fetchGeoTiff(request.url, report)
+  report('decode', 0)
+  const decoded = await decodeGeoTiffBuffer(buffer, libs)
+  report('decode', 1)
+
+  if (request.type === 'decode') {
+    post({ id: request.id, type: 'done', raster: decoded }, transferablesOf(decoded))
+    return
+  }
+
+  const raster = selectBand(decoded, request.style.band)
+  const scale = scaleForRaster(raster, request.style)
+  const image = await paintToBlob(raster, scale, request.style.resampling, report)
+  post({ id: request.id, type: 'done', raster, image, scale }, transferablesOf(raster))
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  handle(event.data).catch((error: any) => {
+    post({ id: event.data.id, type: 'error', message: error?.message || String(error) })
+  })
+}
@@ -0,0 +1,737 @@
+/**
+ * GeoTIFF decoding and painting that runs on either thread
+ *
+ * Nothing here touches the DOM or the map, so the same code backs the Web
+ * Worker pipeline and the main-thread fallback in geotiffLoader.
+ */
+import {
+  RASTER_ALPHA,
+  buildColorScale,
+  colorForValue,
+  defaultStretch,
+  stretchRange,
+  type ColorScale,
+  type Stretch,
+  type ValueRange
+} from './colorScale'
+
+// The CDN libraries, from window globals or ESM imports
+export interface GeoTiffLibraries {
+  GeoTIFF: any
+  proj4?: any
+  geokeysToProj4?: any
+}
+
+export type LoadStage = 'fetch' | 'decode' | 'colorize'
+export type Resampling = 'nearest' | 'bilinear'
+/** Stretch each band on its own values, or all bands on the same range */
+export type BandScope = 'band' | 'global'
+export type ProgressCallback = (stage: LoadStage, fraction: number) => void
+
+// A decoded GeoTIFF: pixel values plus their WGS84 placement
+export interface DecodedGeoTiff {
+  width: number
+  height: number
+  corners: [number, number][]  // NW, NE, SE, SW
+  bbox: [number, number, number, number]  // west, south, east, north
+  /** The selected data band, scaled and with NoData as NaN; null for RGB imagery */
+  values: ArrayLike<number> | null
+  /** Every data band (variables or time steps), same treatment; empty for RGB imagery */
+  bandValues: ArrayLike<number>[]
+  /** Index of the band in `values` */
+  band: number
+  /** Interleaved RGB samples of true-color imagery */
+  rgb: ArrayLike<number> | null
+  /** Affine geotransform in the source CRS: [originX, pixelWidth, 0, originY, 0, pixelHeight] */
+  geoTransform: [number, number, number, number, number, number]
+  /** proj4 definition of the source CRS; null when it is (assumed) WGS84 */
+  projection: string | null
+  /** Web Mercator output grid the image is painted on; null when the source already is one */
+  warp: RasterWarp | null
+  metadata: RasterMetadata
+}
+
+// One band as GDAL describes it
+export interface BandInfo {
+  name: string | null
+  unit: string | null
+  /** Physical value = stored value * scale + offset */
+  scale: number
+  offset: number
+  /** Time step of this band (e.g. NETCDF_DIM_time of a netCDF-derived file) */
+  date: string | null
+}
+
+// What the file says about itself, from the GDAL_NODATA and GDAL_METADATA tags
+export interface RasterMetadata {
+  noData: number | null
+  bands: BandInfo[]
+  /** Acquisition or valid date, as written in the file */
+  date: string | null
+  /** Dataset-level metadata items */
+  items: Record<string, string>
+}
+
+/**
+ * Source pixel behind each pixel of the painted image. The image spans the
+ * raster's WGS84 bbox evenly in Web Mercator, which is how the map stretches
+ * an ImageLayer between its corners.
+ */
+export interface RasterWarp {
+  width: number
+  height: number
+  /** Fractional source column/row per output pixel (integers are pixel centers); NaN outside the raster */
+  col: Float32Array
+  row: Float32Array
+}
+
+// A pixel under a map position
+export interface PixelReadout {
+  value: number | null
+  row: number
+  col: number
+  /** Cell extent in WGS84: west, south, east, north */
+  cellBounds: [number, number, number, number]
+}
+
+// The part of the map a windowed read should cover
+export interface Viewport {
+  bounds: [number, number, number, number]  // west, south, east, north
+  /** Size of the map canvas in screen pixels */
+  width: number
+  height: number
+}
+
+// What a remote GeoTIFF offers for range reads
+export interface CogInfo {
+  /** Internally tiled, so a window only fetches the tiles it covers */
+  tiled: boolean
+  /** Reduced-resolution images stored after the full one */
+  overviews: number
+  width: number
+  height: number
+  bbox: [number, number, number, number]
+}
+
+// What to color a raster with; an explicit range wins over the stretch
+export interface ColorStyle {
+  variable: string
+  colormap?: any
+  stretch?: Stretch
+  range?: ValueRange | null
+  /** How warped pixels are sampled; defaults to nearest for data, bilinear for imagery */
+  resampling?: Resampling
+  /** Data band to show (default: the raster's current one) */
+  band?: number
+  bandScope?: BandScope
+}
+
+// Report painting progress every this many pixels
+const PROGRESS_STEP = 1 << 20
+// Output pixels between exactly projected warp nodes; the rest are interpolated
+const WARP_NODE_STEP = 16
+// Points per raster edge when tracing its outline into WGS84
+const EDGE_SAMPLES = 64
+// Browsers refuse larger canvases
+const MAX_IMAGE_SIZE = 8192
+const EARTH_RADIUS = 6378137
+// Remote GeoTIFFs kept open (with their fetched blocks) for further range reads
+const MAX_REMOTE_TIFFS = 8
+
+function toMercator([lon, lat]: number[]): [number, number] {
+  const clamped = Math.max(-85.05112878, Math.min(85.05112878, lat))
+  return [EARTH_RADIUS * lon * Math.PI / 180, EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + clamped * Math.PI / 360))]
+}
+
+function fromMercator([x, y]: number[]): [number, number] {
+  return [x / EARTH_RADIUS * 180 / Math.PI, (2 * Math.atan(Math.exp(y / EARTH_RADIUS)) - Math.PI / 2) * 180 / Math.PI]
+}
+
+/**
+ * Download a GeoTIFF, reporting progress when the size is known
+ * @throws Error on HTTP errors
+ */
+export async function fetchGeoTiff(url: string, onProgress?: ProgressCallback): Promise<ArrayBuffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch GeoTIFF: HTTP ${response.status}`)
+  }
+
+  const total = Number(response.headers.get('Content-Length')) || 0
+  if (!response.body || !total || !onProgress) {
+    return response.arrayBuffer()
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    received += value.length
+    // Content-Length is the compressed size for encoded transfers, so clamp
+    onProgress('fetch', Math.min(1, received / total))
+  }
+
+  const buffer = new Uint8Array(received)
+  let offset = 0
+  for (const chunk of chunks) {
+    buffer.set(chunk, offset)
+    offset += chunk.length
+  }
+  return buffer.buffer
+}
+
+// proj4 transformer between WGS84 and the source CRS
+interface Converter {
+  forward: (p: number[]) => number[]
+  inverse: (p: number[]) => number[]
+}
+
+// A grid of pixels in the source CRS
+interface SourceGrid {
+  width: number
+  height: number
+  geoTransform: DecodedGeoTiff['geoTransform']
+  converter: Converter | null
+  projection: string | null
+}
+
+// Step 5: CRITICAL - Find the source projection so it can be converted to WGS84
+function sourceProjectionOf(image: any, libs: GeoTiffLibraries): { converter: Converter | null; projection: string | null } {
+  const { proj4, geokeysToProj4 } = libs
+  console.log('Step 5: Converting projection to WGS84...')
+  if (!proj4 || !geokeysToProj4) {
+    console.warn('⚠️ proj4 libraries not available, assuming WGS84')
+    return { converter: null, projection: null }
+  }
+  try {
+    const geoKeys = image.getGeoKeys()
+    console.log('🗺️ GeoKeys:', geoKeys)
+
+    const projObj = geokeysToProj4.toProj4(geoKeys)
+    console.log('🗺️ Source projection:', projObj.proj4)
+
+    // Create projection transformer (WGS84 -> source; inverse goes back)
+    return { converter: proj4('WGS84', projObj.proj4), projection: projObj.proj4 }
+  } catch (projError) {
+    console.warn('⚠️ Projection conversion failed, assuming already WGS84:', projError)
+    return { converter: null, projection: null }
+  }
+}
+
+function geoTransformOf(image: any): DecodedGeoTiff['geoTransform'] {
+  const [originX, originY] = image.getOrigin()
+  const [pixelWidth, pixelHeight] = image.getResolution()
+  return [originX, pixelWidth, 0, originY, 0, pixelHeight]
+}
+
+/**
+ * WGS84 extent of a source grid. The whole outline is traced, not just two
+ * corners: in Albers or Lambert the edges curve and the extreme
+ * latitudes/longitudes sit mid-edge.
+ * @throws Error when the outline does not project to finite coordinates
+ */
+function gridBbox(grid: SourceGrid): [number, number, number, number] {
+  const [originX, pixelWidth, , originY, , pixelHeight] = grid.geoTransform
+  const toWgs84 = (col: number, row: number) => {
+    const point = [originX + col * pixelWidth, originY + row * pixelHeight]
+    return grid.converter ? grid.converter.inverse(point) : point
+  }
+  const outline: number[][] = []
+  for (let i = 0; i <= EDGE_SAMPLES; i++) {
+    const t = i / EDGE_SAMPLES
+    outline.push(toWgs84(t * grid.width, 0), toWgs84(t * grid.width, grid.height), toWgs84(0, t * grid.height), toWgs84(grid.width, t * grid.height))
+  }
+  const lons = outline.map(p => p[0])
+  const lats = outline.map(p => p[1])
+  const minXY = [Math.min(...lons), Math.min(...lats)]
+  const maxXY = [Math.max(...lons), Math.max(...lats)]
+
+  // Validate converted coordinates
+  if (!minXY.every(isFinite) || !maxXY.every(isFinite)) {
+    throw new Error(`Invalid projected coordinates: ${JSON.stringify({ minXY, maxXY })}`)
+  }
+  return [minXY[0], minXY[1], maxXY[0], maxXY[1]]
+}
+
+// Dataset keys that carry the acquisition/valid date, most specific first
+const DATE_KEYS = ['acquisition_date', 'acquisitiondate', 'valid_time', 'date', 'datetime', 'time', 'start_time', 'netcdf_dim_time', 'tifftag_datetime']
+
+function dateOf(items: Record<string, string>): string | null {
+  const keys = Object.keys(items)
+  const dateKey = DATE_KEYS.map(wanted => keys.find(key => key.toLowerCase() === wanted)).find(Boolean)
+  return dateKey ? items[dateKey] : null
+}
+
+function numberOr(value: string | undefined, fallback: number): number {
+  const parsed = value === undefined ? NaN : parseFloat(value)
+  return isFinite(parsed) ? parsed : fallback
+}
+
+// Value of the first key ending in `#suffix` (netCDF-derived "<var>#units" style) or equal to it
+function itemBySuffix(items: Record<string, string>, suffix: string): string | null {
+  const key = Object.keys(items).find(k => k.toLowerCase() === suffix || k.toLowerCase().endsWith(`#${suffix}`))
+  return key ? items[key] : null
+}
+
+/**
+ * Read NoData, per-band scale/offset/description/unit and dataset metadata.
+ * Files without GDAL tags get an identity scale and no names.
+ */
+function readMetadata(image: any): RasterMetadata {
+  const items: Record<string, string> = { ...(image.getGDALMetadata?.() || {}) }
+  const dateTime = image.fileDirectory?.DateTime
+  if (dateTime && !items.TIFFTAG_DATETIME) items.TIFFTAG_DATETIME = String(dateTime)
+
+  const bands: BandInfo[] = []
+  for (let sample = 0; sample < image.getSamplesPerPixel(); sample++) {
+    const band: Record<string, string> = image.getGDALMetadata?.(sample) || {}
+    bands.push({
+      name: band.DESCRIPTION || itemBySuffix(items, 'long_name'),
+      unit: band.UNITTYPE || itemBySuffix(items, 'units'),
+      scale: numberOr(band.SCALE, 1),
+      offset: numberOr(band.OFFSET, 0),
+      date: dateOf(band)
+    })
+  }
+
+  const noData = image.getGDALNoData?.()
+  return {
+    noData: typeof noData === 'number' && !isNaN(noData) ? noData : null,
+    bands,
+    date: dateOf(items),
+    items
+  }
+}
+
+// Stored samples to physical values; NoData (also as float32) becomes NaN
+function toPhysical(raw: ArrayLike<number>, band: BandInfo, noData: number | null): Float32Array {
+  const values = new Float32Array(raw.length)
+  const fill32 = noData === null ? NaN : Math.fround(noData)
+  for (let i = 0; i < raw.length; i++) {
+    const v = raw[i]
+    values[i] = v === noData || v === fill32 ? NaN : v * band.scale + band.offset
+  }
+  return values
+}
+
+/**
+ * True-color imagery rather than data bands: an RGB/YCbCr photometric tag,
+ * or 3-4 plain 8-bit bands with no names or scaling. Multi-band float or
+ * described products (several days or variables) are data.
+ */
+function isTrueColor(image: any, metadata: RasterMetadata): boolean {
+  const samples = image.getSamplesPerPixel()
+  if (samples < 3) return false
+  const directory = image.fileDirectory || {}
+  const photometric = directory.PhotometricInterpretation
+  if (photometric === 2 || photometric === 6) return true
+  const bits: number[] = Array.from(directory.BitsPerSample || [])
+  const formats: number[] = Array.from(directory.SampleFormat || [1])
+  const plainBytes = bits.length > 0 && bits.every(b => b === 8) && formats.every(f => f === 1)
+  const described = metadata.bands.some(b => b.name || b.date || b.scale !== 1 || b.offset !== 0)
+  return samples <= 4 && plainBytes && !described
+}
+
+type DecodedPixels = Pick<DecodedGeoTiff, 'values' | 'bandValues' | 'band' | 'rgb'>
+
+// Step 6: Read pixel data (optionally only a window: [left, top, right, bottom] in pixels)
+async function readPixels(image: any, GeoTIFF: any, metadata: RasterMetadata, window?: number[]): Promise<DecodedPixels> {
+  console.log('Step 6: Reading pixel data...', window ? `window ${window.join(',')}` : '')
+  if (isTrueColor(image, metadata)) {
+    // GeoTIFF has RGB bands - use them directly
+    console.log('📊 GeoTIFF has RGB bands, reading...')
+    // geotiff's decoder pool spawns its own workers; only worth it on the main thread
+    const pool = typeof document !== 'undefined' && GeoTIFF.Pool ? new GeoTIFF.Pool() : undefined
+    const rgb = await image.readRGB({ pool, window })
+    console.log('✅ RGB data loaded:', rgb.length, 'bytes')
+    return { values: null, bandValues: [], band: 0, rgb }
+  }
+  console.log('📊 Data GeoTIFF, reading', metadata.bands.length, 'band(s)...')
+  const rasters = await image.readRasters({ window })
+  const bandValues = metadata.bands.map((band, i) => toPhysical(rasters[i], band, metadata.noData))
+  console.log('✅ Raster data loaded:', bandValues[0].length, 'values per band', metadata.noData !== null ? `(NoData ${metadata.noData})` : '')
+  return { values: bandValues[0], bandValues, band: 0, rgb: null }
+}
+
+// Step 7: Place decoded pixels on the map: corners, bbox and the Mercator warp
+function placeRaster(grid: SourceGrid, pixels: DecodedPixels, metadata: RasterMetadata): DecodedGeoTiff {
+  const bbox = gridBbox(grid)
+  console.log('📍 Final bbox for camera:', bbox)
+
+  // Step 7: Create corner coordinates (Microsoft's order)
+  console.log('Step 7: Creating corner coordinates...')
+
+  // CRITICAL: Must use exact order from Microsoft example
+  const corners: [number, number][] = [
+    [bbox[0], bbox[3]],  // Top-left (Northwest)
+    [bbox[2], bbox[3]],  // Top-right (Northeast)
+    [bbox[2], bbox[1]],  // Bottom-right (Southeast)
+    [bbox[0], bbox[1]]   // Bottom-left (Southwest)
+  ]
+
+  console.log('📍 Image corners (WGS84):', corners)
+
+  // Step 7b: Warp onto Web Mercator unless the source already is one
+  const alreadyMercator = !!grid.projection && /\+proj=merc\b/.test(grid.projection)
+  const warp = alreadyMercator ? null : buildWarp(grid.width, grid.height, grid.geoTransform, grid.converter, bbox)
+  if (warp) console.log('✅ Warp grid:', warp.width, 'x', warp.height)
+
+  return {
+    width: grid.width,
+    height: grid.height,
+    corners,
+    bbox,
+    ...pixels,
+    // Keep the geotransform so positions can be mapped back to exact pixels
+    geoTransform: grid.geoTransform,
+    projection: grid.projection,
+    warp,
+    metadata
+  }
+}
+
+/**
+ * Parse a GeoTIFF and place it in WGS84 (steps 3-7)
+ * @throws Error when the file has no usable georeferencing
+ */
+export async function decodeGeoTiffBuffer(arrayBuffer: ArrayBuffer, libs: GeoTiffLibraries): Promise<DecodedGeoTiff> {
+  // Step 3: Parse GeoTIFF
+  console.log('Step 3: Parsing GeoTIFF...')
+  const tiff = await libs.GeoTIFF.fromArrayBuffer(arrayBuffer)
+  const image = await tiff.getImage()
+
+  const width = image.getWidth()
+  const height = image.getHeight()
+  console.log('✅ Parsed - Dimensions:', { width, height, samplesPerPixel: image.getSamplesPerPixel() })
+
+  // Step 4: Get bounding box
+  console.log('Step 4: Extracting bounding box...')
+  const bounds = image.getBoundingBox()
+  if (!bounds || bounds.length !== 4) {
+    throw new Error('No valid bounding box found')
+  }
+  console.log('📍 Raw bounds (original projection):', bounds)
+
+  const grid: SourceGrid = { width, height, geoTransform: geoTransformOf(image), ...sourceProjectionOf(image, libs) }
+  const metadata = readMetadata(image)
+  return placeRaster(grid, await readPixels(image, libs.GeoTIFF, metadata), metadata)
+}
+
+const remoteTiffs = new Map<string, Promise<any>>()
+
+// Open a GeoTIFF over HTTP range requests; only the header is fetched here
+function openRemoteTiff(url: string, libs: GeoTiffLibraries): Promise<any> {
+  let tiff = remoteTiffs.get(url)
+  if (!tiff) {
+    // Servers without range support still work, at the cost of one full download
+    tiff = libs.GeoTIFF.fromUrl(url, { allowFullFile: true }) as Promise<any>
+    tiff.catch(() => remoteTiffs.delete(url))
+    remoteTiffs.set(url, tiff)
+    if (remoteTiffs.size > MAX_REMOTE_TIFFS) {
+      remoteTiffs.delete(remoteTiffs.keys().next().value!)
+    }
+  }
+  return tiff
+}
+
+/**
+ * Read a remote GeoTIFF's header: tiling, overviews and WGS84 extent
+ * @throws Error when the file can't be opened or has no georeferencing
+ */
+export async function probeCog(url: string, libs: GeoTiffLibraries): Promise<CogInfo> {
+  const tiff = await openRemoteTiff(url, libs)
+  const image = await tiff.getImage(0)
+  const grid: SourceGrid = {
+    width: image.getWidth(),
+    height: image.getHeight(),
+    geoTransform: geoTransformOf(image),
+    ...sourceProjectionOf(image, libs)
+  }
+  return {
+    tiled: !!image.isTiled,
+    overviews: (await tiff.getImageCount()) - 1,
+    width: grid.width,
+    height: grid.height,
+    bbox: gridBbox(grid)
+  }
+}
+
+/**
+ * Decode only what a viewport shows: the coarsest overview that still has
+ * at least one pixel per screen pixel, cropped to the view. Range reads fetch
+ * just the internal tiles under that window.
+ * @returns null when the view does not overlap the raster
+ */
+export async function decodeGeoTiffWindow(url: string, viewport: Viewport, libs: GeoTiffLibraries): Promise<DecodedGeoTiff | null> {
+  const tiff = await openRemoteTiff(url, libs)
+  const base = await tiff.getImage(0)
+  const baseWidth = base.getWidth()
+  const baseHeight = base.getHeight()
+  const [originX, pixelWidth, , originY, , pixelHeight] = geoTransformOf(base)
+  const { converter, projection } = sourceProjectionOf(base, libs)
+
+  // View outline in full-resolution pixel coordinates
+  const [west, south, east, north] = viewport.bounds
+  const cols: number[] = []
+  const rows: number[] = []
+  for (let i = 0; i <= EDGE_SAMPLES; i++) {
+    const t = i / EDGE_SAMPLES
+    const lon = west + (east - west) * t
+    const lat = south + (north - south) * t
+    for (const point of [[lon, south], [lon, north], [west, lat], [east, lat]]) {
+      const [x, y] = converter ? converter.forward(point) : point
+      if (!isFinite(x) || !isFinite(y)) continue
+      cols.push((x - originX) / pixelWidth)
+      rows.push((y - originY) / pixelHeight)
+    }
+  }
+  if (cols.length === 0) return null
+  const viewLeft = Math.min(...cols)
+  const viewRight = Math.max(...cols)
+  const viewTop = Math.min(...rows)
+  const viewBottom = Math.max(...rows)
+  if (viewRight <= 0 || viewBottom <= 0 || viewLeft >= baseWidth || viewTop >= baseHeight) return null
+
+  // Coarsest overview that still resolves the screen
+  const needed = Math.max((viewRight - viewLeft) / viewport.width, (viewBottom - viewTop) / viewport.height)
+  let image = base
+  let factor = 1
+  const count = await tiff.getImageCount()
+  for (let i = 1; i < count; i++) {
+    const overview = await tiff.getImage(i)
+    const overviewFactor = baseWidth / overview.getWidth()
+    if (overviewFactor > factor && overviewFactor <= needed) {
+      image = overview
+      factor = overviewFactor
+    }
+  }
+  const factorY = baseHeight / image.getHeight()
+
+  // Window in the chosen image, padded a pixel so edges resample cleanly
+  const left = Math.max(0, Math.floor(viewLeft / factor) - 1)
+  const top = Math.max(0, Math.floor(viewTop / factorY) - 1)
+  const right = Math.min(image.getWidth(), Math.ceil(viewRight / factor) + 1)
+  const bottom = Math.min(image.getHeight(), Math.ceil(viewBottom / factorY) + 1)
+  console.log(`🧩 COG window ${right - left}x${bottom - top} from image at 1/${factor.toFixed(1)} resolution`)
+
+  const grid: SourceGrid = {
+    width: right - left,
+    height: bottom - top,
+    geoTransform: [originX + left * pixelWidth * factor, pixelWidth * factor, 0, originY + top * pixelHeight * factorY, 0, pixelHeight * factorY],
+    converter,
+    projection
+  }
+  // Overviews often lack the GDAL tags; the full-resolution image has them
+  const metadata = readMetadata(base)
+  return placeRaster(grid, await readPixels(image, libs.GeoTIFF, metadata, [left, top, right, bottom]), metadata)
+}
+
+/**
+ * Map every pixel of a Web Mercator image over `bbox` back to the source grid.
+ * Nodes every WARP_NODE_STEP pixels go through proj4; pixels in between are
+ * interpolated, which stays well under a pixel off for regional grids.
+ */
+function buildWarp(
+  width: number,
+  height: number,
+  geoTransform: DecodedGeoTiff['geoTransform'],
+  converter: Converter | null,
+  bbox: [number, number, number, number]
+): RasterWarp {
+  const [originX, pixelWidth, , originY, , pixelHeight] = geoTransform
+  const [west, south] = toMercator([bbox[0], bbox[1]])
+  const [east, north] = toMercator([bbox[2], bbox[3]])
+
+  // About as many pixels as the source, with the aspect of the Mercator extent
+  const aspect = (east - west) / (north - south)
+  const outWidth = Math.max(1, Math.min(MAX_IMAGE_SIZE, Math.round(Math.sqrt(width * height * aspect))))
+  const outHeight = Math.max(1, Math.min(MAX_IMAGE_SIZE, Math.round(width * height / outWidth)))
+  const cellX = (east - west) / outWidth
+  const cellY = (north - south) / outHeight
+
+  // Exact source position of the node grid
+  const nodesX = Math.ceil(outWidth / WARP_NODE_STEP) + 1
+  const nodesY = Math.ceil(outHeight / WARP_NODE_STEP) + 1
+  const nodeCol = new Float64Array(nodesX * nodesY)
+  const nodeRow = new Float64Array(nodesX * nodesY)
+  for (let j = 0; j < nodesY; j++) {
+    for (let i = 0; i < nodesX; i++) {
+      const lonLat = fromMercator([west + (i * WARP_NODE_STEP + 0.5) * cellX, north - (j * WARP_NODE_STEP + 0.5) * cellY])
+      const [x, y] = converter ? converter.forward(lonLat) : lonLat
+      nodeCol[j * nodesX + i] = (x - originX) / pixelWidth - 0.5
+      nodeRow[j * nodesX + i] = (y - originY) / pixelHeight - 0.5
+    }
+  }
+
+  const col = new Float32Array(outWidth * outHeight)
+  const row = new Float32Array(outWidth * outHeight)
+  for (let y = 0; y < outHeight; y++) {
+    const j = Math.floor(y / WARP_NODE_STEP)
+    const fy = (y - j * WARP_NODE_STEP) / WARP_NODE_STEP
+    for (let x = 0; x < outWidth; x++) {
+      const i = Math.floor(x / WARP_NODE_STEP)
+      const fx = (x - i * WARP_NODE_STEP) / WARP_NODE_STEP
+      const n = j * nodesX + i
+      const lerp = (grid: Float64Array) => {
+        const top = grid[n] + (grid[n + 1] - grid[n]) * fx
+        const bottom = grid[n + nodesX] + (grid[n + nodesX + 1] - grid[n + nodesX]) * fx
+        return top + (bottom - top) * fy
+      }
+      const c = lerp(nodeCol)
+      const r = lerp(nodeRow)
+      const k = y * outWidth + x
+      const inside = c >= -0.5 && r >= -0.5 && c < width - 0.5 && r < height - 0.5
+      col[k] = inside ? c : NaN
+      row[k] = inside ? r : NaN
+    }
+  }
+  return { width: outWidth, height: outHeight, col, row }
+}
+
+/**
+ * Pixel size of the painted image
+ */
+export function imageSize(raster: DecodedGeoTiff): { width: number; height: number } {
+  return raster.warp ? { width: raster.warp.width, height: raster.warp.height } : { width: raster.width, height: raster.height }
+}
+
+// Source value at a fractional pixel position (band = sample within an interleaved pixel)
+function sampleAt(
+  data: ArrayLike<number>,
+  samples: number,
+  band: number,
+  width: number,
+  height: number,
+  col: number,
+  row: number,
+  resampling: Resampling
+): number {
+  if (resampling === 'nearest') {
+    const c = Math.min(width - 1, Math.max(0, Math.round(col)))
+    const r = Math.min(height - 1, Math.max(0, Math.round(row)))
+    return data[(r * width + c) * samples + band]
+  }
+  const c0 = Math.min(width - 1, Math.max(0, Math.floor(col)))
+  const r0 = Math.min(height - 1, Math.max(0, Math.floor(row)))
+  const c1 = Math.min(width - 1, c0 + 1)
+  const r1 = Math.min(height - 1, r0 + 1)
+  const fx = Math.min(1, Math.max(0, col - c0))
+  const fy = Math.min(1, Math.max(0, row - r0))
+  const at = (r: number, c: number) => data[(r * width + c) * samples + band]
+  const top = at(r0, c0) + (at(r0, c1) - at(r0, c0)) * fx
+  const bottom = at(r1, c0) + (at(r1, c1) - at(r1, c0)) * fx
+  const value = top + (bottom - top) * fy
+  // A NoData neighbour poisons the blend; keep the nearest value instead
+  return isFinite(value) ? value : sampleAt(data, samples, band, width, height, col, row, 'nearest')
+}
+
+/**
+ * The raster with another data band in `values` (unchanged for RGB or an unknown band)
+ */
+export function selectBand(raster: DecodedGeoTiff, band: number | undefined): DecodedGeoTiff {
+  if (band === undefined || band === raster.band || !raster.bandValues[band]) return raster
+  return { ...raster, values: raster.bandValues[band], band }
+}
+
+/**
+ * Display name of a band: its time step, description or position
+ */
+export function bandLabel(metadata: RasterMetadata, band: number): string {
+  const info = metadata.bands[band]
+  return info?.date || info?.name || `Band ${band + 1}`
+}
+
+// Stretch over every band at once, so colors compare across bands
+function globalRange(bandValues: ArrayLike<number>[], stretch: Stretch): ValueRange | null {
+  const all = new Float32Array(bandValues.reduce((n, band) => n + band.length, 0))
+  let offset = 0
+  for (const band of bandValues) {
+    all.set(band, offset)
+    offset += band.length
+  }
+  return stretchRange(all, stretch)
+}
+
+/**
+ * Color scale for a raster under a style (null for RGB imagery); the raster
+ * should already have the style's band selected
+ */
+export function scaleForRaster(raster: DecodedGeoTiff, style: ColorStyle): ColorScale | null {
+  if (!raster.values) return null
+  const stretch = style.stretch || defaultStretch(style.variable)
+  const range = style.range !== undefined
+    ? style.range
+    : style.bandScope === 'global' && raster.bandValues.length > 1
+      ? globalRange(raster.bandValues, stretch)
+      : stretchRange(raster.values, stretch)
+  return buildColorScale(style.variable, style.colormap, range)
+}
+
+/**
+ * Write RGBA pixels for a raster into a zero-filled buffer of imageSize()
+ * (RGB imagery ignores the scale; NoData and pixels outside a warped raster
+ * stay transparent)
+ */
+export function paintRaster(
+  raster: DecodedGeoTiff,
+  scale: ColorScale | null,
+  data: Uint8ClampedArray,
+  onProgress?: (fraction: number) => void,
+  resampling?: Resampling
+): void {
+  const { width, height, warp } = raster
+  const pixels = warp ? warp.col.length : width * height
+
+  if (raster.rgb) {
+    // Copy RGB data to canvas
+    const rgb = raster.rgb
+    const method = resampling || 'bilinear'
+    for (let i = 0; i < pixels; i++) {
+      if (onProgress && i % PROGRESS_STEP === 0) onProgress(i / pixels)
+      const j = i * 4
+      if (warp) {
+        const col = warp.col[i]
+        if (isNaN(col)) continue
+        const row = warp.row[i]
+        for (let band = 0; band < 3; band++) {
+          data[j + band] = sampleAt(rgb, 3, band, width, height, col, row, method)
+        }
+      } else {
+        data[j] = rgb[i * 3]           // Red
+        data[j + 1] = rgb[i * 3 + 1]   // Green
+        data[j + 2] = rgb[i * 3 + 2]   // Blue
+      }
+      data[j + 3] = 255        // Alpha (fully opaque)
+    }
+    console.log('✅ RGB pixels painted')
+  } else if (raster.values && scale) {
+    const values = raster.values
+    const method = resampling || 'nearest'
+    console.log('📊 Value range:', scale.range, scale.classes ? `(${scale.classes.length} classes)` : '')
+
+    for (let i = 0; i < pixels; i++) {
+      if (onProgress && i % PROGRESS_STEP === 0) onProgress(i / pixels)
+      let value: number
+      if (warp) {
+        const col = warp.col[i]
+        if (isNaN(col)) continue
+        value = sampleAt(values, 1, 0, width, height, col, warp.row[i], method)
+      } else {
+        value = values[i]
+      }
+      const color = colorForValue(scale, value)
+      // NoData and unclassified pixels stay transparent (the buffer is zero-filled)
+      if (!color) continue
+      const pixelIndex = i * 4
+      data[pixelIndex] = color[0]
+      data[pixelIndex + 1] = color[1]
+      data[pixelIndex + 2] = color[2]
+      data[pixelIndex + 3] = RASTER_ALPHA
+    }
+    console.log('✅ Single-band pixels painted with colormap')
+  }
+  onProgress?.(1)
+}
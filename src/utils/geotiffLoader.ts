@@ -1,4 +1,28 @@
 import * as atlas from 'azure-maps-control'
+import type { ColorScale, Stretch, ValueRange } from './colorScale'
+import {
+  decodeGeoTiffBuffer,
+  decodeGeoTiffWindow,
+  fetchGeoTiff,
+  imageSize,
+  paintRaster,
+  probeCog,
+  scaleForRaster,
+  selectBand,
+  type CogInfo,
+  type ColorStyle,
+  type GeoTiffLibraries,
+  type DecodedGeoTiff,
+  type PixelReadout,
+  type ProgressCallback,
+  type Resampling,
+  type Viewport
+} from './geotiffDecode'
+import { WorkerUnavailableError, rasterWorkersAvailable, runInWorker } from './rasterWorker'
+import { WebGLRasterLayer, webglRasterSupported } from './webglRasterLayer'
+
+export { bandLabel } from './geotiffDecode'
+export type { BandScope, CogInfo, ColorStyle, DecodedGeoTiff, LoadStage, PixelReadout, ProgressCallback, Resampling, Viewport } from './geotiffDecode'
 
 // Load required libraries for GeoTIFF processing
 export async function loadGeoTiffLibraries() {
@@ -18,314 +42,385 @@ export async function loadGeoTiffLibraries() {
   }
 }
 
-// Load GeoTIFF overlay using Microsoft's official method
-export async function loadGeoTiffOverlay(
-  geotiffUrl: string, 
-  map: atlas.Map,
-  variable: string = 'spi',
-  colormap?: any
-): Promise<atlas.layer.ImageLayer | null> {
+// A GeoTIFF colorized into a PNG, placed by its WGS84 corners
+export interface RenderedGeoTiff {
+  /** Object URL of the PNG; release with releaseImageUrl() once replaced */
+  imageUrl: string
+  corners: [number, number][]  // NW, NE, SE, SW
+  bbox: [number, number, number, number]  // west, south, east, north
+  raster: DecodedGeoTiff
+  /** Scale the pixels were colored with (single-band data only) */
+  scale: ColorScale | null
+}
+
+// A rendered GeoTIFF together with the map layer showing it
+export interface GeoTiffOverlay extends RenderedGeoTiff {
+  layer: atlas.layer.ImageLayer
+}
+
+// Step 1: Load all required libraries (main-thread fallback: script tags)
+async function mainThreadLibraries(): Promise<GeoTiffLibraries> {
+  console.log('Step 1: Loading libraries...')
+  await loadGeoTiffLibraries()
+
+  const GeoTIFF = (window as any).GeoTIFF
+  if (!GeoTIFF) {
+    throw new Error('GeoTIFF library not loaded')
+  }
+  console.log('✅ Libraries loaded')
+  return { GeoTIFF, proj4: (window as any).proj4, geokeysToProj4: (window as any).geokeysToProj4 }
+}
+
+// A data GeoTIFF drawn by the WebGL layer: restyling only changes uniforms
+export interface GeoTiffGLOverlay {
+  layer: WebGLRasterLayer
+  /** The raster on screen (the selected band) */
+  raster: DecodedGeoTiff
+  scale: ColorScale | null
+}
+
+// Main-thread fallback (steps 1-7)
+async function decodeOnMainThread(geotiffUrl: string, onProgress?: ProgressCallback): Promise<DecodedGeoTiff> {
+  const libs = await mainThreadLibraries()
+
+  // Step 2: Fetch GeoTIFF
+  console.log('Step 2: Fetching GeoTIFF...')
+  const arrayBuffer = await fetchGeoTiff(geotiffUrl, onProgress)
+  console.log('✅ Fetched:', (arrayBuffer.byteLength / 1024).toFixed(2), 'KB')
+
+  onProgress?.('decode', 0)
+  const raster = await decodeGeoTiffBuffer(arrayBuffer, libs)
+  onProgress?.('decode', 1)
+  return raster
+}
+
+async function paintOnMainThread(raster: DecodedGeoTiff, scale: ColorScale | null, resampling?: Resampling): Promise<string> {
+  const { width, height } = imageSize(raster)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')!
+  const imageData = ctx.createImageData(width, height)
+  paintRaster(raster, scale, imageData.data, undefined, resampling)
+  ctx.putImageData(imageData, 0, 0)
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+  if (!blob) throw new Error('Canvas could not be encoded as PNG')
+  return URL.createObjectURL(blob)
+}
+
+// Run in the worker pool, or on the main thread when workers can't be used
+async function withWorkerFallback<T>(inWorker: () => Promise<T>, onMainThread: () => Promise<T>): Promise<T> {
+  if (rasterWorkersAvailable()) {
+    try {
+      return await inWorker()
+    } catch (error) {
+      if (!(error instanceof WorkerUnavailableError)) throw error
+      console.warn('⚠️ GeoTIFF worker unavailable, decoding on the main thread:', error.message)
+    }
+  }
+  return onMainThread()
+}
+
+// Fetch and decode a GeoTIFF into WGS84-placed values
+export async function decodeGeoTiff(geotiffUrl: string, onProgress?: ProgressCallback): Promise<DecodedGeoTiff | null> {
   console.log('🔧 ====== Microsoft Method with Projection Fix ======')
   console.log('GeoTIFF URL:', geotiffUrl)
-  
+
   try {
-    // Step 1: Load all required libraries
-    console.log('Step 1: Loading libraries...')
-    await loadGeoTiffLibraries()
-    
-    const GeoTIFF = (window as any).GeoTIFF
-    const proj4 = (window as any).proj4
-    const geokeysToProj4 = (window as any).geokeysToProj4
-    
-    if (!GeoTIFF) {
-      console.error('❌ GeoTIFF library not loaded')
-      return null
-    }
-    console.log('✅ Libraries loaded')
-    
-    // Step 2: Fetch GeoTIFF
-    console.log('Step 2: Fetching GeoTIFF...')
-    const response = await fetch(geotiffUrl)
-    
-    if (!response.ok) {
-      console.error('❌ Failed to fetch GeoTIFF:', response.status)
-      return null
-    }
-    
-    const arrayBuffer = await response.arrayBuffer()
-    console.log('✅ Fetched:', (arrayBuffer.byteLength / 1024).toFixed(2), 'KB')
-    
-    // Step 3: Parse GeoTIFF
-    console.log('Step 3: Parsing GeoTIFF...')
-    const tiff = await GeoTIFF.fromArrayBuffer(arrayBuffer)
-    const image = await tiff.getImage()
-    
-    const width = image.getWidth()
-    const height = image.getHeight()
-    const samplesPerPixel = image.getSamplesPerPixel()
-    
-    console.log('✅ Parsed - Dimensions:', { width, height, samplesPerPixel })
-    
-    // Step 4: Get bounding box
-    console.log('Step 4: Extracting bounding box...')
-    const bounds = image.getBoundingBox()
-    
-    if (!bounds || bounds.length !== 4) {
-      console.error('❌ No valid bounding box found')
-      return null
-    }
-    
-    console.log('📍 Raw bounds (original projection):', bounds)
-    
-    // Step 5: CRITICAL - Convert projection to WGS84
-    console.log('Step 5: Converting projection to WGS84...')
-    let minXY: number[]
-    let maxXY: number[]
-    
-    if (proj4 && geokeysToProj4) {
-      try {
-        const geoKeys = image.getGeoKeys()
-        console.log('🗺️ GeoKeys:', geoKeys)
-        
-        const projObj = geokeysToProj4.toProj4(geoKeys)
-        console.log('🗺️ Source projection:', projObj.proj4)
-        
-        // Create projection transformer
-        const projection = proj4('WGS84', projObj.proj4)
-        
-        // Transform corners from source projection to WGS84
-        minXY = projection.inverse([bounds[0], bounds[1]])
-        maxXY = projection.inverse([bounds[2], bounds[3]])
-        
-        console.log('✅ Converted to WGS84:')
-        console.log('  - SW corner (min):', minXY)
-        console.log('  - NE corner (max):', maxXY)
-      } catch (projError) {
-        console.warn('⚠️ Projection conversion failed, assuming already WGS84:', projError)
-        minXY = [bounds[0], bounds[1]]
-        maxXY = [bounds[2], bounds[3]]
-      }
-    } else {
-      console.warn('⚠️ proj4 libraries not available, assuming WGS84')
-      minXY = [bounds[0], bounds[1]]
-      maxXY = [bounds[2], bounds[3]]
-    }
-    
-    // Validate converted coordinates
-    if (!minXY.every(isFinite) || !maxXY.every(isFinite)) {
-      console.error('❌ Invalid projected coordinates:', { minXY, maxXY })
-      return null
+    return await withWorkerFallback(
+      async () => (await runInWorker({ type: 'decode', url: geotiffUrl }, onProgress)).raster!,
+      () => decodeOnMainThread(geotiffUrl, onProgress)
+    )
+  } catch (error: any) {
+    console.error('❌ ====== GEOTIFF LOADING FAILED ======')
+    console.error('Error:', error?.message)
+    return null
+  }
+}
+
+// Colorize decoded pixels into a PNG object URL (RGB imagery ignores the style)
+export async function colorizeGeoTiff(
+  raster: DecodedGeoTiff,
+  style: ColorStyle,
+  onProgress?: ProgressCallback
+): Promise<{ imageUrl: string; scale: ColorScale | null }> {
+  return withWorkerFallback(
+    async () => {
+      // The raster is copied to the worker; the main thread keeps its own for readouts
+      const { image, scale } = await runInWorker({ type: 'colorize', raster, style }, onProgress)
+      return { imageUrl: URL.createObjectURL(image!), scale: scale ?? null }
+    },
+    async () => {
+      const selected = selectBand(raster, style.band)
+      const scale = scaleForRaster(selected, style)
+      return { imageUrl: await paintOnMainThread(selected, scale, style.resampling), scale }
     }
-    
-    const bbox = [minXY[0], minXY[1], maxXY[0], maxXY[1]]
-    console.log('📍 Final bbox for camera:', bbox)
-    
-    // Step 6: Read image data and convert to PNG
-    console.log('Step 6: Converting to PNG...')
-    let canvas: HTMLCanvasElement
-    let pngUrl: string
-    
-    if (samplesPerPixel >= 3) {
-      // GeoTIFF has RGB bands - use them directly
-      console.log('📊 GeoTIFF has RGB bands, reading...')
-      
-      const pool = new GeoTIFF.Pool()
-      const rgb = await image.readRGB({ pool })
-      
-      console.log('✅ RGB data loaded:', rgb.length, 'bytes')
-      
-      // Create canvas
-      canvas = document.createElement('canvas')
-      canvas.width = width
-      canvas.height = height
-      
-      const ctx = canvas.getContext('2d')!
-      const imageData = ctx.createImageData(width, height)
-      const data = imageData.data
-      
-      // Copy RGB data to canvas
-      let j = 0
-      for (let i = 0; i < rgb.length; i += 3) {
-        data[j] = rgb[i]       // Red
-        data[j + 1] = rgb[i + 1] // Green
-        data[j + 2] = rgb[i + 2] // Blue
-        data[j + 3] = 255        // Alpha (fully opaque)
-        j += 4
-      }
-      
-      ctx.putImageData(imageData, 0, 0)
-      pngUrl = canvas.toDataURL('image/png', 1.0)
-      
-      console.log('✅ RGB canvas created')
-      
-    } else {
-      // Single band - apply colormap
-      console.log('📊 Single band GeoTIFF, applying colormap...')
-      
-      const rasters = await image.readRasters()
-      const values = rasters[0] as Float32Array
-      
-      console.log('✅ Raster data loaded:', values.length, 'values')
-      
-      // Find min/max for normalization
-      let min = Infinity
-      let max = -Infinity
-      
-      for (let i = 0; i < values.length; i++) {
-        if (isFinite(values[i])) {
-          min = Math.min(min, values[i])
-          max = Math.max(max, values[i])
-        }
-      }
-      
-      console.log('📊 Value range:', { min, max })
-      
-      // Create canvas with colormap
-      canvas = document.createElement('canvas')
-      canvas.width = width
-      canvas.height = height
-      
-      const ctx = canvas.getContext('2d')!
-      const imageData = ctx.createImageData(width, height)
-      const data = imageData.data
-      
-      // Apply colormap based on variable type
-      for (let i = 0; i < values.length; i++) {
-        const value = values[i]
-        let r: number, g: number, b: number, a: number
-        
-        if (!isFinite(value)) {
-          // Transparent for NaN/Infinity
-          r = g = b = a = 0
-        } else {
-          // Normalize to 0-1
-          const normalized = (value - min) / (max - min)
-          
-          // Apply colormap based on variable
-          if (variable.toLowerCase().includes('temp')) {
-            // Temperature: blue (cold) to red (hot)
-            r = Math.floor(normalized * 255)
-            g = Math.floor((1 - Math.abs(normalized - 0.5) * 2) * 255)
-            b = Math.floor((1 - normalized) * 255)
-            a = 204 // 80% opacity
-          } else if (variable.toLowerCase().includes('precip') || variable.toLowerCase().includes('rain')) {
-            // Precipitation: white to blue
-            r = Math.floor((1 - normalized) * 255)
-            g = Math.floor((1 - normalized) * 255)
-            b = 255
-            a = 204
-          } else {
-            // Default: simple gradient
-            r = Math.floor(normalized * 255)
-            g = Math.floor((1 - normalized) * 128)
-            b = 128
-            a = 204
-          }
-        }
-        
-        const pixelIndex = i * 4
-        data[pixelIndex] = r
-        data[pixelIndex + 1] = g
-        data[pixelIndex + 2] = b
-        data[pixelIndex + 3] = a
+  )
+}
+
+// Free the PNG behind a rendered image once no layer shows it
+export function releaseImageUrl(url: string | undefined): void {
+  if (url?.startsWith('blob:')) URL.revokeObjectURL(url)
+}
+
+// proj4 converters per raster, WGS84 <-> source CRS
+const converters = new WeakMap<DecodedGeoTiff, any>()
+
+function converterFor(raster: DecodedGeoTiff): any | null {
+  const proj4 = (window as any).proj4
+  if (!raster.projection || !proj4) return null
+  let converter = converters.get(raster)
+  if (!converter) {
+    converter = proj4('WGS84', raster.projection)
+    converters.set(raster, converter)
+  }
+  return converter
+}
+
+// Fractional source pixel (col/row from the top-left corner) to WGS84; loads
+// proj4 on the main thread when the raster is projected
+export async function pixelLocator(raster: DecodedGeoTiff): Promise<(col: number, row: number) => [number, number]> {
+  if (raster.projection && !(window as any).proj4) await loadGeoTiffLibraries()
+  const [originX, pixelWidth, , originY, , pixelHeight] = raster.geoTransform
+  const converter = converterFor(raster)
+  return (col, row) => {
+    const point: [number, number] = [originX + col * pixelWidth, originY + row * pixelHeight]
+    return converter ? converter.inverse(point) : point
+  }
+}
+
+// WGS84 to fractional source pixel, the inverse of pixelLocator
+export async function pixelProjector(raster: DecodedGeoTiff): Promise<(lon: number, lat: number) => [number, number]> {
+  if (raster.projection && !(window as any).proj4) await loadGeoTiffLibraries()
+  const [originX, pixelWidth, , originY, , pixelHeight] = raster.geoTransform
+  const converter = converterFor(raster)
+  return (lon, lat) => {
+    const [x, y] = converter ? converter.forward([lon, lat]) : [lon, lat]
+    return [(x - originX) / pixelWidth, (y - originY) / pixelHeight]
+  }
+}
+
+// Pixel (row/col) and cell bounds under a WGS84 position, or null outside the
+// raster; reads through a resolved projector/locator, so projected rasters
+// never fall back to treating lon/lat as source coordinates
+export function readPixel(
+  raster: DecodedGeoTiff,
+  position: [number, number],
+  project: (lon: number, lat: number) => [number, number],
+  locate: (col: number, row: number) => [number, number]
+): PixelReadout | null {
+  const [x, y] = project(position[0], position[1])
+  const col = Math.floor(x)
+  const row = Math.floor(y)
+  if (!isFinite(col) || !isFinite(row) || col < 0 || row < 0 || col >= raster.width || row >= raster.height) return null
+
+  // Cell corners back to WGS84; the extent of all four covers rotated/projected cells
+  const cellCorners = [[0, 0], [1, 0], [1, 1], [0, 1]].map(([dc, dr]) => locate(col + dc, row + dr))
+  const lons = cellCorners.map(c => c[0])
+  const lats = cellCorners.map(c => c[1])
+
+  const value = raster.values ? raster.values[row * raster.width + col] : NaN
+  return {
+    value: isFinite(value) ? value : null,
+    row,
+    col,
+    cellBounds: [Math.min(...lons), Math.min(...lats), Math.max(...lons), Math.max(...lats)]
+  }
+}
+
+// Pixel readout of a raster at WGS84 positions, once proj4 is loaded for a
+// projected raster
+export async function pixelReader(raster: DecodedGeoTiff): Promise<(position: [number, number]) => PixelReadout | null> {
+  const [project, locate] = await Promise.all([pixelProjector(raster), pixelLocator(raster)])
+  return position => readPixel(raster, position, project, locate)
+}
+
+// Fetch, decode and colorize a GeoTIFF without touching the map (steps 1-7)
+export async function renderGeoTiff(
+  geotiffUrl: string,
+  variable: string = 'spi',
+  colormap?: any,
+  stretch?: Stretch,
+  resampling?: Resampling,
+  onProgress?: ProgressCallback
+): Promise<RenderedGeoTiff | null> {
+  console.log('🔧 ====== Microsoft Method with Projection Fix ======')
+  console.log('GeoTIFF URL:', geotiffUrl)
+  const style: ColorStyle = { variable, colormap, stretch, resampling }
+
+  try {
+    return await withWorkerFallback(
+      async () => {
+        // One round trip: decode, stretch and paint all happen in the worker
+        const { raster, image, scale } = await runInWorker({ type: 'render', url: geotiffUrl, style }, onProgress)
+        return { imageUrl: URL.createObjectURL(image!), corners: raster!.corners, bbox: raster!.bbox, raster: raster!, scale: scale ?? null }
+      },
+      async () => {
+        const raster = await decodeOnMainThread(geotiffUrl, onProgress)
+        console.log('Converting to PNG...')
+        const scale = scaleForRaster(raster, style)
+        const imageUrl = await paintOnMainThread(raster, scale, style.resampling)
+        return { imageUrl, corners: raster.corners, bbox: raster.bbox, raster, scale }
       }
-      
-      ctx.putImageData(imageData, 0, 0)
-      pngUrl = canvas.toDataURL('image/png', 1.0)
-      
-      console.log('✅ Single-band canvas created with colormap')
-    }
-    
-    // Step 7: Create corner coordinates (Microsoft's order)
-    console.log('Step 7: Creating corner coordinates...')
-    
-    // CRITICAL: Must use exact order from Microsoft example
-    const corners: [number, number][] = [
-      [minXY[0], maxXY[1]],  // Top-left (Northwest)
-      maxXY,                 // Top-right (Northeast) 
-      [maxXY[0], minXY[1]],  // Bottom-right (Southeast)
-      minXY                  // Bottom-left (Southwest)
-    ]
-    
-    console.log('📍 Image corners (WGS84):', corners)
-    
-    // Step 8: Create ImageLayer with PNG
-    console.log('Step 8: Creating ImageLayer...')
-    
-    const imageLayer = new atlas.layer.ImageLayer({
-      url: pngUrl,
-      coordinates: corners,
-      opacity: 0.75,
-      visible: true
-    })
-    
-    console.log('✅ ImageLayer created')
-    
-    // Step 9: Add to map
-    console.log('Step 9: Adding layer to map...')
-    
-    try {
-      map.layers.add(imageLayer, 'labels')
-      console.log('✅ Layer added below labels')
-    } catch (err) {
-      map.layers.add(imageLayer)
-      console.log('✅ Layer added to top')
-    }
-    
-    // Step 10: Zoom to bounds
-    console.log('Step 10: Zooming to data...')
-    map.setCamera({
-      bounds: bbox,
-      padding: 40
-    })
-    
-    console.log('✅ ====== GEOTIFF OVERLAY COMPLETE ======')
-    return imageLayer
-    
+    )
   } catch (error: any) {
     console.error('❌ ====== GEOTIFF LOADING FAILED ======')
     console.error('Error:', error?.message)
-    console.error('Stack:', error?.stack)
     return null
   }
 }
 
-// Create legend for the overlay
-export function createDynamicLegend(variable: string, colormap?: any, unit?: string): HTMLElement {
-  const legend = document.createElement('div')
-  legend.style.cssText = `
-    position: absolute;
-    bottom: 20px;
-    right: 20px;
-    background: rgba(255, 255, 255, 0.95);
-    padding: 12px;
-    border-radius: 6px;
-    font-size: 13px;
-    box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-    z-index: 1000;
-    max-width: 200px;
-    border: 1px solid #ddd;
-  `
+// Header of a remote GeoTIFF, to decide whether it can be read tile by tile
+export async function probeGeoTiff(geotiffUrl: string): Promise<CogInfo | null> {
+  try {
+    return await withWorkerFallback(
+      async () => (await runInWorker({ type: 'probe', url: geotiffUrl })).info!,
+      async () => probeCog(geotiffUrl, await mainThreadLibraries())
+    )
+  } catch (error: any) {
+    console.warn('⚠️ GeoTIFF header could not be range-read:', error?.message)
+    return null
+  }
+}
+
+/**
+ * Decode and colorize only the part of a Cloud-Optimized GeoTIFF a viewport shows
+ * @returns null when the view misses the raster
+ * @throws Error when the read fails
+ */
+export async function renderGeoTiffWindow(
+  geotiffUrl: string,
+  viewport: Viewport,
+  style: ColorStyle,
+  onProgress?: ProgressCallback
+): Promise<RenderedGeoTiff | null> {
+  return withWorkerFallback(
+    async () => {
+      const { raster, image, scale } = await runInWorker({ type: 'window', url: geotiffUrl, viewport, style }, onProgress)
+      if (!raster) return null
+      return { imageUrl: URL.createObjectURL(image!), corners: raster.corners, bbox: raster.bbox, raster, scale: scale ?? null }
+    },
+    async () => {
+      const windowed = await decodeGeoTiffWindow(geotiffUrl, viewport, await mainThreadLibraries())
+      if (!windowed) return null
+      const raster = selectBand(windowed, style.band)
+      const scale = scaleForRaster(raster, style)
+      const imageUrl = await paintOnMainThread(raster, scale, style.resampling)
+      return { imageUrl, corners: raster.corners, bbox: raster.bbox, raster, scale }
+    }
+  )
+}
+
+// Re-color (or re-sample, or switch the band of) an already decoded GeoTIFF
+// (without a stretch the current value range is kept). The caller releases
+// the previous imageUrl once the new one is shown.
+export async function recolorGeoTiff<T extends RenderedGeoTiff>(rendered: T, style: Omit<ColorStyle, 'range'>): Promise<T> {
+  const { raster } = rendered
+  if (!raster.values && !raster.warp) return rendered
+  const { imageUrl, scale } = await colorizeGeoTiff(raster, style.stretch ? style : { ...style, range: rendered.scale?.range ?? null })
+  return { ...rendered, raster: selectBand(raster, style.band), scale, imageUrl }
+}
+
+// Load GeoTIFF overlay using Microsoft's official method
+export async function loadGeoTiffOverlay(
+  geotiffUrl: string, 
+  map: atlas.Map,
+  variable: string = 'spi',
+  colormap?: any,
+  stretch?: Stretch,
+  resampling?: Resampling,
+  onProgress?: ProgressCallback
+): Promise<GeoTiffOverlay | null> {
+  const rendered = await renderGeoTiff(geotiffUrl, variable, colormap, stretch, resampling, onProgress)
+  if (!rendered) return null
+
+  try {
+    return showGeoTiffImage(rendered, map)
+  } catch (error: any) {
+    console.error('❌ ====== GEOTIFF LAYER FAILED ======')
+    console.error('Error:', error?.message)
+    return null
+  }
+}
+
+// Paint only the cells with values in a range, all in one color, into a PNG
+// object URL on the raster's corners (e.g. a histogram brush)
+export async function highlightGeoTiff(raster: DecodedGeoTiff, range: ValueRange, color: string, resampling?: Resampling): Promise<string> {
+  // A single class includes its upper bound, like the top class of any scale
+  const colormap = { classes: [{ min: range.min, max: range.max, color }] }
+  const { imageUrl } = await colorizeGeoTiff(raster, { variable: 'highlight', colormap, range: null, resampling })
+  return imageUrl
+}
+
+// Steps 8-10: show a rendered GeoTIFF as an ImageLayer below the labels and zoom to it
+export function showGeoTiffImage(rendered: RenderedGeoTiff, map: any): GeoTiffOverlay {
+  const { imageUrl: pngUrl, corners, bbox } = rendered
+  // Step 8: Create ImageLayer with PNG
+  console.log('Step 8: Creating ImageLayer...')
+  
+  const imageLayer = new atlas.layer.ImageLayer({
+    url: pngUrl,
+    coordinates: corners,
+    opacity: 0.75,
+    visible: true
+  })
   
-  const title = document.createElement('div')
-  const displayName = getVariableDisplayName(variable)
-  title.textContent = `${displayName} ${unit ? `(${unit})` : ''}`
-  title.style.fontWeight = 'bold'
-  title.style.marginBottom = '8px'
-  title.style.color = '#333'
-  legend.appendChild(title)
+  console.log('✅ ImageLayer created')
   
-  const info = document.createElement('div')
-  info.style.fontSize = '11px'
-  info.style.color = '#666'
-  info.textContent = 'Converted GeoTIFF overlay'
-  legend.appendChild(info)
+  // Step 9: Add to map
+  console.log('Step 9: Adding layer to map...')
   
-  return legend
+  try {
+    map.layers.add(imageLayer, 'labels')
+    console.log('✅ Layer added below labels')
+  } catch (err) {
+    map.layers.add(imageLayer)
+    console.log('✅ Layer added to top')
+  }
+  
+  // Step 10: Zoom to bounds
+  console.log('Step 10: Zooming to data...')
+  map.setCamera({
+    bounds: bbox,
+    padding: 40
+  })
+  
+  console.log('✅ ====== GEOTIFF OVERLAY COMPLETE ======')
+  return { ...rendered, layer: imageLayer }
+}
+
+// Draw decoded data values with the WebGL layer and zoom to them; null when
+// this browser's GPU can't (RGB imagery never goes this way)
+export function showGeoTiffGL(raster: DecodedGeoTiff, map: any, style: ColorStyle): GeoTiffGLOverlay | null {
+  if (raster.rgb || !webglRasterSupported(raster)) return null
+  const selected = selectBand(raster, style.band)
+  const scale = scaleForRaster(selected, style)
+  if (!scale) return null
+
+  const layer = new WebGLRasterLayer(`geotiff-gl-${Date.now()}`, selected, { scale, resampling: style.resampling })
+  try {
+    map.layers.add(layer.layer, 'labels')
+  } catch {
+    map.layers.add(layer.layer)
+  }
+  map.setCamera({ bounds: raster.bbox, padding: 40 })
+  console.log('✅ GeoTIFF drawn with WebGL')
+  return { layer, raster: selected, scale }
+}
+
+// Restyle a WebGL overlay in place; like recolorGeoTiff, the range is kept
+// unless a stretch is given
+export function restyleGeoTiffGL(overlay: GeoTiffGLOverlay, style: Omit<ColorStyle, 'range'>): GeoTiffGLOverlay {
+  const raster = selectBand(overlay.raster, style.band)
+  const scale = scaleForRaster(raster, style.stretch ? style : { ...style, range: overlay.scale?.range ?? null })
+  if (!scale) return overlay
+  overlay.layer.setRaster(raster)
+  overlay.layer.setStyle({ scale, resampling: style.resampling })
+  return { ...overlay, raster, scale }
 }
 
 // Helper: Get display name for variable
-function getVariableDisplayName(variable: string): string {
+export function getVariableDisplayName(variable: string): string {
   const varMap: { [key: string]: string } = {
     'spi': 'SPI (Drought Index)',
     'temperature': 'Temperature',
@@ -0,0 +1,83 @@
+/**
+ * Cross-section profile: raster values sampled along a drawn polyline
+ *
+ * Samples are spaced about half a cell apart (at most MAX_PROFILE_SAMPLES in
+ * all), positions are interpolated linearly in lon/lat along each segment,
+ * and distances are great-circle kilometres from the start of the line.
+ */
+import { distanceMeters } from './regions'
+import { csvField, type PixelProjector } from './zonalStats'
+
+type LonLat = [number, number]
+
+export interface ProfileSample {
+  distanceKm: number
+  position: LonLat
+  /** Value of the cell under the sample; null outside the raster or on NoData */
+  value: number | null
+}
+
+export interface Profile {
+  samples: ProfileSample[]
+  lengthKm: number
+  /** Distance of every vertex of the line, the first one at 0 */
+  vertexKm: number[]
+}
+
+export const MAX_PROFILE_SAMPLES = 1000
+
+/**
+ * Sample the raster values along a line of at least two vertices
+ */
+export function sampleProfile(
+  grid: { width: number; height: number; values: ArrayLike<number> },
+  path: LonLat[],
+  project: PixelProjector
+): Profile {
+  // Samples per segment: two per cell crossed, scaled down to the cap
+  const cellsCrossed = path.slice(1).map((point, i) => {
+    const [c0, r0] = project(...path[i])
+    const [c1, r1] = project(...point)
+    const cells = Math.hypot(c1 - c0, r1 - r0)
+    return isFinite(cells) ? cells : 0
+  })
+  const wanted = cellsCrossed.map(cells => Math.max(1, Math.ceil(cells * 2)))
+  const total = wanted.reduce((sum, n) => sum + n, 0)
+  const scale = total > MAX_PROFILE_SAMPLES ? MAX_PROFILE_SAMPLES / total : 1
+
+  const valueAt = (position: LonLat): number | null => {
+    const [col, row] = project(...position).map(Math.floor)
+    if (!(col >= 0 && row >= 0 && col < grid.width && row < grid.height)) return null
+    const value = grid.values[row * grid.width + col]
+    return isFinite(value) ? value : null
+  }
+
+  const samples: ProfileSample[] = [{ distanceKm: 0, position: path[0], value: valueAt(path[0]) }]
+  const vertexKm = [0]
+  let distance = 0
+  path.slice(1).forEach((end, i) => {
+    const start = path[i]
+    const steps = Math.max(1, Math.round(wanted[i] * scale))
+    let previous = start
+    for (let k = 1; k <= steps; k++) {
+      const t = k / steps
+      const position: LonLat = [start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t]
+      distance += distanceMeters(previous, position) / 1000
+      samples.push({ distanceKm: distance, position, value: valueAt(position) })
+      previous = position
+    }
+    vertexKm.push(distance)
+  })
+  return { samples, lengthKm: distance, vertexKm }
+}
+
+/**
+ * One row per sample, with the variable and unit in the header
+ */
+export function profileCsv(profile: Profile, variable: string, unit?: string): string {
+  const header = ['distance_km', 'longitude', 'latitude', `${variable}${unit ? ` (${unit})` : ''}`]
+  const lines = profile.samples.map(s => [
+    Number(s.distanceKm.toFixed(4)), Number(s.position[0].toFixed(6)), Number(s.position[1].toFixed(6)), s.value
+  ].map(csvField).join(','))
+  return [header.map(csvField).join(','), ...lines].join('\n') + '\n'
+}
@@ -0,0 +1,158 @@
+/**
+ * Draw the polyline of a cross-section profile on an Azure Map
+ *
+ * Vertices are clicked one by one and the line is finished with a double
+ * click; Escape cancels. The finished line stays on the map with a marker
+ * that follows the position hovered on the profile chart.
+ */
+import * as atlas from 'azure-maps-control'
+
+type LonLat = [number, number]
+
+const LINE_COLOR = '#0f766e'
+
+export interface ProfileDrawerOptions {
+  onDrawn: (path: LonLat[]) => void
+  /** Drawing was abandoned (Escape or cancel()) */
+  onCancel?: () => void
+}
+
+export class ProfileDrawer {
+  private readonly map: any
+  private readonly options: ProfileDrawerOptions
+  private readonly source: any
+  private readonly markerSource: any
+  private readonly layers: any[]
+  private active = false
+  private vertices: LonLat[] = []
+  private shown: LonLat[] | null = null
+  private savedInteraction: any = null
+  private savedCursor = ''
+  private readonly handlers: Array<[string, (e: any) => void]>
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') this.cancel()
+  }
+
+  constructor(map: any, options: ProfileDrawerOptions) {
+    this.map = map
+    this.options = options
+    this.source = new (atlas as any).source.DataSource()
+    this.markerSource = new (atlas as any).source.DataSource()
+    map.sources.add([this.source, this.markerSource])
+    this.layers = [
+      new (atlas as any).layer.LineLayer(this.source, undefined, { strokeColor: LINE_COLOR, strokeWidth: 3 }),
+      new (atlas as any).layer.BubbleLayer(this.source, undefined, {
+        radius: 4,
+        color: '#ffffff',
+        strokeColor: LINE_COLOR,
+        strokeWidth: 2,
+        filter: ['==', ['geometry-type'], 'Point']
+      }),
+      new (atlas as any).layer.BubbleLayer(this.markerSource, undefined, {
+        radius: 6,
+        color: LINE_COLOR,
+        strokeColor: '#ffffff',
+        strokeWidth: 2
+      })
+    ]
+    map.layers.add(this.layers)
+    this.handlers = [
+      ['click', e => this.handleClick(e)],
+      ['mousemove', e => this.handleMouseMove(e)],
+      ['dblclick', () => this.finish()]
+    ]
+  }
+
+  get drawing(): boolean {
+    return this.active
+  }
+
+  /**
+   * Begin drawing a new line; the shown one is cleared
+   */
+  start(): void {
+    if (this.active) this.stop()
+    this.active = true
+    this.vertices = []
+    this.shown = null
+    this.setMarker(null)
+    this.render()
+    this.savedInteraction = this.map.getUserInteraction?.()
+    this.map.setUserInteraction({ dblClickZoomInteraction: false })
+    this.savedCursor = this.map.getCanvasContainer().style.cursor
+    this.map.getCanvasContainer().style.cursor = 'crosshair'
+    this.handlers.forEach(([event, handler]) => this.map.events.add(event, handler))
+    document.addEventListener('keydown', this.onKeyDown)
+  }
+
+  cancel(): void {
+    if (!this.active) return
+    this.stop()
+    this.render()
+    this.options.onCancel?.()
+  }
+
+  /**
+   * Show a finished line (or none) while not drawing
+   */
+  show(path: LonLat[] | null): void {
+    this.shown = path
+    if (!path) this.setMarker(null)
+    if (!this.active) this.render()
+  }
+
+  /** Move the hover marker, or hide it */
+  setMarker(position: LonLat | null): void {
+    this.markerSource.clear()
+    if (position) this.markerSource.add(new (atlas as any).data.Point(position))
+  }
+
+  dispose(): void {
+    if (this.active) this.stop()
+    try {
+      this.map.layers.remove(this.layers)
+      this.map.sources.remove([this.source, this.markerSource])
+    } catch {
+      // The map may already be disposed
+    }
+  }
+
+  private stop() {
+    this.handlers.forEach(([event, handler]) => this.map.events.remove(event, handler))
+    document.removeEventListener('keydown', this.onKeyDown)
+    this.map.setUserInteraction(this.savedInteraction || { dblClickZoomInteraction: true })
+    this.map.getCanvasContainer().style.cursor = this.savedCursor
+    this.active = false
+    this.vertices = []
+  }
+
+  private handleClick(e: any) {
+    if (!Array.isArray(e.position)) return
+    this.vertices.push(e.position)
+    this.render(this.vertices)
+  }
+
+  private handleMouseMove(e: any) {
+    if (this.vertices.length > 0 && Array.isArray(e.position)) this.render([...this.vertices, e.position])
+  }
+
+  private finish() {
+    // The double click's own clicks add the last vertex twice
+    const vertices = this.vertices.filter((p, i, all) => i === 0 || p[0] !== all[i - 1][0] || p[1] !== all[i - 1][1])
+    if (vertices.length < 2) return
+    this.stop()
+    this.shown = vertices
+    this.render()
+    this.options.onDrawn(vertices)
+  }
+
+  // Draw the line in progress with its vertices, or the shown line
+  private render(inProgress?: LonLat[]) {
+    const shapes: any[] = []
+    const line = inProgress ?? this.shown
+    if (line && line.length >= 2) shapes.push(new (atlas as any).data.Feature(new (atlas as any).data.LineString(line)))
+    const vertices = inProgress ? this.vertices : line ?? []
+    vertices.forEach(p => shapes.push(new (atlas as any).data.Feature(new (atlas as any).data.Point(p))))
+    this.source.setShapes(shapes)
+  }
+}
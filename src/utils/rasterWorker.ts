@@ -0,0 +1,132 @@
+/**
+ * Client for the GeoTIFF worker pool
+ *
+ * Decoding and colorizing run in up to four module workers so large grids
+ * don't freeze the chat and several overlays load in parallel. Each request
+ * carries an id so progress and results find their caller; pixel arrays are
+ * transferred, not copied, on the way back. When workers can't run (no
+ * OffscreenCanvas, or the CDN modules fail to load) callers fall back to the
+ * main thread.
+ */
+import type { ColorScale } from './colorScale'
+import type { CogInfo, ColorStyle, DecodedGeoTiff, LoadStage, ProgressCallback, Viewport } from './geotiffDecode'
+
+export type WorkerTask =
+  | { type: 'decode'; url: string }
+  | { type: 'render'; url: string; style: ColorStyle }
+  | { type: 'colorize'; raster: DecodedGeoTiff; style: ColorStyle }
+  | { type: 'probe'; url: string }
+  | { type: 'window'; url: string; viewport: Viewport; style: ColorStyle }
+
+export type WorkerRequest = WorkerTask & { id: number }
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; stage: LoadStage; fraction: number }
+  | ({ id: number; type: 'done' } & WorkerResult)
+  | { id: number; type: 'error'; message: string; libraryUnavailable?: boolean }
+
+export interface WorkerResult {
+  /** null when a window misses the raster */
+  raster?: DecodedGeoTiff | null
+  image?: Blob
+  scale?: ColorScale | null
+  info?: CogInfo
+}
+
+/**
+ * The worker could not load its libraries; use the main-thread path
+ */
+export class WorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkerUnavailableError'
+  }
+}
+
+interface PoolWorker {
+  worker: Worker
+  busy: number
+}
+
+interface PendingRequest {
+  resolve: (result: WorkerResult) => void
+  reject: (error: Error) => void
+  onProgress?: ProgressCallback
+}
+
+const MAX_WORKERS = Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1))
+
+const pool: PoolWorker[] = []
+const pending = new Map<number, PendingRequest>()
+let nextId = 1
+let disabled = false
+
+export function rasterWorkersAvailable(): boolean {
+  return !disabled && typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined'
+}
+
+function handleMessage(entry: PoolWorker, message: WorkerResponse) {
+  const request = pending.get(message.id)
+  if (!request) return
+  if (message.type === 'progress') {
+    request.onProgress?.(message.stage, message.fraction)
+    return
+  }
+
+  pending.delete(message.id)
+  entry.busy--
+  if (message.type === 'done') {
+    request.resolve(message)
+  } else if (message.libraryUnavailable) {
+    disabled = true
+    request.reject(new WorkerUnavailableError(message.message))
+  } else {
+    request.reject(new Error(message.message))
+  }
+}
+
+function createWorker(): PoolWorker {
+  const worker = new Worker(new URL('./geotiff.worker.ts', import.meta.url), { type: 'module' })
+  const entry: PoolWorker = { worker, busy: 0 }
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => handleMessage(entry, event.data)
+  worker.onerror = (event) => {
+    console.error('❌ GeoTIFF worker failed:', event.message)
+    disablePool(event.message || 'Worker error')
+  }
+  pool.push(entry)
+  return entry
+}
+
+// Stop every worker and fail everything waiting on them; callers retry on the main thread
+function disablePool(reason: string) {
+  disabled = true
+  pool.forEach(entry => entry.worker.terminate())
+  pool.length = 0
+  pending.forEach(request => request.reject(new WorkerUnavailableError(reason)))
+  pending.clear()
+}
+
+// Least busy worker, spawning a new one while under the cap
+function pickWorker(): PoolWorker {
+  const idle = pool.find(entry => entry.busy === 0)
+  if (idle) return idle
+  if (pool.length < MAX_WORKERS) return createWorker()
+  return pool.reduce((a, b) => (b.busy < a.busy ? b : a))
+}
+
+export function runInWorker(
+  task: WorkerTask,
+  onProgress?: ProgressCallback,
+  transfer: Transferable[] = []
+): Promise<WorkerResult> {
+  if (!rasterWorkersAvailable()) {
+    return Promise.reject(new WorkerUnavailableError('Web Workers are not available'))
+  }
+  const id = nextId++
+  const entry = pickWorker()
+  entry.busy++
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress })
+    entry.worker.postMessage({ ...task, id } as WorkerRequest, transfer)
+  })
+}
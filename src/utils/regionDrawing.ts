@@ -0,0 +1,192 @@
+/**
+ * Draw a rectangle, polygon or circle on an Azure Map
+ *
+ * Rectangles and circles are dragged out (panning is paused meanwhile);
+ * polygons are clicked vertex by vertex and finished with a double click.
+ * Escape cancels. The same source also shows the region attached to the
+ * next question.
+ */
+import * as atlas from 'azure-maps-control'
+import { circleRing, createRegion, distanceMeters, rectangleRing } from './regions'
+import type { DrawnRegion, RegionShape } from '../types'
+
+type LonLat = [number, number]
+
+const DRAW_COLOR = '#4f46e5'
+
+export interface RegionDrawerOptions {
+  onDrawn: (region: DrawnRegion) => void
+  /** Drawing was abandoned (Escape or cancel()) */
+  onCancel?: () => void
+}
+
+export class RegionDrawer {
+  private readonly map: any
+  private readonly options: RegionDrawerOptions
+  private readonly source: any
+  private readonly layers: any[]
+  private shape: RegionShape | null = null
+  private vertices: LonLat[] = []
+  private anchor: LonLat | null = null
+  private shown: DrawnRegion | null = null
+  private savedInteraction: any = null
+  private savedCursor = ''
+  private readonly handlers: Array<[string, (e: any) => void]>
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') this.cancel()
+  }
+
+  constructor(map: any, options: RegionDrawerOptions) {
+    this.map = map
+    this.options = options
+    this.source = new (atlas as any).source.DataSource()
+    map.sources.add(this.source)
+    this.layers = [
+      new (atlas as any).layer.PolygonLayer(this.source, undefined, { fillColor: DRAW_COLOR, fillOpacity: 0.12 }),
+      new (atlas as any).layer.LineLayer(this.source, undefined, { strokeColor: DRAW_COLOR, strokeWidth: 2, strokeDashArray: [3, 2] }),
+      new (atlas as any).layer.BubbleLayer(this.source, undefined, {
+        radius: 4,
+        color: '#ffffff',
+        strokeColor: DRAW_COLOR,
+        strokeWidth: 2,
+        filter: ['==', ['geometry-type'], 'Point']
+      })
+    ]
+    map.layers.add(this.layers)
+    this.handlers = [
+      ['mousedown', e => this.handleMouseDown(e)],
+      ['mousemove', e => this.handleMouseMove(e)],
+      ['mouseup', e => this.handleMouseUp(e)],
+      ['click', e => this.handleClick(e)],
+      ['dblclick', () => this.finishPolygon()]
+    ]
+  }
+
+  get drawing(): boolean {
+    return this.shape !== null
+  }
+
+  /**
+   * Begin drawing; any unfinished shape is discarded
+   */
+  start(shape: RegionShape): void {
+    if (this.shape) this.stop()
+    this.shape = shape
+    this.vertices = []
+    this.anchor = null
+    this.savedInteraction = this.map.getUserInteraction?.()
+    this.map.setUserInteraction({ dragPanInteraction: shape === 'polygon', dblClickZoomInteraction: false })
+    this.savedCursor = this.map.getCanvasContainer().style.cursor
+    this.map.getCanvasContainer().style.cursor = 'crosshair'
+    this.handlers.forEach(([event, handler]) => this.map.events.add(event, handler))
+    document.addEventListener('keydown', this.onKeyDown)
+  }
+
+  cancel(): void {
+    if (!this.shape) return
+    this.stop()
+    this.render()
+    this.options.onCancel?.()
+  }
+
+  /**
+   * Outline a finished region (or none) while not drawing
+   */
+  show(region: DrawnRegion | null): void {
+    this.shown = region
+    if (!this.shape) this.render()
+  }
+
+  dispose(): void {
+    if (this.shape) this.stop()
+    try {
+      this.map.layers.remove(this.layers)
+      this.map.sources.remove(this.source)
+    } catch {
+      // The map may already be disposed
+    }
+  }
+
+  private stop() {
+    this.handlers.forEach(([event, handler]) => this.map.events.remove(event, handler))
+    document.removeEventListener('keydown', this.onKeyDown)
+    this.map.setUserInteraction(this.savedInteraction || { dragPanInteraction: true, dblClickZoomInteraction: true })
+    this.map.getCanvasContainer().style.cursor = this.savedCursor
+    this.shape = null
+    this.vertices = []
+    this.anchor = null
+  }
+
+  private handleMouseDown(e: any) {
+    if ((this.shape === 'rectangle' || this.shape === 'circle') && Array.isArray(e.position)) {
+      this.anchor = e.position
+    }
+  }
+
+  private handleMouseMove(e: any) {
+    if (!this.shape || !Array.isArray(e.position)) return
+    if (this.shape === 'polygon') {
+      if (this.vertices.length > 0) this.render([...this.vertices, e.position])
+    } else if (this.anchor) {
+      this.render(this.dragRing(e.position))
+    }
+  }
+
+  private handleMouseUp(e: any) {
+    if (!this.anchor || !Array.isArray(e.position) || this.shape === 'polygon') return
+    const anchor = this.anchor
+    const shape = this.shape!
+    const ring = this.dragRing(e.position)
+    this.anchor = null
+    // A click without a drag draws nothing
+    if (distanceMeters(anchor, e.position) < 1) return
+    this.stop()
+    this.complete(shape === 'circle'
+      ? createRegion('circle', ring, { center: anchor, radiusMeters: distanceMeters(anchor, e.position) })
+      : createRegion('rectangle', ring))
+  }
+
+  private handleClick(e: any) {
+    if (this.shape !== 'polygon' || !Array.isArray(e.position)) return
+    this.vertices.push(e.position)
+    this.render(this.vertices)
+  }
+
+  private finishPolygon() {
+    if (this.shape !== 'polygon') return
+    // The double click's own clicks add the last vertex twice
+    const vertices = this.vertices.filter((p, i, all) => i === 0 || p[0] !== all[i - 1][0] || p[1] !== all[i - 1][1])
+    if (vertices.length < 3) return
+    this.stop()
+    this.complete(createRegion('polygon', [...vertices, vertices[0]]))
+  }
+
+  private dragRing(position: LonLat): LonLat[] {
+    return this.shape === 'circle'
+      ? circleRing(this.anchor!, distanceMeters(this.anchor!, position))
+      : rectangleRing(this.anchor!, position)
+  }
+
+  private complete(region: DrawnRegion) {
+    this.shown = region
+    this.render()
+    this.options.onDrawn(region)
+  }
+
+  // Draw the shape in progress, or the shown region
+  private render(inProgress?: LonLat[]) {
+    const shapes: any[] = []
+    const ring = inProgress ?? this.shown?.ring
+    if (ring && ring.length >= 3) {
+      const [first, last] = [ring[0], ring[ring.length - 1]]
+      const closed = first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first]
+      shapes.push(new (atlas as any).data.Feature(new (atlas as any).data.Polygon([closed])))
+    } else if (ring && ring.length === 2) {
+      shapes.push(new (atlas as any).data.Feature(new (atlas as any).data.LineString(ring)))
+    }
+    if (inProgress && this.shape === 'polygon') {
+      this.vertices.forEach(p => shapes.push(new (atlas as any).data.Feature(new (atlas as any).data.Point(p))))
+    }
+    this.source.setShapes(shapes)
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Drawn regions: geometry helpers, the GeoJSON sent with a query, and the
+ * saved-region list kept in localStorage
+ */
+import type { Bounds, DrawnRegion, RegionShape } from '../types'
+
+const STORAGE_KEY = 'hydrology_copilot_regions'
+const EARTH_RADIUS = 6371008.8
+// Vertices of the polygon approximating a circle
+const CIRCLE_SEGMENTS = 64
+
+type LonLat = [number, number]
+
+/**
+ * Great-circle distance in meters
+ */
+export function distanceMeters([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): number {
+  const rad = Math.PI / 180
+  const dLat = (lat2 - lat1) * rad
+  const dLon = (lon2 - lon1) * rad
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(lat1 * rad) * Math.cos(lat2 * rad) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Closed ring of points at a fixed distance around a center
+ */
+export function circleRing(center: LonLat, radiusMeters: number): LonLat[] {
+  const rad = Math.PI / 180
+  const [lon, lat] = center
+  const angular = radiusMeters / EARTH_RADIUS
+  const ring: LonLat[] = []
+  for (let k = 0; k <= CIRCLE_SEGMENTS; k++) {
+    // Counter-clockwise, as GeoJSON wants exterior rings
+    const bearing = -(2 * Math.PI * (k % CIRCLE_SEGMENTS)) / CIRCLE_SEGMENTS
+    const lat2 = Math.asin(Math.sin(lat * rad) * Math.cos(angular) + Math.cos(lat * rad) * Math.sin(angular) * Math.cos(bearing))
+    const lon2 = lon * rad + Math.atan2(
+      Math.sin(bearing) * Math.sin(angular) * Math.cos(lat * rad),
+      Math.cos(angular) - Math.sin(lat * rad) * Math.sin(lat2)
+    )
+    ring.push([Number((lon2 / rad).toFixed(6)), Number((lat2 / rad).toFixed(6))])
+  }
+  return ring
+}
+
+/**
+ * Closed counter-clockwise ring of the rectangle spanned by two corners
+ */
+export function rectangleRing([lon1, lat1]: LonLat, [lon2, lat2]: LonLat): LonLat[] {
+  const [west, east] = [Math.min(lon1, lon2), Math.max(lon1, lon2)]
+  const [south, north] = [Math.min(lat1, lat2), Math.max(lat1, lat2)]
+  return [[west, south], [east, south], [east, north], [west, north], [west, south]]
+}
+
+export function createRegion(shape: RegionShape, ring: LonLat[], circle?: { center: LonLat; radiusMeters: number }): DrawnRegion {
+  const now = Date.now()
+  return {
+    id: `region-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    shape,
+    ring,
+    ...(circle ? { center: circle.center, radiusMeters: Math.round(circle.radiusMeters) } : {}),
+    createdAt: now
+  }
+}
+
+export function regionBounds(region: DrawnRegion): Bounds {
+  const lons = region.ring.map(p => p[0])
+  const lats = region.ring.map(p => p[1])
+  return { west: Math.min(...lons), south: Math.min(...lats), east: Math.max(...lons), north: Math.max(...lats) }
+}
+
+/**
+ * Short description for chips and messages
+ */
+export function regionLabel(region: DrawnRegion): string {
+  if (region.name) return region.name
+  if (region.shape === 'circle' && region.radiusMeters) return `Circle, ${(region.radiusMeters / 1000).toFixed(1)} km radius`
+  return region.shape === 'rectangle' ? 'Drawn rectangle' : `Drawn polygon (${region.ring.length - 1} vertices)`
+}
+
+/**
+ * GeoJSON Feature sent to the backend in the request's `data.region`
+ */
+export function regionToGeoJson(region: DrawnRegion) {
+  const bounds = regionBounds(region)
+  return {
+    type: 'Feature' as const,
+    geometry: { type: 'Polygon' as const, coordinates: [region.ring] },
+    properties: {
+      name: region.name ?? null,
+      shape: region.shape,
+      bbox: [bounds.west, bounds.south, bounds.east, bounds.north],
+      ...(region.shape === 'circle' ? { center: region.center, radius_m: region.radiusMeters } : {})
+    }
+  }
+}
+
+/**
+ * Regions the user saved under a name, newest first
+ */
+export function loadSavedRegions(): DrawnRegion[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter(r => r?.name && Array.isArray(r.ring)) : []
+  } catch (error: any) {
+    console.warn('⚠️ Could not read saved regions:', error?.message)
+    return []
+  }
+}
+
+function storeRegions(regions: DrawnRegion[]): DrawnRegion[] {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(regions))
+  return regions
+}
+
+/**
+ * Save (or rename) a region; a name already in use is replaced
+ */
+export function saveRegion(region: DrawnRegion, name: string): DrawnRegion[] {
+  const named = { ...region, name }
+  const others = loadSavedRegions().filter(r => r.id !== region.id && r.name !== name)
+  return storeRegions([named, ...others])
+}
+
+export function deleteSavedRegion(id: string): DrawnRegion[] {
+  return storeRegions(loadSavedRegions().filter(r => r.id !== id))
+}
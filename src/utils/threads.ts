@@ -0,0 +1,94 @@
+/**
+ * Helpers for client-side conversation threads
+ *
+ * Each thread remembers the backend thread_id/agent_id returned by
+ * multi_agent_function so follow-up questions ("same for California") are
+ * answered in the right conversation.
+ */
+import { regionToGeoJson } from './regions'
+import { placeToJson } from './gazetteer'
+import type { ConversationThread, DrawnRegion, MultiAgentRequest, Place } from '../types'
+
+const DEFAULT_THREAD_NAME = 'New chat'
+const MAX_AUTO_NAME_LENGTH = 40
+
+/**
+ * Create an empty thread that has not been sent to the server yet
+ */
+export function createThread(name: string = DEFAULT_THREAD_NAME): ConversationThread {
+  const now = Date.now()
+  return {
+    id: `thread-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    messages: [],
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * Name an unnamed thread after its first question
+ */
+export function autoNameThread(thread: ConversationThread, query: string): ConversationThread {
+  if (thread.customName || thread.name !== DEFAULT_THREAD_NAME) return thread
+  const trimmed = query.trim().replace(/\s+/g, ' ')
+  const name = trimmed.length > MAX_AUTO_NAME_LENGTH ? `${trimmed.slice(0, MAX_AUTO_NAME_LENGTH - 1)}…` : trimmed
+  return name ? { ...thread, name } : thread
+}
+
+/**
+ * Record the server-side ids from a response; keeps existing ids if absent
+ */
+export function applyServerIds(
+  thread: ConversationThread,
+  ids: { thread_id?: string, agent_id?: string }
+): ConversationThread {
+  if (!ids.thread_id && !ids.agent_id) return thread
+  if (thread.threadId && ids.thread_id && thread.threadId !== ids.thread_id) {
+    console.warn('⚠️ Backend switched thread:', thread.threadId, '→', ids.thread_id)
+  }
+  return {
+    ...thread,
+    threadId: ids.thread_id || thread.threadId,
+    agentId: ids.agent_id || thread.agentId
+  }
+}
+
+/**
+ * Build the request body for a query in the given thread
+ *
+ * A thread without a server id asks the backend for a fresh thread instead of
+ * falling back to the most recent one for this user. A drawn region travels
+ * as a GeoJSON Feature in `region`, places resolved from the query (with
+ * their bounding boxes) in `places`.
+ */
+export function buildThreadRequest(
+  thread: ConversationThread,
+  query: string,
+  region?: DrawnRegion | null,
+  places: Place[] = []
+): MultiAgentRequest {
+  const ids = thread.threadId
+    ? { thread_id: thread.threadId, agent_id: thread.agentId }
+    : { new_thread: true }
+  return {
+    action: 'generate',
+    data: {
+      query,
+      ...ids,
+      ...(region ? { region: regionToGeoJson(region) } : {}),
+      ...(places.length > 0 ? { places: places.map(placeToJson) } : {})
+    }
+  }
+}
+
+/**
+ * Display name of the variable shown most recently in a thread, if any
+ */
+export function getThreadVariable(thread: ConversationThread): string | undefined {
+  for (let i = thread.messages.length - 1; i >= 0; i--) {
+    const info = thread.messages[i].mapData?.azureData?.variable_info
+    if (info) return info.displayName || info.name
+  }
+  return undefined
+}
@@ -0,0 +1,77 @@
+/**
+ * Tolerant JSON reader for backend responses
+ *
+ * Python's json module happily emits NaN, Infinity and -Infinity, which are
+ * not valid JSON. This reader walks the raw text once, tracks whether it is
+ * inside a string literal, and rewrites only bare non-finite tokens to null.
+ * Strings such as "NaN" or "Infinity Pool" are left untouched.
+ */
+
+const NON_FINITE_TOKENS = ['-Infinity', 'Infinity', 'NaN', 'nan', 'NAN', 'undefined']
+
+/**
+ * Replace bare NaN/Infinity/undefined tokens with null, outside of strings
+ */
+export function sanitizeNonFiniteTokens(text: string): string {
+  let out = ''
+  let inString = false
+  let i = 0
+
+  while (i < text.length) {
+    const ch = text[i]
+
+    if (inString) {
+      out += ch
+      if (ch === '\\') {
+        // Copy the escaped character verbatim
+        out += text[i + 1] ?? ''
+        i += 2
+        continue
+      }
+      if (ch === '"') inString = false
+      i++
+      continue
+    }
+
+    if (ch === '"') {
+      inString = true
+      out += ch
+      i++
+      continue
+    }
+
+    const token = NON_FINITE_TOKENS.find(t => text.startsWith(t, i) && !isIdentifierChar(text[i + t.length]))
+    if (token && !isIdentifierChar(text[i - 1])) {
+      out += 'null'
+      i += token.length
+      continue
+    }
+
+    out += ch
+    i++
+  }
+
+  return out
+}
+
+/**
+ * Parse JSON text, mapping non-finite numbers to null
+ */
+export function parseTolerantJson<T = unknown>(text: string): T {
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    // Fall through to the sanitizing pass
+  }
+
+  const sanitized = sanitizeNonFiniteTokens(text)
+  try {
+    return JSON.parse(sanitized) as T
+  } catch (error) {
+    throw new Error(`Invalid JSON response: ${(error as Error).message}`)
+  }
+}
+
+function isIdentifierChar(ch: string | undefined): boolean {
+  return !!ch && /[A-Za-z0-9_$.]/.test(ch)
+}
@@ -0,0 +1,106 @@
+/**
+ * Map highlight of the raster cells or points whose values fall in a range,
+ * e.g. a range brushed on the distribution histogram
+ *
+ * Matching cells are painted in one color on an image layer above the data,
+ * through the same colorize path as the PNG overlay, so the highlight lines up
+ * with GPU, PNG and COG layers alike. Matching points get a ring.
+ */
+import * as atlas from 'azure-maps-control'
+import { highlightGeoTiff, releaseImageUrl, type DecodedGeoTiff, type Resampling } from './geotiffLoader'
+import type { ValueRange } from './colorScale'
+import type { DataPoint } from '../types'
+
+export const HIGHLIGHT_COLOR = '#d946ef'
+
+export class ValueHighlight {
+  private readonly map: any
+  private readonly source: any
+  private readonly rings: any
+  private image: any = null
+  private imageUrl: string | undefined
+  // Bumped per request so a slow paint can't replace a newer one
+  private seq = 0
+  private disposed = false
+
+  constructor(map: any) {
+    this.map = map
+    this.source = new (atlas as any).source.DataSource()
+    map.sources.add(this.source)
+    this.rings = new (atlas as any).layer.BubbleLayer(this.source, undefined, {
+      radius: 9,
+      color: 'rgba(0, 0, 0, 0)',
+      strokeColor: HIGHLIGHT_COLOR,
+      strokeWidth: 3
+    })
+    map.layers.add(this.rings)
+  }
+
+  /**
+   * Highlight the raster's cells within the range (null clears it)
+   */
+  async showRaster(raster: DecodedGeoTiff, range: ValueRange | null, resampling?: Resampling): Promise<void> {
+    const seq = ++this.seq
+    if (!range || !raster.values) {
+      this.clearImage()
+      return
+    }
+    const imageUrl = await highlightGeoTiff(raster, range, HIGHLIGHT_COLOR, resampling)
+    if (seq !== this.seq || this.disposed) {
+      releaseImageUrl(imageUrl)
+      return
+    }
+    if (this.image) {
+      this.image.setOptions({ url: imageUrl, coordinates: raster.corners })
+    } else {
+      this.image = new (atlas as any).layer.ImageLayer({ url: imageUrl, coordinates: raster.corners, opacity: 0.9 })
+      try {
+        this.map.layers.add(this.image, 'labels')
+      } catch {
+        this.map.layers.add(this.image)
+      }
+    }
+    releaseImageUrl(this.imageUrl)
+    this.imageUrl = imageUrl
+  }
+
+  /**
+   * Ring the points within the range (null clears them)
+   */
+  showPoints(points: DataPoint[], range: ValueRange | null): void {
+    this.source.clear()
+    if (!range) return
+    this.source.add(points
+      .filter(p => p.value >= range.min && p.value <= range.max)
+      .map(p => new (atlas as any).data.Point([p.longitude, p.latitude])))
+  }
+
+  clear(): void {
+    this.seq++
+    this.clearImage()
+    this.source.clear()
+  }
+
+  private clearImage(): void {
+    if (!this.image) return
+    try {
+      this.map.layers.remove(this.image)
+    } catch {
+      // The map may already be disposed
+    }
+    this.image = null
+    releaseImageUrl(this.imageUrl)
+    this.imageUrl = undefined
+  }
+
+  dispose(): void {
+    this.disposed = true
+    this.clearImage()
+    try {
+      this.map.layers.remove(this.rings)
+      this.map.sources.remove(this.source)
+    } catch {
+      // The map may already be disposed
+    }
+  }
+}
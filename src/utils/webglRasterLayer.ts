@@ -0,0 +1,323 @@
+/**
+ * GPU raster layer: the float grid is uploaded once as a texture and colored
+ * in a fragment shader
+ *
+ * Palette, stretch, opacity and NoData masking are uniforms and a small color
+ * ramp texture, so restyling a full CONUS grid is a redraw instead of a PNG
+ * re-encode. Reprojected rasters also upload their warp grid (the source pixel
+ * behind each Web Mercator pixel) so the shader samples the source exactly
+ * like the PNG path. True-color imagery keeps using ImageLayer.
+ */
+import * as atlas from 'azure-maps-control'
+import { RASTER_ALPHA, colorForValue, type ColorScale, type ValueRange } from './colorScale'
+import type { DecodedGeoTiff, Resampling } from './geotiffDecode'
+
+export interface WebGLRasterStyle {
+  scale: ColorScale
+  resampling?: Resampling
+  opacity?: number
+}
+
+// Entries in the color ramp texture
+const RAMP_SIZE = 1024
+// Stand-ins for NaN, which float textures don't carry reliably
+const NODATA_SENTINEL = -3.0e38
+const OUTSIDE_SENTINEL = -1.0e9
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+attribute vec2 a_uv;
+uniform mat4 u_matrix;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_uv;
+  gl_Position = u_matrix * vec4(a_position, 0.0, 1.0);
+}`
+
+const FRAGMENT_SHADER = `
+precision highp float;
+uniform sampler2D u_values;
+uniform sampler2D u_warp;
+uniform sampler2D u_ramp;
+uniform vec2 u_size;
+uniform bool u_warped;
+uniform bool u_warpInAlpha;
+uniform bool u_bilinear;
+uniform vec2 u_domain;
+uniform float u_opacity;
+varying vec2 v_uv;
+
+float valueAt(vec2 cell) {
+  vec2 clamped = clamp(cell, vec2(0.0), u_size - 1.0);
+  return texture2D(u_values, (clamped + 0.5) / u_size).r;
+}
+
+bool isNoData(float v) {
+  return v < -1.0e38;
+}
+
+void main() {
+  vec2 cell;
+  if (u_warped) {
+    vec4 w = texture2D(u_warp, v_uv);
+    cell = vec2(w.r, u_warpInAlpha ? w.a : w.g);
+    if (cell.x < -0.5) discard;
+  } else {
+    cell = v_uv * u_size - 0.5;
+  }
+
+  float value = valueAt(floor(cell + 0.5));
+  if (u_bilinear) {
+    vec2 c0 = floor(cell);
+    vec2 f = cell - c0;
+    float v00 = valueAt(c0);
+    float v10 = valueAt(c0 + vec2(1.0, 0.0));
+    float v01 = valueAt(c0 + vec2(0.0, 1.0));
+    float v11 = valueAt(c0 + vec2(1.0, 1.0));
+    // A NoData neighbour poisons the blend; keep the nearest value instead
+    if (!isNoData(v00) && !isNoData(v10) && !isNoData(v01) && !isNoData(v11)) {
+      value = mix(mix(v00, v10, f.x), mix(v01, v11, f.x), f.y);
+    }
+  }
+  if (isNoData(value)) discard;
+
+  float t = clamp((value - u_domain.x) / (u_domain.y - u_domain.x), 0.0, 1.0);
+  vec4 color = texture2D(u_ramp, vec2(t * (1.0 - 1.0 / ${RAMP_SIZE}.0) + 0.5 / ${RAMP_SIZE}.0, 0.5));
+  if (color.a == 0.0) discard;
+  // The map blends premultiplied colors
+  float alpha = color.a * u_opacity;
+  gl_FragColor = vec4(color.rgb * alpha, alpha);
+}`
+
+/**
+ * Whether this browser can draw a raster of this size on the GPU: WebGL2, or
+ * WebGL1 with float textures, and within the texture size limit
+ */
+export function webglRasterSupported(raster: DecodedGeoTiff): boolean {
+  if (!raster.values || typeof document === 'undefined') return false
+  const canvas = document.createElement('canvas')
+  const gl: WebGLRenderingContext | null = canvas.getContext('webgl2') || canvas.getContext('webgl')
+  if (!gl) return false
+  const isWebGL2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext
+  const floats = isWebGL2 || !!gl.getExtension('OES_texture_float')
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number
+  gl.getExtension('WEBGL_lose_context')?.loseContext()
+  const fits = Math.max(raster.width, raster.height, raster.warp?.width ?? 0, raster.warp?.height ?? 0) <= maxSize
+  return floats && fits
+}
+
+// Normalized Web Mercator: [0, 0] is the world's top left, [1, 1] its bottom right
+function mercatorPoint([lon, lat]: [number, number]): [number, number] {
+  const clamped = Math.max(-85.05112878, Math.min(85.05112878, lat))
+  const sin = Math.sin(clamped * Math.PI / 180)
+  return [(lon + 180) / 360, 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)]
+}
+
+// Value span the ramp covers: the stretch range, or the finite extent of the classes
+function rampDomain(scale: ColorScale): ValueRange | null {
+  if (scale.range) return scale.range
+  if (!scale.classes) return null
+  const bounds = scale.classes.flatMap(c => [c.min, c.max]).filter(isFinite)
+  return bounds.length >= 2 ? { min: Math.min(...bounds), max: Math.max(...bounds) } : null
+}
+
+export class WebGLRasterLayer {
+  /** The Azure Maps layer to add to the map */
+  readonly layer: any
+  raster: DecodedGeoTiff
+  private style: WebGLRasterStyle
+  private map: any = null
+  private gl: WebGLRenderingContext | null = null
+  private program: WebGLProgram | null = null
+  private buffer: WebGLBuffer | null = null
+  private valueTexture: WebGLTexture | null = null
+  private warpTexture: WebGLTexture | null = null
+  private rampTexture: WebGLTexture | null = null
+  private isWebGL2 = false
+  private valuesDirty = true
+  private rampDirty = true
+
+  constructor(id: string, raster: DecodedGeoTiff, style: WebGLRasterStyle) {
+    this.raster = raster
+    this.style = { opacity: 0.75, ...style }
+    this.layer = new (atlas as any).layer.WebGLLayer(id, { renderer: this })
+  }
+
+  /**
+   * Restyle without touching the value texture
+   */
+  setStyle(style: Partial<WebGLRasterStyle>): void {
+    if (style.scale && style.scale !== this.style.scale) this.rampDirty = true
+    this.style = { ...this.style, ...style }
+    this.map?.triggerRepaint()
+  }
+
+  /**
+   * Show other values on the same grid (another band); re-uploads the texture
+   */
+  setRaster(raster: DecodedGeoTiff): void {
+    if (raster.values === this.raster.values) return
+    this.raster = raster
+    this.valuesDirty = true
+    this.map?.triggerRepaint()
+  }
+
+  onAdd(map: any, gl: WebGLRenderingContext): void {
+    this.map = map
+    this.gl = gl
+    this.isWebGL2 = typeof WebGL2RenderingContext !== 'undefined' && gl instanceof WebGL2RenderingContext
+    if (!this.isWebGL2) gl.getExtension('OES_texture_float')
+
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type)!
+      gl.shaderSource(shader, source)
+      gl.compileShader(shader)
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        throw new Error(`Raster shader failed to compile: ${gl.getShaderInfoLog(shader)}`)
+      }
+      return shader
+    }
+    const program = gl.createProgram()!
+    gl.attachShader(program, compile(gl.VERTEX_SHADER, VERTEX_SHADER))
+    gl.attachShader(program, compile(gl.FRAGMENT_SHADER, FRAGMENT_SHADER))
+    gl.linkProgram(program)
+    this.program = program
+
+    // One quad over the raster's Web Mercator extent; uv (0, 0) is the northwest corner
+    const [west, south, east, north] = this.raster.bbox
+    const [x0, y0] = mercatorPoint([west, north])
+    const [x1, y1] = mercatorPoint([east, south])
+    this.buffer = gl.createBuffer()
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer)
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
+      x0, y0, 0, 0,
+      x1, y0, 1, 0,
+      x0, y1, 0, 1,
+      x1, y1, 1, 1
+    ]), gl.STATIC_DRAW)
+
+    this.valueTexture = gl.createTexture()
+    this.rampTexture = gl.createTexture()
+    if (this.raster.warp) {
+      this.warpTexture = gl.createTexture()
+      this.uploadWarp()
+    }
+    this.valuesDirty = true
+    this.rampDirty = true
+  }
+
+  onRemove(_map: any, gl: WebGLRenderingContext): void {
+    gl.deleteTexture(this.valueTexture)
+    gl.deleteTexture(this.warpTexture)
+    gl.deleteTexture(this.rampTexture)
+    gl.deleteBuffer(this.buffer)
+    gl.deleteProgram(this.program)
+    this.map = null
+    this.gl = null
+  }
+
+  // Float texture in the single channel this context supports
+  private uploadFloatTexture(texture: WebGLTexture | null, width: number, height: number, data: Float32Array, channels: 1 | 2) {
+    const gl = this.gl!
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4)
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false)
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false)
+    if (this.isWebGL2) {
+      const gl2 = gl as WebGL2RenderingContext
+      const [internal, format] = channels === 1 ? [gl2.R32F, gl2.RED] : [gl2.RG32F, gl2.RG]
+      gl2.texImage2D(gl.TEXTURE_2D, 0, internal, width, height, 0, format, gl.FLOAT, data)
+    } else {
+      const format = channels === 1 ? gl.LUMINANCE : gl.LUMINANCE_ALPHA
+      gl.texImage2D(gl.TEXTURE_2D, 0, format, width, height, 0, format, gl.FLOAT, data)
+    }
+    // Float textures are not filterable everywhere; the shader interpolates itself
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+  }
+
+  private uploadValues() {
+    const { values, width, height } = this.raster
+    const data = new Float32Array(width * height)
+    for (let i = 0; i < data.length; i++) {
+      const v = values![i]
+      data[i] = isFinite(v) ? v : NODATA_SENTINEL
+    }
+    this.uploadFloatTexture(this.valueTexture, width, height, data, 1)
+    this.valuesDirty = false
+  }
+
+  private uploadWarp() {
+    const warp = this.raster.warp!
+    const data = new Float32Array(warp.col.length * 2)
+    for (let i = 0; i < warp.col.length; i++) {
+      const outside = isNaN(warp.col[i])
+      data[i * 2] = outside ? OUTSIDE_SENTINEL : warp.col[i]
+      data[i * 2 + 1] = outside ? OUTSIDE_SENTINEL : warp.row[i]
+    }
+    this.uploadFloatTexture(this.warpTexture, warp.width, warp.height, data, 2)
+  }
+
+  // Sample the scale into a 1D RGBA texture across its domain
+  private uploadRamp() {
+    const gl = this.gl!
+    const { scale } = this.style
+    const domain = rampDomain(scale)
+    const pixels = new Uint8Array(RAMP_SIZE * 4)
+    if (domain) {
+      for (let i = 0; i < RAMP_SIZE; i++) {
+        const color = colorForValue(scale, domain.min + ((i + 0.5) / RAMP_SIZE) * (domain.max - domain.min))
+        if (!color) continue
+        pixels.set([color[0], color[1], color[2], RASTER_ALPHA], i * 4)
+      }
+    }
+    gl.bindTexture(gl.TEXTURE_2D, this.rampTexture)
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, RAMP_SIZE, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
+    // Classes need hard edges between bins
+    const filter = scale.classes ? gl.NEAREST : gl.LINEAR
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+    this.rampDirty = false
+  }
+
+  render(gl: WebGLRenderingContext, matrix: number[]): void {
+    const program = this.program
+    if (!program) return
+    if (this.valuesDirty) this.uploadValues()
+    if (this.rampDirty) this.uploadRamp()
+
+    const domain = rampDomain(this.style.scale) || { min: 0, max: 1 }
+    gl.useProgram(program)
+    gl.uniformMatrix4fv(gl.getUniformLocation(program, 'u_matrix'), false, matrix)
+    gl.uniform2f(gl.getUniformLocation(program, 'u_size'), this.raster.width, this.raster.height)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_warped'), this.raster.warp ? 1 : 0)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_warpInAlpha'), this.isWebGL2 ? 0 : 1)
+    gl.uniform1i(gl.getUniformLocation(program, 'u_bilinear'), this.style.resampling === 'bilinear' ? 1 : 0)
+    gl.uniform2f(gl.getUniformLocation(program, 'u_domain'), domain.min, domain.max === domain.min ? domain.min + 1 : domain.max)
+    gl.uniform1f(gl.getUniformLocation(program, 'u_opacity'), this.style.opacity ?? 0.75)
+
+    const textures: Array<[string, WebGLTexture | null]> = [['u_values', this.valueTexture], ['u_warp', this.warpTexture], ['u_ramp', this.rampTexture]]
+    textures.forEach(([name, texture], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit)
+      gl.bindTexture(gl.TEXTURE_2D, texture)
+      gl.uniform1i(gl.getUniformLocation(program, name), unit)
+    })
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.buffer)
+    const position = gl.getAttribLocation(program, 'a_position')
+    const uv = gl.getAttribLocation(program, 'a_uv')
+    gl.enableVertexAttribArray(position)
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 16, 0)
+    gl.enableVertexAttribArray(uv)
+    gl.vertexAttribPointer(uv, 2, gl.FLOAT, false, 16, 8)
+
+    gl.enable(gl.BLEND)
+    gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA)
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4)
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Zonal statistics of a decoded raster over a polygon, computed in the browser
+ *
+ * A cell belongs to the zone when its center falls inside the polygon (even-
+ * odd rule, so holes and multipolygons work). Every statistic is weighted by
+ * the cell's ground area, measured from its four corners in WGS84: cells of a
+ * geographic grid shrink towards the poles, and projected grids are measured
+ * on the ground rather than in map units.
+ */
+import type { PixelLocator } from './contours'
+
+/** WGS84 [lon, lat] to fractional source pixel (0, 0 = top-left corner of the raster) */
+export type PixelProjector = (lon: number, lat: number) => [number, number]
+
+/** Outer ring first, then holes; [lon, lat] */
+export type PolygonRings = [number, number][][]
+
+/**
+ * A zone: a drawn region or a state/county outline
+ */
+export interface ZonalRegion {
+  id: string
+  label: string
+  polygons: PolygonRings[]
+}
+
+export interface ZonalStats {
+  regionId: string
+  region: string
+  /** Band or date the statistics were computed on */
+  layer: string | null
+  mean: number
+  min: number
+  max: number
+  std: number
+  /** [percent, value], for ZONAL_PERCENTILES */
+  percentiles: Array<[number, number]>
+  validCells: number
+  noDataCells: number
+  validAreaKm2: number
+  areaKm2: number
+}
+
+export const ZONAL_PERCENTILES = [10, 25, 50, 75, 90]
+
+// Longest polygon edge projected as a straight line; longer ones are split so
+// that they bend like the parallels and meridians they follow
+const MAX_EDGE_DEGREES = 0.05
+const KM_PER_DEGREE = 6371.0088 * Math.PI / 180
+
+function densify(ring: [number, number][]): [number, number][] {
+  const out: [number, number][] = []
+  ring.forEach((point, i) => {
+    if (i > 0) {
+      const [lon0, lat0] = ring[i - 1]
+      const steps = Math.ceil(Math.max(Math.abs(point[0] - lon0), Math.abs(point[1] - lat0)) / MAX_EDGE_DEGREES)
+      for (let k = 1; k < steps; k++) out.push([lon0 + (point[0] - lon0) * k / steps, lat0 + (point[1] - lat0) * k / steps])
+    }
+    out.push(point)
+  })
+  return out
+}
+
+/**
+ * Area in km² of a small quadrilateral of WGS84 corners
+ */
+export function cellAreaKm2(corners: [number, number][]): number {
+  const scale = Math.cos(corners.reduce((sum, c) => sum + c[1], 0) / corners.length * Math.PI / 180)
+  let twice = 0
+  for (let i = 0; i < corners.length; i++) {
+    const [x0, y0] = corners[i]
+    const [x1, y1] = corners[(i + 1) % corners.length]
+    twice += x0 * scale * y1 - x1 * scale * y0
+  }
+  return Math.abs(twice) / 2 * KM_PER_DEGREE * KM_PER_DEGREE
+}
+
+/**
+ * Weighted percentile; each sample sits at the middle of its share of the
+ * cumulative weight (with equal weights this is the usual (i + 0.5) / n rule)
+ */
+function weightedPercentile(values: Float64Array, weights: Float64Array, order: Uint32Array, total: number, percent: number): number {
+  const target = percent / 100 * total
+  let cumulative = 0
+  let previous: [number, number] | null = null
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k]
+    const position = cumulative + weights[i] / 2
+    if (position >= target) {
+      if (!previous) return values[i]
+      const [prevPosition, prevValue] = previous
+      const t = position > prevPosition ? (target - prevPosition) / (position - prevPosition) : 0
+      return prevValue + t * (values[i] - prevValue)
+    }
+    previous = [position, values[i]]
+    cumulative += weights[i]
+  }
+  return values[order[order.length - 1]]
+}
+
+/**
+ * Area-weighted statistics of the raster values inside a region, or null
+ * when no cell center falls inside it
+ */
+export function computeZonalStats(
+  grid: { width: number; height: number; values: ArrayLike<number> },
+  region: ZonalRegion,
+  project: PixelProjector,
+  locate: PixelLocator,
+  layer: string | null = null
+): ZonalStats | null {
+  // Polygon edges in pixel space
+  const edges: number[] = []
+  let top = Infinity
+  let bottom = -Infinity
+  region.polygons.forEach(rings => rings.forEach(ring => {
+    const points = densify(ring).map(([lon, lat]) => project(lon, lat))
+    for (let i = 1; i < points.length; i++) {
+      const [x0, y0] = points[i - 1]
+      const [x1, y1] = points[i]
+      if (![x0, y0, x1, y1].every(isFinite)) continue
+      edges.push(x0, y0, x1, y1)
+      top = Math.min(top, y0, y1)
+      bottom = Math.max(bottom, y0, y1)
+    }
+  }))
+
+  const values: number[] = []
+  const weights: number[] = []
+  let noDataCells = 0
+  let areaKm2 = 0
+  const firstRow = Math.max(0, Math.floor(top))
+  const lastRow = Math.min(grid.height - 1, Math.ceil(bottom))
+  for (let row = firstRow; row <= lastRow; row++) {
+    // Even-odd crossings of the row's center line
+    const y = row + 0.5
+    const crossings: number[] = []
+    for (let e = 0; e < edges.length; e += 4) {
+      const [x0, y0, x1, y1] = [edges[e], edges[e + 1], edges[e + 2], edges[e + 3]]
+      if ((y0 <= y && y < y1) || (y1 <= y && y < y0)) crossings.push(x0 + (y - y0) * (x1 - x0) / (y1 - y0))
+    }
+    crossings.sort((a, b) => a - b)
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const firstCol = Math.max(0, Math.ceil(crossings[k] - 0.5))
+      const lastCol = Math.min(grid.width - 1, Math.ceil(crossings[k + 1] - 0.5) - 1)
+      if (lastCol < firstCol) continue
+      // Cell corners along the top and bottom edges of the row
+      const upper: [number, number][] = []
+      const lower: [number, number][] = []
+      for (let col = firstCol; col <= lastCol + 1; col++) {
+        upper.push(locate(col, row))
+        lower.push(locate(col, row + 1))
+      }
+      for (let col = firstCol; col <= lastCol; col++) {
+        const j = col - firstCol
+        const area = cellAreaKm2([upper[j], upper[j + 1], lower[j + 1], lower[j]])
+        areaKm2 += area
+        const value = grid.values[row * grid.width + col]
+        if (isFinite(value)) {
+          values.push(value)
+          weights.push(area)
+        } else {
+          noDataCells++
+        }
+      }
+    }
+  }
+  if (values.length === 0 && noDataCells === 0) return null
+
+  const v = Float64Array.from(values)
+  const w = Float64Array.from(weights)
+  let total = 0
+  let sum = 0
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < v.length; i++) {
+    total += w[i]
+    sum += w[i] * v[i]
+    if (v[i] < min) min = v[i]
+    if (v[i] > max) max = v[i]
+  }
+  const mean = total > 0 ? sum / total : NaN
+  let squares = 0
+  for (let i = 0; i < v.length; i++) squares += w[i] * (v[i] - mean) ** 2
+  const order = Uint32Array.from(v.keys()).sort((a, b) => v[a] - v[b])
+
+  return {
+    regionId: region.id,
+    region: region.label,
+    layer,
+    mean,
+    min: v.length > 0 ? min : NaN,
+    max: v.length > 0 ? max : NaN,
+    std: total > 0 ? Math.sqrt(squares / total) : NaN,
+    percentiles: ZONAL_PERCENTILES.map(p => [p, v.length > 0 ? weightedPercentile(v, w, order, total, p) : NaN]),
+    validCells: v.length,
+    noDataCells,
+    validAreaKm2: total,
+    areaKm2
+  }
+}
+
+/**
+ * One CSV field: empty for null and non-finite numbers, quoted when needed
+ */
+export function csvField(value: string | number | null): string {
+  if (value === null || (typeof value === 'number' && !isFinite(value))) return ''
+  const text = typeof value === 'number' ? String(Number(value.toPrecision(8))) : value
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * One row per zone, with the variable and unit in the header
+ */
+export function zonalStatsCsv(rows: ZonalStats[], variable: string, unit?: string): string {
+  const suffix = unit ? ` (${unit})` : ''
+  const header = [
+    'region', 'layer', 'variable', `mean${suffix}`, `min${suffix}`, `max${suffix}`, `std${suffix}`,
+    ...ZONAL_PERCENTILES.map(p => `p${p}${suffix}`),
+    'valid_cells', 'nodata_cells', 'valid_area_km2', 'area_km2'
+  ]
+  const lines = rows.map(s => [
+    s.region, s.layer, variable, s.mean, s.min, s.max, s.std,
+    ...s.percentiles.map(([, value]) => value),
+    s.validCells, s.noDataCells, s.validAreaKm2, s.areaKm2
+  ].map(csvField).join(','))
+  return [header.map(csvField).join(','), ...lines].join('\n') + '\n'
+}
@@ -4,6 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The GeoTIFF worker is a module worker that imports its libraries at runtime
+    format: 'es'
+  },
   server: {
     proxy: {
       // ✅ Proxy to Azure Functions only